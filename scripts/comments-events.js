@@ -0,0 +1,267 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+
+// Live updates for shared review sessions.
+// Browsers subscribe to a Server-Sent Events stream; the dev server feeds it from GitHub/GitLab webhooks,
+// from the bundled comment store (scripts/rest-server.js) or, when no webhook can reach the machine, by polling
+// the provider on the server side. Clients only receive "issue N changed" hints and re-sync that issue's route.
+
+const crypto = require('crypto');
+
+const DEFAULT_BASE_PATH = '/api/comments-events';
+const KEEP_ALIVE_MS = 25000;
+const MIN_POLL_INTERVAL_MS = 5000;
+
+const routeFromLabels = (labels) => {
+  const names = (Array.isArray(labels) ? labels : []).map((l) => (typeof l === 'string' ? l : l && (l.name || l.title)));
+  const label = names.find((n) => typeof n === 'string' && n.startsWith('route:'));
+  return label ? label.slice('route:'.length) : undefined;
+};
+
+/**
+ * Normalize a GitHub webhook (`issues` / `issue_comment`) into a comment event, or null if it is not relevant
+ */
+function fromGitHubWebhook(eventName, payload) {
+  const issue = payload && payload.issue;
+  if (!issue || issue.pull_request) return null;
+  const base = {
+    provider: 'github',
+    issueNumber: issue.number,
+    route: routeFromLabels(issue.labels),
+    updatedAt: issue.updated_at,
+  };
+  if (eventName === 'issues') return { ...base, kind: 'issue', action: payload.action };
+  if (eventName === 'issue_comment') {
+    return {
+      ...base,
+      kind: 'comment',
+      action: payload.action,
+      commentId: payload.comment && payload.comment.id,
+      updatedAt: (payload.comment && payload.comment.updated_at) || issue.updated_at,
+    };
+  }
+  return null;
+}
+
+/**
+ * Normalize a GitLab webhook (Issue Hook / Note Hook on issues) into a comment event, or null if it is not relevant
+ */
+function fromGitLabWebhook(payload) {
+  const kind = payload && payload.object_kind;
+  const attrs = (payload && payload.object_attributes) || {};
+  if (kind === 'issue') {
+    return {
+      provider: 'gitlab',
+      kind: 'issue',
+      action: attrs.action || 'update',
+      issueNumber: attrs.iid,
+      route: routeFromLabels(payload.labels),
+      updatedAt: attrs.updated_at,
+    };
+  }
+  if (kind === 'note' && attrs.noteable_type === 'Issue' && payload.issue) {
+    return {
+      provider: 'gitlab',
+      kind: 'comment',
+      action: attrs.action || 'create',
+      issueNumber: payload.issue.iid,
+      commentId: attrs.id,
+      route: routeFromLabels(payload.issue.labels),
+      updatedAt: attrs.updated_at,
+    };
+  }
+  return null;
+}
+
+const safeEqual = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const githubSignature = (secret, rawBody) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+
+/**
+ * Server-side polling for setups where webhooks cannot reach the dev server.
+ * Needs a server-only token (HALE_EVENTS_GITHUB_TOKEN / HALE_EVENTS_GITLAB_TOKEN) and runs only while browsers listen.
+ */
+function createPoller({ intervalMs, publish, hasListeners }) {
+  const githubToken = process.env.HALE_EVENTS_GITHUB_TOKEN;
+  const owner = process.env.VITE_GITHUB_OWNER;
+  const repo = process.env.VITE_GITHUB_REPO;
+  const gitlabToken = process.env.HALE_EVENTS_GITLAB_TOKEN;
+  const gitlabBaseUrl = (process.env.VITE_GITLAB_BASE_URL || 'https://gitlab.com').replace(/\/+$/, '');
+  const gitlabProject = process.env.VITE_GITLAB_PROJECT_PATH;
+
+  const sources = [];
+  if (githubToken && owner && repo) {
+    sources.push(async (since) => {
+      const resp = await fetch(
+        `https://api.github.com/repos/${owner}/${repo}/issues?state=all&sort=updated&direction=desc&per_page=100&since=${encodeURIComponent(since)}`,
+        { headers: { Authorization: `token ${githubToken}`, Accept: 'application/vnd.github+json' } },
+      );
+      if (!resp.ok) throw new Error(`GitHub poll failed (${resp.status})`);
+      const issues = await resp.json();
+      return issues
+        .filter((i) => !i.pull_request)
+        .map((i) => ({ provider: 'github', kind: 'issue', action: 'updated', issueNumber: i.number, route: routeFromLabels(i.labels), updatedAt: i.updated_at }));
+    });
+  }
+  if (gitlabToken && gitlabProject) {
+    sources.push(async (since) => {
+      const resp = await fetch(
+        `${gitlabBaseUrl}/api/v4/projects/${encodeURIComponent(gitlabProject)}/issues?scope=all&order_by=updated_at&per_page=100&updated_after=${encodeURIComponent(since)}`,
+        { headers: { 'PRIVATE-TOKEN': gitlabToken } },
+      );
+      if (!resp.ok) throw new Error(`GitLab poll failed (${resp.status})`);
+      const issues = await resp.json();
+      // GitLab bumps the issue's updated_at when notes change, so issues cover comments too
+      return issues.map((i) => ({ provider: 'gitlab', kind: 'issue', action: 'updated', issueNumber: i.iid, route: routeFromLabels(i.labels), updatedAt: i.updated_at }));
+    });
+  }
+  if (!sources.length) return null;
+
+  let since = new Date().toISOString();
+  let timer = null;
+
+  const tick = async () => {
+    timer = null;
+    if (!hasListeners()) return;
+    const startedAt = new Date().toISOString();
+    try {
+      for (const poll of sources) {
+        // eslint-disable-next-line no-await-in-loop
+        (await poll(since)).forEach(publish);
+      }
+      since = startedAt;
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.warn('[Commenting System] Event polling failed:', e.message);
+    }
+    schedule();
+  };
+
+  const schedule = () => {
+    if (!timer && hasListeners()) timer = setTimeout(tick, intervalMs);
+  };
+
+  return {
+    start: schedule,
+    stop: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
+
+/**
+ * Register the event routes on an express app. Mount it before `express.json()` so GitHub signatures
+ * can be checked against the raw request body.
+ *
+ *   GET  {basePath}                    text/event-stream of `comment-event` messages
+ *   POST {basePath}/webhooks/github    GitHub webhook (X-Hub-Signature-256 checked when GITHUB_WEBHOOK_SECRET is set)
+ *   POST {basePath}/webhooks/gitlab    GitLab webhook (X-Gitlab-Token checked when GITLAB_WEBHOOK_SECRET is set)
+ *
+ * Returns `{ publish }` so other server code (the local comment store) can push events directly.
+ */
+function mountCommentsEvents(app, express, options = {}) {
+  const basePath = options.basePath || DEFAULT_BASE_PATH;
+  const clients = new Set();
+  let nextEventId = 1;
+
+  const publish = (event) => {
+    if (!event || !event.issueNumber) return;
+    const message = `id: ${nextEventId++}\nevent: comment-event\ndata: ${JSON.stringify(event)}\n\n`;
+    clients.forEach((res) => res.write(message));
+  };
+
+  const requestedPollMs = Number(options.pollIntervalMs || process.env.HALE_EVENTS_POLL_INTERVAL_MS || 0);
+  const pollIntervalMs = requestedPollMs > 0 ? Math.max(MIN_POLL_INTERVAL_MS, requestedPollMs) : 0;
+  const poller = pollIntervalMs
+    ? createPoller({ intervalMs: pollIntervalMs, publish, hasListeners: () => clients.size > 0 })
+    : null;
+
+  app.get(basePath, (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    });
+    res.write('retry: 5000\n\n');
+    clients.add(res);
+    if (poller) poller.start();
+
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      clients.delete(res);
+      if (!clients.size && poller) poller.stop();
+    });
+  });
+
+  const rawBody = express.raw({ type: '*/*', limit: '5mb' });
+
+  // Accepts both a raw Buffer (mounted before express.json) and an already-parsed body
+  const readJson = (req) => {
+    if (Buffer.isBuffer(req.body)) return req.body.length ? JSON.parse(req.body.toString('utf-8')) : {};
+    return req.body || {};
+  };
+
+  app.post(`${basePath}/webhooks/github`, rawBody, (req, res) => {
+    try {
+      const secret = process.env.GITHUB_WEBHOOK_SECRET;
+      if (secret) {
+        if (!Buffer.isBuffer(req.body)) {
+          return res.status(500).json({ message: 'Mount comments-events before express.json() to verify GitHub signatures.' });
+        }
+        if (!safeEqual(req.get('x-hub-signature-256') || '', githubSignature(secret, req.body))) {
+          return res.status(401).json({ message: 'Invalid signature' });
+        }
+      }
+      if (req.get('x-github-event') === 'ping') return res.status(204).end();
+      publish(fromGitHubWebhook(req.get('x-github-event'), readJson(req)));
+      return res.status(202).end();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      return res.status(400).json({ message: 'Invalid webhook payload' });
+    }
+  });
+
+  app.post(`${basePath}/webhooks/gitlab`, rawBody, (req, res) => {
+    try {
+      const secret = process.env.GITLAB_WEBHOOK_SECRET;
+      if (secret && !safeEqual(req.get('x-gitlab-token') || '', secret)) {
+        return res.status(401).json({ message: 'Invalid token' });
+      }
+      publish(fromGitLabWebhook(readJson(req)));
+      return res.status(202).end();
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      return res.status(400).json({ message: 'Invalid webhook payload' });
+    }
+  });
+
+  // eslint-disable-next-line no-console
+  console.log(`[Commenting System] Comment events at ${basePath}${poller ? ` (polling every ${pollIntervalMs}ms)` : ''}`);
+  const unverified = [
+    !process.env.GITHUB_WEBHOOK_SECRET && 'GITHUB_WEBHOOK_SECRET',
+    !process.env.GITLAB_WEBHOOK_SECRET && 'GITLAB_WEBHOOK_SECRET',
+  ].filter(Boolean);
+  if (unverified.length) {
+    // eslint-disable-next-line no-console
+    console.warn(
+      `[Commenting System] ⚠️ ${unverified.join(' and ')} not set: anyone who can reach ${basePath}/webhooks can push events to connected browsers`,
+    );
+  }
+  return { publish };
+}
+
+module.exports = {
+  mountCommentsEvents,
+  fromGitHubWebhook,
+  fromGitLabWebhook,
+  githubSignature,
+  DEFAULT_BASE_PATH,
+};
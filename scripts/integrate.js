@@ -403,8 +403,16 @@ function generateFiles(config) {
 
 `;
 
-  // Provider configuration (GitHub or GitLab)
-  if (config.provider && config.provider.type === 'gitlab') {
+  // Provider configuration (GitHub, GitLab, Gitea or the bundled comment store)
+  if (config.provider && config.provider.type === 'rest') {
+    envContent += `# Provider Type
+VITE_PROVIDER_TYPE=rest
+
+# Bundled comment store (served by the dev server, data in .hale/comments.json)
+VITE_REST_API_URL=/api/hale-comments
+
+`;
+  } else if (config.provider && config.provider.type === 'gitlab') {
     envContent += `# Provider Type
 VITE_PROVIDER_TYPE=gitlab
 
@@ -415,6 +423,19 @@ VITE_GITLAB_BASE_URL=${config.provider.baseUrl}
 # Target project for Issues/Comments
 VITE_GITLAB_PROJECT_PATH=${config.provider.projectPath}
 
+`;
+  } else if (config.provider && config.provider.type === 'gitea') {
+    envContent += `# Provider Type
+VITE_PROVIDER_TYPE=gitea
+
+# Gitea / Forgejo OAuth (client-side; safe to expose)
+VITE_GITEA_CLIENT_ID=${config.provider.clientId}
+VITE_GITEA_BASE_URL=${config.provider.baseUrl}
+
+# Target repo for Issues/Comments
+VITE_GITEA_OWNER=${config.provider.owner}
+VITE_GITEA_REPO=${config.provider.repo}
+
 `;
   } else if (config.provider && config.provider.type === 'github') {
     envContent += `# Provider Type
@@ -470,6 +491,7 @@ VITE_JIRA_BASE_URL=
     const hasCommentingSystemConfig = existing.includes('Hale Commenting System') ||
                                       existing.includes('VITE_GITHUB_CLIENT_ID') ||
                                       existing.includes('VITE_GITLAB_CLIENT_ID') ||
+                                      existing.includes('VITE_GITEA_CLIENT_ID') ||
                                       existing.includes('VITE_PROVIDER_TYPE');
 
     if (hasCommentingSystemConfig) {
@@ -496,9 +518,11 @@ VITE_JIRA_BASE_URL=
           // Check if this is still part of the commenting system section
           if (line.startsWith('VITE_GITHUB_') || 
               line.startsWith('VITE_GITLAB_') || 
+              line.startsWith('VITE_GITEA_') ||
+              line.startsWith('VITE_REST_') ||
               line.startsWith('VITE_PROVIDER_TYPE') ||
               line.startsWith('VITE_JIRA_BASE_URL') ||
-              (line.startsWith('#') && (line.includes('GitHub') || line.includes('GitLab') || line.includes('Jira') || line.includes('Provider') || line.includes('OAuth') || line.includes('Target')))) {
+              (line.startsWith('#') && (line.includes('GitHub') || line.includes('GitLab') || line.includes('Gitea') || line.includes('comment store') || line.includes('Jira') || line.includes('Provider') || line.includes('OAuth') || line.includes('Target')))) {
             // Still in commenting section, skip this line
             continue;
           }
@@ -517,6 +541,8 @@ VITE_JIRA_BASE_URL=
           // ALWAYS skip these, regardless of whether header exists
           if (line.startsWith('VITE_GITHUB_') || 
               line.startsWith('VITE_GITLAB_') || 
+              line.startsWith('VITE_GITEA_') ||
+              line.startsWith('VITE_REST_') ||
               line.startsWith('VITE_PROVIDER_TYPE') ||
               line.startsWith('VITE_JIRA_BASE_URL')) {
             // Skip standalone commenting system variables
@@ -581,11 +607,16 @@ VITE_JIRA_BASE_URL=
 
 `;
 
-  // Provider secrets (GitHub or GitLab)
+  // Provider secrets (GitHub, GitLab or Gitea)
   if (config.provider && config.provider.type === 'gitlab' && config.provider.clientSecret) {
     envServerContent += `# GitLab OAuth Application Secret (server-only)
 GITLAB_CLIENT_SECRET=${config.provider.clientSecret}
 
+`;
+  } else if (config.provider && config.provider.type === 'gitea' && config.provider.clientSecret) {
+    envServerContent += `# Gitea / Forgejo OAuth Application Secret (server-only)
+GITEA_CLIENT_SECRET=${config.provider.clientSecret}
+
 `;
   } else if (config.provider && config.provider.type === 'github' && config.provider.clientSecret) {
     envServerContent += `# GitHub OAuth Client Secret (server-only)
@@ -644,6 +675,7 @@ JIRA_API_TOKEN=
     const hasCommentingSystemConfig = existing.includes('Hale Commenting System - Server Secrets') ||
                                       existing.includes('GITHUB_CLIENT_SECRET') ||
                                       existing.includes('GITLAB_CLIENT_SECRET') ||
+                                      existing.includes('GITEA_CLIENT_SECRET') ||
                                       existing.includes('JIRA_API_TOKEN');
 
     if (hasCommentingSystemConfig) {
@@ -670,9 +702,10 @@ JIRA_API_TOKEN=
           // Check if this is still part of the commenting system section
           if (line.startsWith('GITHUB_CLIENT_SECRET=') ||
               line.startsWith('GITLAB_CLIENT_SECRET=') ||
+              line.startsWith('GITEA_CLIENT_SECRET=') ||
               line.startsWith('JIRA_API_TOKEN=') ||
               line.startsWith('JIRA_EMAIL=') ||
-              (line.startsWith('#') && (line.includes('GitHub') || line.includes('GitLab') || line.includes('Jira') || line.includes('OAuth') || line.includes('Server Secrets')))) {
+              (line.startsWith('#') && (line.includes('GitHub') || line.includes('GitLab') || line.includes('Gitea') || line.includes('Jira') || line.includes('OAuth') || line.includes('Server Secrets')))) {
             // Still in commenting section, skip this line
             continue;
           }
@@ -689,6 +722,7 @@ JIRA_API_TOKEN=
           // Also check for standalone commenting system variables (in case header is missing)
           if (line.startsWith('GITHUB_CLIENT_SECRET=') ||
               line.startsWith('GITLAB_CLIENT_SECRET=') ||
+              line.startsWith('GITEA_CLIENT_SECRET=') ||
               line.startsWith('JIRA_API_TOKEN=') ||
               line.startsWith('JIRA_EMAIL=')) {
             // Skip standalone commenting system variables
@@ -736,17 +770,19 @@ JIRA_API_TOKEN=
     console.log('   ℹ️  Some values are empty - see comments in .env.server for setup instructions');
   }
 
-  // Ensure .env.server is in .gitignore
+  // Ensure .env.server (secrets) and .hale/ (the bundled comment store's data) are in .gitignore
   const gitignorePath = path.join(cwd, '.gitignore');
+  const ignoredPaths = ['.env.server', '.hale/'];
   if (fs.existsSync(gitignorePath)) {
     const gitignore = fs.readFileSync(gitignorePath, 'utf-8');
-    if (!gitignore.includes('.env.server')) {
-      fs.appendFileSync(gitignorePath, '\n.env.server\n');
-      console.log('   ✅ Added .env.server to .gitignore');
+    const missing = ignoredPaths.filter((entry) => !gitignore.includes(entry));
+    if (missing.length) {
+      fs.appendFileSync(gitignorePath, `\n${missing.join('\n')}\n`);
+      console.log(`   ✅ Added ${missing.join(' and ')} to .gitignore`);
     }
   } else {
-    fs.writeFileSync(gitignorePath, '.env.server\n');
-    console.log('   ✅ Created .gitignore with .env.server');
+    fs.writeFileSync(gitignorePath, `${ignoredPaths.join('\n')}\n`);
+    console.log(`   ✅ Created .gitignore with ${ignoredPaths.join(' and ')}`);
   }
 }
 
@@ -785,7 +821,28 @@ function integrateWebpackMiddleware() {
       }
 
       const express = require('express');
-      devServer.app.use(express.json());
+
+      // Live updates (SSE) fed by provider webhooks; mounted before express.json() so webhook signatures see the raw body
+      let commentsEvents = null;
+      try {
+        const { mountCommentsEvents } = require('hale-commenting-system/scripts/comments-events');
+        commentsEvents = mountCommentsEvents(devServer.app, express);
+      } catch (e) {
+        console.warn('[Commenting System] Comment events unavailable:', e.message);
+      }
+
+      devServer.app.use(express.json({ limit: '10mb' }));
+
+      // Bundled comment store for VITE_PROVIDER_TYPE=rest (JSON file, no third-party accounts)
+      try {
+        const { mountCommentsServer } = require('hale-commenting-system/scripts/rest-server');
+        mountCommentsServer(devServer.app, {
+          dataFile: path.resolve(__dirname, '.hale', 'comments.json'),
+          onChange: commentsEvents ? commentsEvents.publish : undefined,
+        });
+      } catch (e) {
+        console.warn('[Commenting System] Local comment store unavailable:', e.message);
+      }
 
       // GitHub OAuth Callback
       devServer.app.get('/api/github-oauth-callback', async (req, res) => {
@@ -851,7 +908,7 @@ function integrateWebpackMiddleware() {
       // GitHub API Proxy
       devServer.app.post('/api/github-api', async (req, res) => {
         try {
-          const { token, method, endpoint, data } = req.body || {};
+          const { token, method, endpoint, data, ifNoneMatch } = req.body || {};
           if (!token) return res.status(401).json({ message: 'Missing token' });
           if (!method || !endpoint) return res.status(400).json({ message: 'Missing method or endpoint' });
 
@@ -863,10 +920,16 @@ function integrateWebpackMiddleware() {
               'Authorization': \`token \${token}\`,
               'User-Agent': 'hale-commenting-system',
               ...(data ? { 'Content-Type': 'application/json' } : {}),
+              ...(ifNoneMatch ? { 'If-None-Match': ifNoneMatch } : {}),
             },
             body: data ? JSON.stringify(data) : undefined,
           });
 
+          // Conditional request hit: the client serves its cached copy (and GitHub doesn't bill the request)
+          if (resp.status === 304) {
+            return res.status(304).end();
+          }
+
           const text = await resp.text();
           const maybeJson = (() => {
             try {
@@ -876,6 +939,18 @@ function integrateWebpackMiddleware() {
             }
           })();
 
+          // Forward pagination headers so the client can follow rel="next"
+          const link = resp.headers.get('link');
+          if (link) res.set('Link', link);
+          // Forward rate-limit headers so the client can back off instead of failing
+          ['x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset', 'retry-after'].forEach((name) => {
+            const value = resp.headers.get(name);
+            if (value !== null) res.set(name, value);
+          });
+          // Expose the upstream ETag under its own name so it can't be confused with Express's response ETag
+          const etag = resp.headers.get('etag');
+          if (etag) res.set('X-GitHub-ETag', etag);
+
           return res.status(resp.status).json(maybeJson);
         } catch (err) {
           console.error(err);
@@ -883,6 +958,215 @@ function integrateWebpackMiddleware() {
         }
       });
 
+      // Gitea / Forgejo OAuth callback
+      devServer.app.get('/api/gitea-oauth-callback', async (req, res) => {
+        try {
+          const code = req.query.code;
+          if (!code) {
+            return res.status(400).send('Missing ?code from Gitea OAuth callback.');
+          }
+
+          const clientId = process.env.VITE_GITEA_CLIENT_ID;
+          const clientSecret = process.env.GITEA_CLIENT_SECRET;
+          const baseUrl = (process.env.VITE_GITEA_BASE_URL || '').replace(/\\/+$/, '');
+
+          if (!baseUrl) {
+            return res.status(500).send('Missing VITE_GITEA_BASE_URL (e.g. https://gitea.example.com).');
+          }
+          if (!clientId) {
+            return res.status(500).send('Missing VITE_GITEA_CLIENT_ID (client id).');
+          }
+          if (!clientSecret) {
+            return res.status(500).send(
+              'Missing GITEA_CLIENT_SECRET. For local dev, put it in .env.server (gitignored).'
+            );
+          }
+
+          const redirectUri = \`\${req.protocol}://\${req.get('host')}/api/gitea-oauth-callback\`;
+
+          // Exchange code -> access token
+          const tokenResp = await fetch(\`\${baseUrl}/login/oauth/access_token\`, {
+            method: 'POST',
+            headers: {
+              'Accept': 'application/json',
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              client_id: clientId,
+              client_secret: clientSecret,
+              code,
+              grant_type: 'authorization_code',
+              redirect_uri: redirectUri,
+            }),
+          });
+
+          const tokenData = await tokenResp.json();
+          if (!tokenResp.ok || tokenData.error) {
+            return res
+              .status(500)
+              .send(\`OAuth token exchange failed: \${tokenData.error_description || tokenData.error || tokenResp.statusText}\`);
+          }
+
+          const accessToken = tokenData.access_token;
+          if (!accessToken) {
+            return res.status(500).send('OAuth token exchange did not return an access_token.');
+          }
+
+          // Fetch user
+          const userResp = await fetch(\`\${baseUrl}/api/v1/user\`, {
+            headers: {
+              'Accept': 'application/json',
+              'Authorization': \`Bearer \${accessToken}\`,
+              'User-Agent': 'pfseed-commenting-system',
+            },
+          });
+          const user = await userResp.json();
+          if (!userResp.ok) {
+            return res.status(500).send(\`Failed to fetch Gitea user: \${user.message || userResp.statusText}\`);
+          }
+
+          const login = encodeURIComponent(user.login || user.username || '');
+          const avatar = encodeURIComponent(user.avatar_url || '');
+          const token = encodeURIComponent(accessToken);
+
+          return res.redirect(\`/#/auth-callback?token=\${token}&login=\${login}&avatar=\${avatar}\`);
+        } catch (err) {
+          console.error(err);
+          return res.status(500).send('Unhandled OAuth callback error. See dev server logs.');
+        }
+      });
+
+      // Gitea / Forgejo API proxy
+      devServer.app.post('/api/gitea-api', async (req, res) => {
+        try {
+          const { token, method, endpoint, data } = req.body || {};
+          if (!token) return res.status(401).json({ message: 'Missing token' });
+          if (!method || !endpoint) return res.status(400).json({ message: 'Missing method or endpoint' });
+
+          const baseUrl = (process.env.VITE_GITEA_BASE_URL || '').replace(/\\/+$/, '');
+          if (!baseUrl) return res.status(500).json({ message: 'Missing VITE_GITEA_BASE_URL' });
+          const url = \`\${baseUrl}/api/v1\${endpoint}\`;
+
+          const resp = await fetch(url, {
+            method,
+            headers: {
+              'Accept': 'application/json',
+              'Authorization': \`Bearer \${token}\`,
+              'User-Agent': 'pfseed-commenting-system',
+              ...(data ? { 'Content-Type': 'application/json' } : {}),
+            },
+            body: data ? JSON.stringify(data) : undefined,
+          });
+
+          const text = await resp.text();
+          const maybeJson = (() => {
+            try {
+              return JSON.parse(text);
+            } catch {
+              return text;
+            }
+          })();
+
+          // Forward pagination and rate-limit headers
+          ['link', 'x-total-count', 'retry-after'].forEach((name) => {
+            const value = resp.headers.get(name);
+            if (value !== null) res.set(name, value);
+          });
+
+          return res.status(resp.status).json(maybeJson);
+        } catch (err) {
+          console.error(err);
+          return res.status(500).json({ message: 'Unhandled gitea-api proxy error. See dev server logs.' });
+        }
+      });
+
+      // Jira API Proxy (issue provider)
+      // The proxy signs requests with the server's Jira token, so it only forwards the calls the Jira adapter makes
+      const jiraApiAllowlist = [
+        ['GET', /^\\/myself$/],
+        ['POST', /^\\/search(\\/jql)?$/],
+        ['POST', /^\\/issue$/],
+        ['GET', /^\\/issue\\/[\\w-]+\\/comment(\\?[\\w=&]*)?$/],
+        ['POST', /^\\/issue\\/[\\w-]+\\/comment$/],
+        ['PUT', /^\\/issue\\/[\\w-]+\\/comment\\/\\d+$/],
+        ['DELETE', /^\\/issue\\/[\\w-]+\\/comment\\/\\d+$/],
+        ['GET', /^\\/issue\\/[\\w-]+\\/transitions$/],
+        ['POST', /^\\/issue\\/[\\w-]+\\/transitions$/],
+      ];
+      const isAllowedJiraRequest = (method, endpoint) =>
+        jiraApiAllowlist.some(([allowedMethod, path]) => allowedMethod === method && path.test(endpoint));
+
+      devServer.app.post('/api/jira-api', async (req, res) => {
+        try {
+          const { endpoint, data } = req.body || {};
+          const method = String((req.body && req.body.method) || '').toUpperCase();
+          if (!method || !endpoint) return res.status(400).json({ message: 'Missing method or endpoint' });
+          if (!isAllowedJiraRequest(method, String(endpoint))) {
+            return res.status(403).json({ message: \`Jira request not allowed through the proxy: \${method} \${endpoint}\` });
+          }
+
+          const baseUrl = (process.env.VITE_JIRA_BASE_URL || 'https://issues.redhat.com').replace(/\\/+$/, '');
+          const email = (process.env.JIRA_EMAIL || '').trim();
+          const token = (process.env.JIRA_API_TOKEN || '').trim();
+
+          if (!token) {
+            return res.status(401).json({
+              message:
+                'Missing JIRA_API_TOKEN. For local dev, put it in .env.server (gitignored) and restart the dev server.',
+            });
+          }
+
+          const authHeader = email
+            ? \`Basic \${Buffer.from(\`\${email}:\${token}\`).toString('base64')}\` // Jira Cloud API token style
+            : \`Bearer \${token}\`; // Jira Server/DC PAT style
+
+          // REST API v2 accepts plain-text descriptions/comments on both Cloud and Server/DC
+          const url = \`\${baseUrl}/rest/api/2\${endpoint}\`;
+          const resp = await fetch(url, {
+            method,
+            headers: {
+              'Accept': 'application/json',
+              'Authorization': authHeader,
+              'User-Agent': 'pfseed-commenting-system',
+              ...(data ? { 'Content-Type': 'application/json' } : {}),
+            },
+            body: data ? JSON.stringify(data) : undefined,
+            redirect: 'manual',
+          });
+
+          const text = await resp.text();
+          const contentType = String(resp.headers.get('content-type') || '');
+
+          // SSO flows return an HTML login page instead of JSON; never dump that into the UI.
+          if (contentType.includes('text/html') || String(text || '').trim().startsWith('<')) {
+            return res.status(resp.ok ? 502 : resp.status).json({
+              message:
+                resp.status === 401 || resp.status === 403 || resp.status === 302
+                  ? 'Unauthorized to Jira. Your token/auth scheme may be incorrect for this Jira instance.'
+                  : \`Jira request failed (\${resp.status}).\`,
+            });
+          }
+
+          const maybeJson = (() => {
+            try {
+              return text ? JSON.parse(text) : {};
+            } catch {
+              return { message: text };
+            }
+          })();
+
+          ['x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset', 'retry-after'].forEach((name) => {
+            const value = resp.headers.get(name);
+            if (value !== null) res.set(name, value);
+          });
+
+          return res.status(resp.status).json(maybeJson);
+        } catch (err) {
+          console.error(err);
+          return res.status(500).json({ message: 'Unhandled jira-api proxy error. See dev server logs.' });
+        }
+      });
+
       // Jira Issue Proxy
       devServer.app.get('/api/jira-issue', async (req, res) => {
         try {
@@ -1045,7 +1329,7 @@ ${middlewareCode}
   }
 
   // Find where to inject (after express.json() setup, before return middlewares)
-  const expressJsonMatch = webpackContent.match(/devServer\.app\.use\(express\.json\(\)\);/);
+  const expressJsonMatch = webpackContent.match(/devServer\.app\.use\(express\.json\([^)]*\)\);/);
   
   if (expressJsonMatch) {
     // Inject after express.json()
@@ -1077,12 +1361,12 @@ try {
 }
 
 const express = require('express');
-devServer.app.use(express.json());
+devServer.app.use(express.json({ limit: '10mb' }));
 
 ` + middlewareCode;
-    } else if (!webpackContent.includes('express.json()')) {
+    } else if (!webpackContent.includes('express.json(')) {
       fullMiddlewareCode = `const express = require('express');
-devServer.app.use(express.json());
+devServer.app.use(express.json({ limit: '10mb' }));
 
 ` + middlewareCode;
     }
@@ -1642,11 +1926,13 @@ async function main() {
 
   // Step 2: Issue Tracking Integration
   console.log('\n📦 Step 2: Issue Tracking Integration\n');
-  console.log('Comments can sync with GitHub or GitLab Issues.');
+  console.log('Comments can sync with GitHub, GitLab or Gitea/Forgejo Issues.');
   console.log('This allows comments to persist and be managed like regular issues.\n');
   console.log('Options:');
   console.log('  • GitHub - Sync with GitHub Issues');
   console.log('  • GitLab - Sync with GitLab Issues (supports self-hosted)');
+  console.log('  • Gitea - Sync with self-hosted Gitea or Forgejo Issues');
+  console.log('  • Local comment store - Share comments through the dev server (no accounts needed)');
   console.log('  • Skip - Set up later (you can still use local comments)\n');
   
   const platformChoice = await prompt([
@@ -1657,13 +1943,15 @@ async function main() {
       choices: [
         { name: 'GitHub', value: 'github' },
         { name: 'GitLab', value: 'gitlab' },
+        { name: 'Gitea / Forgejo', value: 'gitea' },
+        { name: 'Local comment store (no accounts)', value: 'rest' },
         { name: 'Skip (set up later)', value: 'skip' }
       ],
       default: 'github'
     }
   ]);
 
-  const selectedPlatform = platformChoice.platform; // 'github', 'gitlab', or 'skip'
+  const selectedPlatform = platformChoice.platform; // 'github', 'gitlab', 'gitea', 'rest', or 'skip'
 
   let providerConfig = null;
   let providerValid = false;
@@ -2040,9 +2328,102 @@ async function main() {
       projectPath: projectPathAnswer.projectPath
     };
     providerValid = true; // Assume valid since we can't validate GitLab easily
+  } else if (selectedPlatform === 'gitea') {
+    // Gitea / Forgejo setup flow (self-hosted only)
+    console.log('\nTo sync comments with Gitea (or Forgejo) Issues, we need an OAuth2 application.\n');
+
+    const giteaInstanceAnswer = await prompt([
+      {
+        type: 'input',
+        name: 'baseUrl',
+        message: 'Gitea / Forgejo instance URL:',
+        validate: (input) => {
+          if (!input.trim()) return 'Base URL is required';
+          try {
+            new URL(input);
+            return true;
+          } catch {
+            return 'Invalid URL format (must start with http:// or https://)';
+          }
+        }
+      }
+    ]);
+
+    const baseUrl = giteaInstanceAnswer.baseUrl.replace(/\/+$/, '');
+
+    console.log('\nInstructions:');
+    console.log(`1. Visit: ${baseUrl}/user/settings/applications`);
+    console.log('2. Under "Manage OAuth2 Applications", fill in the form:');
+    console.log('   - Application Name: Your app name (e.g., "My Design Comments")');
+    const devPort = getDevServerPort();
+    console.log(`   - Redirect URIs: http://localhost:${devPort}/api/gitea-oauth-callback`);
+    console.log('   - Confidential Client: ✓ (checked)');
+    console.log('3. Click "Create Application"');
+    console.log('4. Copy the Client ID and Client Secret\n');
+
+    const giteaAnswers = await prompt([
+      {
+        type: 'input',
+        name: 'clientId',
+        message: 'Gitea Client ID:',
+        validate: (input) => {
+          if (!input.trim()) return 'Client ID is required';
+          return true;
+        }
+      },
+      {
+        type: 'password',
+        name: 'clientSecret',
+        message: 'Gitea Client Secret:',
+        mask: '*',
+        validate: (input) => {
+          if (!input.trim()) return 'Client Secret is required';
+          return true;
+        }
+      },
+      {
+        type: 'input',
+        name: 'owner',
+        message: 'Repository owner (user or organization):',
+        default: owner || undefined,
+        validate: (input) => {
+          if (!input.trim()) return 'Owner is required';
+          return true;
+        }
+      },
+      {
+        type: 'input',
+        name: 'repo',
+        message: 'Repository name:',
+        default: repo || undefined,
+        validate: (input) => {
+          if (!input.trim()) return 'Repository name is required';
+          return true;
+        }
+      }
+    ]);
+
+    console.log('\n⚠️  Note: Gitea credentials will not be validated automatically.');
+    console.log('Please ensure you have write access to the repository and issues are enabled.\n');
+
+    providerConfig = {
+      type: 'gitea',
+      clientId: giteaAnswers.clientId.trim(),
+      clientSecret: giteaAnswers.clientSecret.trim(),
+      baseUrl: baseUrl,
+      owner: giteaAnswers.owner.trim(),
+      repo: giteaAnswers.repo.trim()
+    };
+    providerValid = true;
+  } else if (selectedPlatform === 'rest') {
+    console.log('\n🗄️  Comments will be stored by the dev server in .hale/comments.json.');
+    console.log('Everyone using this dev server shares the same threads. .hale/ is added to .gitignore so the');
+    console.log('comment data stays out of your repository; back up .hale/comments.json to keep it.\n');
+    providerConfig = { type: 'rest' };
+    providerValid = true;
   } else if (selectedPlatform === 'skip') {
     console.log('\n⏭️  Skipping issue tracking setup. Comments will work locally only.');
-    console.log('You can add GitHub or GitLab integration later by editing .env and .env.server files.\n');
+    console.log('You can add GitHub, GitLab or Gitea integration later by editing .env and .env.server files.\n');
   }
 
   // Step 3: Jira Setup (Optional)
@@ -0,0 +1,248 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+
+// Minimal comment store for teams without GitHub/GitLab/Gitea/Jira.
+// Mounted into the dev server (webpack.dev.js setupMiddlewares) and backed by a single JSON file,
+// so everyone pointing at the same dev server shares one set of threads.
+// Issues and comments are stored in the GitHub REST shape, which is what the client already understands.
+//
+// The store is unauthenticated: anyone who can reach the dev server can read and write every thread, and the
+// `author` on issues and comments is self-declared by the client. Only expose it on a trusted network.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_BASE_PATH = '/api/hale-comments';
+const DEFAULT_DATA_FILE = path.resolve(process.cwd(), '.hale', 'comments.json');
+
+const emptyStore = () => ({ nextIssueNumber: 1, nextCommentId: 1, issues: [], comments: [], files: {} });
+
+function createJsonFileStore(dataFile) {
+  let cache = null;
+
+  const load = () => {
+    if (cache) return cache;
+    try {
+      cache = { ...emptyStore(), ...JSON.parse(fs.readFileSync(dataFile, 'utf-8')) };
+    } catch (e) {
+      if (e.code !== 'ENOENT') {
+        // eslint-disable-next-line no-console
+        console.warn(`[Commenting System] Could not read ${dataFile}, starting with an empty store:`, e.message);
+      }
+      cache = emptyStore();
+    }
+    return cache;
+  };
+
+  // Write to a temp file and rename, so a crash mid-write never leaves a truncated store behind. Handlers change
+  // the cached copy before saving; when the write fails the cache is dropped, which rolls that change back to
+  // what the file last recorded.
+  const save = () => {
+    try {
+      fs.mkdirSync(path.dirname(dataFile), { recursive: true });
+      const tmpFile = `${dataFile}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(cache, null, 2));
+      fs.renameSync(tmpFile, dataFile);
+    } catch (e) {
+      cache = null;
+      throw e;
+    }
+  };
+
+  return { load, save };
+}
+
+const sha1 = (text) => crypto.createHash('sha1').update(text).digest('hex');
+
+const toUser = (author) => ({
+  login: (author && author.login) || 'anonymous',
+  avatar_url: (author && author.avatar) || '',
+});
+
+const toIssueResponse = (issue, baseUrl) => ({
+  ...issue,
+  labels: issue.labels.map((name) => ({ name })),
+  html_url: `${baseUrl}/issues/${issue.number}`,
+});
+
+/**
+ * Register the comment store routes on an express app.
+ *
+ *   GET    {basePath}/issues?label=route:/x&since=ISO
+ *   POST   {basePath}/issues                       { title, body, labels, author }
+ *   GET    {basePath}/issues/:number
+ *   PATCH  {basePath}/issues/:number               { state }
+ *   GET    {basePath}/issues/:number/comments
+ *   POST   {basePath}/issues/:number/comments      { body, author }
+ *   PATCH  {basePath}/comments/:id                 { body }
+ *   DELETE {basePath}/comments/:id
+ *   GET    {basePath}/files?path=...
+ *   PUT    {basePath}/files                        { path, text, sha? }
+ *
+ * `options.onChange(event)` is called after every issue/comment write (see scripts/comments-events.js).
+ */
+function mountCommentsServer(app, options = {}) {
+  const basePath = options.basePath || DEFAULT_BASE_PATH;
+  const dataFile = options.dataFile || process.env.HALE_COMMENTS_FILE || DEFAULT_DATA_FILE;
+  const store = createJsonFileStore(dataFile);
+  const onChange = options.onChange || (() => {});
+
+  const notify = (issue, kind, action, comment) =>
+    onChange({
+      provider: 'rest',
+      kind,
+      action,
+      issueNumber: issue.number,
+      commentId: comment ? comment.id : undefined,
+      route: (issue.labels.find((l) => l.startsWith('route:')) || '').slice('route:'.length) || undefined,
+      updatedAt: issue.updated_at,
+    });
+
+  const publicUrl = (req) => `${req.protocol}://${req.get('host')}${basePath}`;
+  const findIssue = (db, number) => db.issues.find((i) => i.number === Number(number));
+  const findComment = (db, id) => db.comments.find((c) => c.id === Number(id));
+
+  const handle = (fn) => (req, res) => {
+    try {
+      return fn(req, res, store.load());
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error(err);
+      return res.status(500).json({ message: 'Unhandled comments server error. See dev server logs.' });
+    }
+  };
+
+  app.get(`${basePath}/issues`, handle((req, res, db) => {
+    const label = req.query.label ? String(req.query.label) : '';
+    const since = req.query.since ? Date.parse(String(req.query.since)) : NaN;
+    const issues = db.issues
+      .filter((i) => !label || i.labels.includes(label))
+      .filter((i) => Number.isNaN(since) || Date.parse(i.updated_at) >= since)
+      .map((i) => toIssueResponse(i, publicUrl(req)));
+    return res.json(issues);
+  }));
+
+  app.post(`${basePath}/issues`, handle((req, res, db) => {
+    const { title, body, labels, author } = req.body || {};
+    if (!title) return res.status(400).json({ message: 'Missing title' });
+
+    const now = new Date().toISOString();
+    const issue = {
+      number: db.nextIssueNumber++,
+      title: String(title),
+      body: String(body || ''),
+      state: 'open',
+      labels: Array.isArray(labels) ? labels.map(String) : [],
+      user: toUser(author),
+      created_at: now,
+      updated_at: now,
+    };
+    db.issues.push(issue);
+    store.save();
+    notify(issue, 'issue', 'opened');
+    return res.status(201).json(toIssueResponse(issue, publicUrl(req)));
+  }));
+
+  // Target of html_url ("View issue" links)
+  app.get(`${basePath}/issues/:number`, handle((req, res, db) => {
+    const issue = findIssue(db, req.params.number);
+    if (!issue) return res.status(404).json({ message: 'Not Found' });
+    return res.json({ ...toIssueResponse(issue, publicUrl(req)), comments: db.comments.filter((c) => c.issue_number === issue.number) });
+  }));
+
+  app.patch(`${basePath}/issues/:number`, handle((req, res, db) => {
+    const issue = findIssue(db, req.params.number);
+    if (!issue) return res.status(404).json({ message: 'Not Found' });
+
+    const { state } = req.body || {};
+    if (state !== 'open' && state !== 'closed') return res.status(400).json({ message: 'state must be open or closed' });
+    issue.state = state;
+    issue.updated_at = new Date().toISOString();
+    store.save();
+    notify(issue, 'issue', state === 'closed' ? 'closed' : 'reopened');
+    return res.json(toIssueResponse(issue, publicUrl(req)));
+  }));
+
+  app.get(`${basePath}/issues/:number/comments`, handle((req, res, db) => {
+    if (!findIssue(db, req.params.number)) return res.status(404).json({ message: 'Not Found' });
+    return res.json(db.comments.filter((c) => c.issue_number === Number(req.params.number)));
+  }));
+
+  app.post(`${basePath}/issues/:number/comments`, handle((req, res, db) => {
+    const issue = findIssue(db, req.params.number);
+    if (!issue) return res.status(404).json({ message: 'Not Found' });
+
+    const { body, author } = req.body || {};
+    if (!body) return res.status(400).json({ message: 'Missing body' });
+
+    const now = new Date().toISOString();
+    const comment = {
+      id: db.nextCommentId++,
+      issue_number: issue.number,
+      body: String(body),
+      user: toUser(author),
+      created_at: now,
+      updated_at: now,
+    };
+    db.comments.push(comment);
+    // Keep `since` queries aware of new replies, like GitHub does
+    issue.updated_at = now;
+    store.save();
+    notify(issue, 'comment', 'created', comment);
+    return res.status(201).json(comment);
+  }));
+
+  app.patch(`${basePath}/comments/:id`, handle((req, res, db) => {
+    const comment = findComment(db, req.params.id);
+    if (!comment) return res.status(404).json({ message: 'Not Found' });
+
+    const { body } = req.body || {};
+    if (!body) return res.status(400).json({ message: 'Missing body' });
+    comment.body = String(body);
+    comment.updated_at = new Date().toISOString();
+    const issue = findIssue(db, comment.issue_number);
+    if (issue) issue.updated_at = comment.updated_at;
+    store.save();
+    if (issue) notify(issue, 'comment', 'edited', comment);
+    return res.json(comment);
+  }));
+
+  app.delete(`${basePath}/comments/:id`, handle((req, res, db) => {
+    const comment = findComment(db, req.params.id);
+    if (!comment) return res.status(404).json({ message: 'Not Found' });
+
+    db.comments = db.comments.filter((c) => c !== comment);
+    const issue = findIssue(db, comment.issue_number);
+    if (issue) issue.updated_at = new Date().toISOString();
+    store.save();
+    if (issue) notify(issue, 'comment', 'deleted', comment);
+    return res.status(204).end();
+  }));
+
+  app.get(`${basePath}/files`, handle((req, res, db) => {
+    const filePath = String(req.query.path || '');
+    if (!filePath) return res.status(400).json({ message: 'Missing ?path' });
+    const text = db.files[filePath];
+    if (typeof text !== 'string') return res.status(404).json({ message: 'Not Found' });
+    return res.json({ path: filePath, text, sha: sha1(text) });
+  }));
+
+  app.put(`${basePath}/files`, handle((req, res, db) => {
+    const { path: filePath, text, sha } = req.body || {};
+    if (!filePath || typeof text !== 'string') return res.status(400).json({ message: 'Missing path or text' });
+
+    // Same optimistic concurrency as the GitHub contents API: updates must name the sha they started from
+    const current = db.files[filePath];
+    if (typeof current === 'string' && sha !== sha1(current)) {
+      return res.status(409).json({ message: `${filePath} does not match ${sha || 'an empty sha'}` });
+    }
+    db.files[filePath] = text;
+    store.save();
+    return res.json({ path: filePath, sha: sha1(text) });
+  }));
+
+  // eslint-disable-next-line no-console
+  console.log(`[Commenting System] Local comment store at ${basePath} (data: ${dataFile})`);
+}
+
+module.exports = { mountCommentsServer, createJsonFileStore, DEFAULT_BASE_PATH };
@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+/* eslint-disable @typescript-eslint/no-var-requires, no-console */
+
+// Sends a fake GitHub/GitLab webhook to the dev server's comment events endpoint, so live updates can be
+// tested without exposing the machine to the provider.
+//
+//   node scripts/simulate-webhook.js github comment --issue 12 --route /dashboard
+//   node scripts/simulate-webhook.js gitlab issue --issue 4 --action close --url http://localhost:9000/api/comments-events
+//
+// GITHUB_WEBHOOK_SECRET / GITLAB_WEBHOOK_SECRET (from the shell or .env.server) are used to sign the request.
+
+const path = require('path');
+const { DEFAULT_BASE_PATH, githubSignature } = require('./comments-events');
+
+try {
+  // eslint-disable-next-line global-require
+  require('dotenv').config({ path: path.resolve(process.cwd(), '.env.server') });
+} catch (e) {
+  // dotenv is optional here
+}
+
+const parseArgs = (argv) => {
+  const [provider, kind, ...rest] = argv;
+  const flags = {};
+  for (let i = 0; i < rest.length; i += 2) {
+    if (rest[i] && rest[i].startsWith('--')) flags[rest[i].slice(2)] = rest[i + 1];
+  }
+  return { provider, kind, flags };
+};
+
+const buildGitHub = (kind, { issue, route, action, comment, body }) => {
+  const now = new Date().toISOString();
+  const issuePayload = {
+    number: Number(issue),
+    title: `Feedback: ${route || '/'}`,
+    state: action === 'closed' ? 'closed' : 'open',
+    labels: route ? [{ name: `route:${route}` }] : [],
+    updated_at: now,
+  };
+  if (kind === 'issue') {
+    return { event: 'issues', payload: { action: action || 'edited', issue: issuePayload } };
+  }
+  return {
+    event: 'issue_comment',
+    payload: {
+      action: action || 'created',
+      issue: issuePayload,
+      comment: { id: Number(comment || Date.now()), body: body || 'Simulated comment', updated_at: now },
+    },
+  };
+};
+
+const buildGitLab = (kind, { issue, route, action, comment, body }) => {
+  const now = new Date().toISOString();
+  const labels = route ? [{ title: `route:${route}` }] : [];
+  if (kind === 'issue') {
+    return {
+      payload: {
+        object_kind: 'issue',
+        labels,
+        object_attributes: { iid: Number(issue), action: action || 'update', updated_at: now },
+      },
+    };
+  }
+  return {
+    payload: {
+      object_kind: 'note',
+      issue: { iid: Number(issue), labels },
+      object_attributes: {
+        id: Number(comment || Date.now()),
+        noteable_type: 'Issue',
+        note: body || 'Simulated comment',
+        action: action || 'create',
+        updated_at: now,
+      },
+    },
+  };
+};
+
+async function main() {
+  const { provider, kind, flags } = parseArgs(process.argv.slice(2));
+  if (!['github', 'gitlab'].includes(provider) || !['issue', 'comment'].includes(kind) || !flags.issue) {
+    console.log('Usage: node scripts/simulate-webhook.js <github|gitlab> <issue|comment> --issue <number>');
+    console.log('         [--route /path] [--action <webhook action>] [--comment <id>] [--body <text>] [--url <events url>]');
+    process.exit(1);
+  }
+
+  const baseUrl = (flags.url || `http://localhost:${process.env.PORT || '9000'}${DEFAULT_BASE_PATH}`).replace(/\/+$/, '');
+  const headers = { 'Content-Type': 'application/json' };
+  let payload;
+
+  if (provider === 'github') {
+    const built = buildGitHub(kind, flags);
+    payload = built.payload;
+    headers['X-GitHub-Event'] = built.event;
+  } else {
+    payload = buildGitLab(kind, flags).payload;
+    headers['X-Gitlab-Event'] = kind === 'issue' ? 'Issue Hook' : 'Note Hook';
+  }
+
+  const body = JSON.stringify(payload);
+  if (provider === 'github' && process.env.GITHUB_WEBHOOK_SECRET) {
+    headers['X-Hub-Signature-256'] = githubSignature(process.env.GITHUB_WEBHOOK_SECRET, body);
+  }
+  if (provider === 'gitlab' && process.env.GITLAB_WEBHOOK_SECRET) {
+    headers['X-Gitlab-Token'] = process.env.GITLAB_WEBHOOK_SECRET;
+  }
+
+  const resp = await fetch(`${baseUrl}/webhooks/${provider}`, { method: 'POST', headers, body });
+  console.log(`${resp.ok ? '✅' : '❌'} ${provider} ${kind} webhook for #${flags.issue}: ${resp.status}`);
+  if (!resp.ok) {
+    console.log(await resp.text());
+    process.exit(1);
+  }
+}
+
+main().catch((e) => {
+  console.error('❌ Could not send webhook:', e.message);
+  process.exit(1);
+});
@@ -23,7 +23,7 @@ import {
 } from '@patternfly/react-core';
 import { IAppRoute, IAppRouteGroup, routes } from '@app/routes';
 import { BarsIcon, ExternalLinkAltIcon, GithubIcon, GitlabIcon } from '@patternfly/react-icons';
-import { CommentOverlay, CommentPanel, useComments, useProviderAuth } from '@app/commenting-system';
+import { CommentOverlay, CommentPanel, CommentToolSelect, useComments, useProviderAuth } from '@app/commenting-system';
 
 interface IAppLayout {
   children: React.ReactNode;
@@ -31,7 +31,7 @@ interface IAppLayout {
 
 const AppLayout: React.FunctionComponent<IAppLayout> = ({ children }) => {
   const [sidebarOpen, setSidebarOpen] = React.useState(true);
-  const { commentsEnabled, setCommentsEnabled, showPinsEnabled, setShowPinsEnabled, drawerPinnedOpen, setDrawerPinnedOpen, floatingWidgetMode, setFloatingWidgetMode } = useComments();
+  const { commentsEnabled, setCommentsEnabled, showPinsEnabled, setShowPinsEnabled, breakpoint, breakpointFilterEnabled, setBreakpointFilterEnabled, drawerPinnedOpen, setDrawerPinnedOpen, floatingWidgetMode, setFloatingWidgetMode } = useComments();
   const { isAuthenticated, user, login, logout, providerType, providerDisplayName, availableProviders } = useProviderAuth();
   const ProviderIcon = providerType === 'gitlab' ? GitlabIcon : GithubIcon;
   const [isSignInOpen, setIsSignInOpen] = React.useState(false);
@@ -153,6 +153,17 @@ const AppLayout: React.FunctionComponent<IAppLayout> = ({ children }) => {
               />
             </div>
           </NavItem>
+          {commentsEnabled && (
+            <NavItem>
+              <div
+                data-comment-controls
+                style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', paddingRight: '1rem' }}
+              >
+                <span>Tool</span>
+                <CommentToolSelect />
+              </div>
+            </NavItem>
+          )}
           <NavItem>
             <div
               data-comment-controls
@@ -167,6 +178,22 @@ const AppLayout: React.FunctionComponent<IAppLayout> = ({ children }) => {
               />
             </div>
           </NavItem>
+          {(commentsEnabled || showPinsEnabled) && (
+            <NavItem>
+              <div
+                data-comment-controls
+                style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', paddingRight: '1rem' }}
+              >
+                <span>Only {breakpoint} breakpoint</span>
+                <Switch
+                  id="breakpoint-filter-switch"
+                  isChecked={breakpointFilterEnabled}
+                  onChange={(_event, checked) => setBreakpointFilterEnabled(checked)}
+                  aria-label="Only show pins created at the current breakpoint"
+                />
+              </div>
+            </NavItem>
+          )}
           <NavItem>
             <div
               data-comment-controls
@@ -3,27 +3,60 @@ import { useLocation } from 'react-router-dom';
 import { useComments } from '../contexts/CommentContext';
 import { CommentPin } from './CommentPin';
 import { getVersionFromPathOrQuery } from '../utils/version';
-import { generateSelectorForElement, getElementDescription, getElementComponentMetadata, findElementBySelector } from '../utils/selectorUtils';
+import { generateSelectorForElement, getElementDescription, getElementComponentMetadata } from '../utils/selectorUtils';
+import { createElementFingerprint, resolveElementAnchor } from '../utils/fingerprint';
+import {
+  ANNOTATION_STROKE_WIDTH,
+  DEFAULT_ANNOTATION_COLOR,
+  getShapeBounds,
+  getShapePath,
+  mapShapePoints,
+  simplifyStroke,
+} from '../utils/annotations';
+import { PixelRect, findRegionContainer, toRegionAnchor } from '../utils/region';
+import { ScreenshotOptions, captureElementScreenshot, isScreenshotCaptureEnabled } from '../utils/screenshot';
+import { createTextAnchor } from '../utils/textAnchor';
 import { getFiberFromElement, getComponentName } from '../utils/componentUtils';
+import { AnnotationShape, Thread } from '../types';
+
+// Smaller drags are treated as accidental (or as a plain click)
+const MIN_REGION_SIZE = 8;
+const SVG_NS = 'http://www.w3.org/2000/svg';
 
 export const CommentOverlay: React.FunctionComponent = () => {
   const location = useLocation();
-  const { commentsEnabled, showPinsEnabled, addThread, selectedThreadId, setSelectedThreadId, syncFromGitHub, getThreadsForRoute } = useComments();
+  const { commentsEnabled, showPinsEnabled, commentTool, breakpoint, breakpointFilterEnabled, addThread, updateAnnotations, attachScreenshot, selectedThreadId, setSelectedThreadId, syncFromGitHub, getThreadsForRoute, loadThreadsForRoute } = useComments();
   const detectedVersion = getVersionFromPathOrQuery(location.pathname, location.search);
   const overlayRef = React.useRef<HTMLDivElement>(null);
 
+  // Threads saved on this device for the route; pins show up once the store has been read
+  React.useEffect(() => {
+    void loadThreadsForRoute(location.pathname);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [location.pathname]);
+
   // Show both open and closed threads as pins (GitHub-style: closed issues still exist)
   const currentThreads = getThreadsForRoute(location.pathname, detectedVersion);
   const selectedThread = currentThreads.find((t) => t.id === selectedThreadId);
+  // Feedback about another layout is usually misplaced here; threads from before viewports were recorded always show
+  const visibleThreads = breakpointFilterEnabled
+    ? currentThreads.filter((t) => !t.viewport || t.viewport.breakpoint === breakpoint || t.id === selectedThreadId)
+    : currentThreads;
   const highlightRef = React.useRef<HTMLDivElement | null>(null);
   const previewRef = React.useRef<HTMLDivElement | null>(null);
   const previewLabelRef = React.useRef<HTMLDivElement | null>(null);
   const hoveredElementRef = React.useRef<Element | null>(null);
+  // Set when a text selection just became a thread, so the click ending the selection doesn't also drop a pin
+  const ignoreNextClickRef = React.useRef(false);
+  // Read by the document listeners, which are only re-registered when the route changes
+  const commentToolRef = React.useRef(commentTool);
+  commentToolRef.current = commentTool;
 
   // Component highlighting effect (similar to Chrome DevTools)
   React.useEffect(() => {
     // Hide highlight when comments are disabled
-    if (!commentsEnabled || !selectedThread || !selectedThread.cssSelector) {
+    // Text and region threads are highlighted by their pin (CommentPin marks the quoted text / outlines the region)
+    if (!commentsEnabled || !selectedThread || !selectedThread.cssSelector || selectedThread.textAnchor || selectedThread.region) {
       // Remove highlight
       if (highlightRef.current) {
         highlightRef.current.remove();
@@ -32,7 +65,7 @@ export const CommentOverlay: React.FunctionComponent = () => {
       return;
     }
 
-    const element = findElementBySelector(selectedThread.cssSelector);
+    const { element } = resolveElementAnchor(selectedThread);
     if (!element) {
       // Element not found, remove highlight
       if (highlightRef.current) {
@@ -244,9 +277,9 @@ export const CommentOverlay: React.FunctionComponent = () => {
     hoveredElementRef.current = null;
   }, []);
 
-  // Set up hover preview listeners
+  // Set up hover preview listeners (the region tool draws its own preview)
   React.useEffect(() => {
-    if (commentsEnabled) {
+    if (commentsEnabled && commentTool === 'pin') {
       document.addEventListener('mousemove', handleMouseMove);
       document.addEventListener('mouseleave', handleMouseLeave, true);
       
@@ -266,10 +299,86 @@ export const CommentOverlay: React.FunctionComponent = () => {
       }
       return undefined;
     }
-  }, [commentsEnabled, handleMouseMove, handleMouseLeave]);
+  }, [commentsEnabled, commentTool, handleMouseMove, handleMouseLeave]);
+
+  const isCommentUi = (target: Element) =>
+    Boolean(
+      target.closest('[data-comment-controls]') ||
+        target.closest('[data-comment-pin]') ||
+        target.closest('[data-comment-overlay]') ||
+        target.closest('[data-floating-widget]') ||
+        target.closest('[data-comment-preview]'),
+    );
+
+  // The click that follows a mouseup (if any) is dispatched before timers run
+  const ignoreNextClick = () => {
+    ignoreNextClickRef.current = true;
+    window.setTimeout(() => {
+      ignoreNextClickRef.current = false;
+    }, 0);
+  };
+
+  // Snapshot of the page around a new thread for its issue. Runs before the thread is selected: opening the
+  // comment drawer changes the layout the capture reads from.
+  const captureScreenshot = (threadId: string, element: Element, options: ScreenshotOptions) => {
+    if (!isScreenshotCaptureEnabled()) return;
+    captureElementScreenshot(element, options).then((dataUrl) => {
+      if (dataUrl) attachScreenshot(threadId, dataUrl);
+    });
+  };
+
+  // Selecting text in comment mode starts a thread on that exact text instead of on an element
+  const handleSelectionEnd = (e: MouseEvent) => {
+    if (!commentsEnabled || commentToolRef.current !== 'pin' || !overlayRef.current) return;
+
+    const target = e.target as Element;
+    if (isCommentUi(target) || target.closest('input, textarea, [contenteditable="true"]')) return;
+
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || !selection.rangeCount) return;
+    const range = selection.getRangeAt(0);
+    if (!range.toString().trim()) return;
+
+    const ancestor = range.commonAncestorContainer;
+    const container = ancestor.nodeType === Node.ELEMENT_NODE ? (ancestor as Element) : ancestor.parentElement;
+    if (!container || isCommentUi(container)) return;
+
+    const textAnchor = createTextAnchor(range, container);
+    if (!textAnchor) return;
+
+    ignoreNextClick();
+
+    const rect = overlayRef.current.getBoundingClientRect();
+    const textRect = range.getBoundingClientRect();
+    const xPercent = ((textRect.left - rect.left) / rect.width) * 100;
+    const yPercent = ((textRect.top - rect.top) / rect.height) * 100;
+
+    const threadId = addThread(
+      generateSelectorForElement(container),
+      getElementDescription(container),
+      getElementComponentMetadata(container),
+      xPercent,
+      yPercent,
+      location.pathname,
+      detectedVersion,
+      createElementFingerprint(container),
+      { textAnchor },
+    );
+    const lineRects = range.getClientRects();
+    const lastLine = lineRects[lineRects.length - 1] || textRect;
+    captureScreenshot(threadId, container, { highlight: textRect, marker: { x: lastLine.right, y: lastLine.top } });
+    selection.removeAllRanges();
+    setSelectedThreadId(threadId);
+  };
 
   const handlePageClick = (e: MouseEvent) => {
     if (!commentsEnabled) return;
+    if (ignoreNextClickRef.current) {
+      ignoreNextClickRef.current = false;
+      return;
+    }
+    // The region tool only reacts to drags
+    if (commentToolRef.current !== 'pin') return;
 
     // Check if clicking on comment system UI elements (but allow buttons/links to be selected)
     const target = e.target as HTMLElement;
@@ -305,16 +414,164 @@ export const CommentOverlay: React.FunctionComponent = () => {
     
     // Extract React component metadata (component-based commenting)
     const componentMetadata = getElementComponentMetadata(clickedElement);
+    // Extra signals to find the element again when the selector stops matching
+    const fingerprint = createElementFingerprint(clickedElement);
 
-    const threadId = addThread(cssSelector, elementDescription, componentMetadata, xPercent, yPercent, location.pathname, detectedVersion);
+    const threadId = addThread(cssSelector, elementDescription, componentMetadata, xPercent, yPercent, location.pathname, detectedVersion, fingerprint);
+    captureScreenshot(threadId, clickedElement, { marker: { x: e.clientX, y: e.clientY } });
     setSelectedThreadId(threadId);
   };
 
+  // Create a thread anchored to the smallest element containing `rect` (viewport pixels)
+  const createDrawnThread = (rect: PixelRect, anchor: (container: Element) => Pick<Thread, 'region' | 'annotations'>) => {
+    if (!overlayRef.current) return;
+    const container = findRegionContainer(rect);
+    const overlayRect = overlayRef.current.getBoundingClientRect();
+    const xPercent = ((rect.left - overlayRect.left) / overlayRect.width) * 100;
+    const yPercent = ((rect.top - overlayRect.top) / overlayRect.height) * 100;
+
+    const threadId = addThread(
+      generateSelectorForElement(container),
+      getElementDescription(container),
+      getElementComponentMetadata(container),
+      xPercent,
+      yPercent,
+      location.pathname,
+      detectedVersion,
+      createElementFingerprint(container),
+      anchor(container),
+    );
+    captureScreenshot(threadId, container, { highlight: rect, marker: { x: rect.left, y: rect.top } });
+    setSelectedThreadId(threadId);
+  };
+
+  // Markup goes onto the selected thread while its issue doesn't exist yet (it becomes part of the issue body),
+  // otherwise it starts a new thread
+  const addMarkup = (shape: AnnotationShape) => {
+    const toElementPercent = (element: Element) => {
+      const box = element.getBoundingClientRect();
+      return mapShapePoints(shape, ([x, y]) => [
+        Math.round(((x - box.left) / box.width) * 1000) / 10,
+        Math.round(((y - box.top) / box.height) * 1000) / 10,
+      ]);
+    };
+
+    const target = selectedThread && !selectedThread.issueNumber ? selectedThread : undefined;
+    const targetElement = target ? resolveElementAnchor(target).element : null;
+    const targetBox = targetElement?.getBoundingClientRect();
+    if (target && targetElement && targetBox?.width && targetBox.height) {
+      updateAnnotations(target.id, [...(target.annotations || []), toElementPercent(targetElement)]);
+      return;
+    }
+    createDrawnThread(getShapeBounds([shape]), (container) => ({ annotations: [toElementPercent(container)] }));
+  };
+  const addMarkupRef = React.useRef(addMarkup);
+  addMarkupRef.current = addMarkup;
+
+  // Drag tools: draw a region to comment on spacing or a group of elements rather than one node, or draw markup
+  React.useEffect(() => {
+    if (!commentsEnabled || commentTool === 'pin') return undefined;
+
+    // Shapes are tracked in viewport pixels while drawing
+    let shape: AnnotationShape | null = null;
+    let draft: SVGSVGElement | null = null;
+    const previousCursor = document.body.style.cursor;
+    document.body.style.cursor = 'crosshair';
+
+    const updateDraft = () => {
+      if (!shape || !draft) return;
+      // Pixel coordinates in a 100x100 "box" map 1:1 to pixels
+      draft.firstElementChild?.setAttribute('d', getShapePath(shape, { width: 100, height: 100 }));
+    };
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0 || isCommentUi(e.target as Element)) return;
+      e.preventDefault(); // don't select text while drawing
+      const point: [number, number] = [e.clientX, e.clientY];
+      shape =
+        commentTool === 'arrow'
+          ? { kind: 'arrow', from: point, to: point }
+          : commentTool === 'freehand'
+            ? { kind: 'freehand', points: [point] }
+            : { kind: 'box', x: point[0], y: point[1], width: 0, height: 0 };
+
+      draft = document.createElementNS(SVG_NS, 'svg');
+      draft.setAttribute('data-comment-preview', 'true');
+      draft.style.cssText = `
+        position: fixed;
+        left: 0;
+        top: 0;
+        width: 100vw;
+        height: 100vh;
+        pointer-events: none;
+        z-index: 998;
+      `;
+      const path = document.createElementNS(SVG_NS, 'path');
+      const isRegion = commentTool === 'region';
+      path.setAttribute('fill', isRegion ? 'rgba(0, 102, 204, 0.08)' : 'none');
+      path.setAttribute('stroke', isRegion ? '#0066CC' : DEFAULT_ANNOTATION_COLOR);
+      path.setAttribute('stroke-width', String(isRegion ? 2 : ANNOTATION_STROKE_WIDTH));
+      path.setAttribute('stroke-linecap', 'round');
+      path.setAttribute('stroke-linejoin', 'round');
+      if (isRegion) path.setAttribute('stroke-dasharray', '6 4');
+      draft.appendChild(path);
+      document.body.appendChild(draft);
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!shape) return;
+      const point: [number, number] = [e.clientX, e.clientY];
+      if (shape.kind === 'arrow') shape = { ...shape, to: point };
+      else if (shape.kind === 'freehand') shape = { ...shape, points: [...shape.points, point] };
+      else shape = { ...shape, width: point[0] - shape.x, height: point[1] - shape.y };
+      updateDraft();
+    };
+
+    const handleMouseUp = () => {
+      if (!shape) return;
+      // Normalize boxes dragged up/left
+      const finished = mapShapePoints(shape, (p) => p);
+      shape = null;
+      draft?.remove();
+      draft = null;
+
+      const bounds = getShapeBounds([finished]);
+      const isTooSmall =
+        finished.kind === 'arrow'
+          ? Math.max(bounds.width, bounds.height) < MIN_REGION_SIZE
+          : finished.kind === 'freehand'
+            ? finished.points.length < 2 || Math.max(bounds.width, bounds.height) < MIN_REGION_SIZE
+            : bounds.width < MIN_REGION_SIZE || bounds.height < MIN_REGION_SIZE;
+      if (isTooSmall) return;
+
+      ignoreNextClick();
+      if (commentTool === 'region') {
+        createDrawnThread(bounds, (container) => ({ region: toRegionAnchor(bounds, container) }));
+      } else {
+        addMarkupRef.current(finished.kind === 'freehand' ? { ...finished, points: simplifyStroke(finished.points) } : finished);
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown, true);
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown, true);
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      draft?.remove();
+      document.body.style.cursor = previousCursor;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [commentsEnabled, commentTool, location.pathname, detectedVersion]);
+
   React.useEffect(() => {
     console.log('🔄 CommentOverlay useEffect triggered', { commentsEnabled, pathname: location.pathname, detectedVersion });
 
     if (commentsEnabled) {
       document.addEventListener('click', handlePageClick);
+      document.addEventListener('mouseup', handleSelectionEnd);
       // Pull latest changes from GitHub when entering comment mode or switching routes
       console.log('🔄 CommentOverlay calling syncFromGitHub...');
       syncFromGitHub(location.pathname, detectedVersion).catch(() => undefined);
@@ -322,6 +579,7 @@ export const CommentOverlay: React.FunctionComponent = () => {
 
     return () => {
       document.removeEventListener('click', handlePageClick);
+      document.removeEventListener('mouseup', handleSelectionEnd);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [commentsEnabled, location.pathname, detectedVersion]);
@@ -348,10 +606,14 @@ export const CommentOverlay: React.FunctionComponent = () => {
         overflow: 'visible', // Ensure pins can be visible even if slightly outside
       }}
     >
-      {currentThreads.map((thread) => (
+      {visibleThreads.map((thread) => (
         <CommentPin
           key={thread.id}
           cssSelector={thread.cssSelector}
+          fingerprint={thread.fingerprint}
+          textAnchor={thread.textAnchor}
+          region={thread.region}
+          annotations={thread.annotations}
           xPercent={thread.xPercent}
           yPercent={thread.yPercent}
           commentCount={thread.comments.length}
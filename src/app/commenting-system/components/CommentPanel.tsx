@@ -1,5 +1,8 @@
 import * as React from 'react';
-import { findElementBySelector } from '../utils/selectorUtils';
+import { resolveElementAnchor } from '../utils/fingerprint';
+import { resolveThreadTextRange } from '../utils/textAnchor';
+import { openAtViewport } from '../utils/viewport';
+import { MAX_ATTACHMENT_BYTES, hasPendingUploads, parseDataUrl, readFileAsDataUrl } from '../utils/attachments';
 import { useLocation } from 'react-router-dom';
 import {
   ActionList,
@@ -14,16 +17,23 @@ import {
   Tab,
   TabTitleText,
   Tabs,
-  TextArea,
   Title,
 } from '@patternfly/react-core';
-import { ExternalLinkAltIcon, GithubIcon, GitlabIcon, InfoCircleIcon, TrashIcon } from '@patternfly/react-icons';
+import { ExternalLinkAltIcon, GitAltIcon, GithubIcon, GitlabIcon, InfoCircleIcon, JiraIcon, ServerIcon, TrashIcon } from '@patternfly/react-icons';
 import { useComments } from '../contexts/CommentContext';
 import { useProviderAuth } from '../contexts/ProviderAuthContext';
 import { DetailsTab } from './DetailsTab';
 import { JiraTab } from './JiraTab';
 import { FloatingWidget } from './FloatingWidget';
+import { ConflictResolutionModal } from './ConflictResolutionModal';
+import { CommentReactions } from './CommentReactions';
+import { Markdown } from './Markdown';
+import { MarkdownTextArea } from './MarkdownTextArea';
 import { getVersionFromPathOrQuery } from '../utils/version';
+import { formatRateLimitReset } from '../services/rateLimiter';
+import { getProviderAdapter } from '../services/providerFactory';
+import { ProviderUser } from '../types/provider';
+import { ConflictResolution } from '../types';
 
 interface CommentPanelProps {
   children: React.ReactNode;
@@ -41,9 +51,25 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
     reopenThread,
     removePin,
     retrySync,
+    isSyncing,
+    syncProgress,
+    rateLimitedUntil,
+    storageWarning,
+    resolveConflict,
+    updateAnnotations,
+    breakpoint,
   } = useComments();
-  const { providerType } = useProviderAuth();
-  const ProviderIcon = providerType === 'gitlab' ? GitlabIcon : GithubIcon;
+  const { providerType, isAuthenticated } = useProviderAuth();
+  const ProviderIcon =
+    providerType === 'gitlab'
+      ? GitlabIcon
+      : providerType === 'gitea'
+        ? GitAltIcon
+        : providerType === 'jira'
+          ? JiraIcon
+          : providerType === 'rest'
+            ? ServerIcon
+            : GithubIcon;
   const location = useLocation();
   const detectedVersion = getVersionFromPathOrQuery(location.pathname, location.search);
   const [newCommentText, setNewCommentText] = React.useState('');
@@ -52,9 +78,17 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
   const [editingCommentId, setEditingCommentId] = React.useState<string | null>(null);
   const [editText, setEditText] = React.useState('');
   const [activeTabKey, setActiveTabKey] = React.useState<string | number>('comments');
+  const [resolvingCommentId, setResolvingCommentId] = React.useState<string | null>(null);
+  const [mentionableUsers, setMentionableUsers] = React.useState<ProviderUser[]>([]);
 
   const currentThreads = getThreadsForRoute(location.pathname, detectedVersion);
   const selectedThread = currentThreads.find((t) => t.id === selectedThreadId);
+  const anchorMatch =
+    selectedThread && (selectedThread.cssSelector || selectedThread.fingerprint) ? resolveElementAnchor(selectedThread) : null;
+  // For comments on selected text, the anchor that matters is the quoted text itself
+  const textAnchor = selectedThread?.textAnchor;
+  const textMatch = selectedThread && textAnchor ? resolveThreadTextRange({ ...selectedThread, textAnchor }) : null;
+  const threadAnchorMatch = textMatch ?? anchorMatch;
 
   React.useEffect(() => {
     if (selectedThreadId) {
@@ -64,8 +98,49 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
     }
   }, [selectedThreadId]);
 
+  // @mention suggestions: loaded the first time a thread is opened (the adapter keeps them for the session)
+  const hasSelectedThread = Boolean(selectedThreadId);
+  React.useEffect(() => {
+    const adapter = getProviderAdapter();
+    if (!isAuthenticated || !hasSelectedThread || !adapter.fetchMentionableUsers) {
+      setMentionableUsers([]);
+      return;
+    }
+    let cancelled = false;
+    adapter
+      .fetchMentionableUsers()
+      .then((result) => {
+        // Not every provider supports mentions; the composer then works without suggestions
+        if (!cancelled) setMentionableUsers(result.success && result.data ? result.data : []);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [providerType, isAuthenticated, hasSelectedThread]);
+
+  // Files dropped/pasted into a comment box go to the provider and are linked from the comment
+  const handleUploadAttachment = async (file: File): Promise<string> => {
+    const adapter = getProviderAdapter();
+    if (!adapter.uploadAttachment) throw new Error('attachments are not supported by this provider');
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`larger than ${Math.floor(MAX_ATTACHMENT_BYTES / (1024 * 1024))} MB`);
+    }
+    const parsed = parseDataUrl(await readFileAsDataUrl(file));
+    if (!parsed) throw new Error('could not read the file');
+    const result = await adapter.uploadAttachment({
+      filename: file.name,
+      contentBase64: parsed.contentBase64,
+      contentType: file.type || parsed.contentType,
+      message: `Add comment attachment ${file.name}`,
+    });
+    if (!result.success || !result.data) throw new Error(result.error || 'upload failed');
+    return result.data.url;
+  };
+  // Comment boxes only offer attachments when the provider can upload them
+  const uploadAttachment = isAuthenticated && getProviderAdapter().uploadAttachment ? handleUploadAttachment : undefined;
+
   const handleAddComment = () => {
-    if (newCommentText.trim() && selectedThread) {
+    if (newCommentText.trim() && !hasPendingUploads(newCommentText) && selectedThread) {
       addReply(selectedThread.id, newCommentText.trim());
       setNewCommentText('');
     }
@@ -83,7 +158,7 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
   const handleSubmitReply = (parentCommentId: string) => {
     if (!selectedThread) return;
     const text = (replyTextByCommentId[parentCommentId] || '').trim();
-    if (!text) return;
+    if (!text || hasPendingUploads(text)) return;
     addReply(selectedThread.id, text, parentCommentId);
     setReplyTextByCommentId((prev) => ({ ...prev, [parentCommentId]: '' }));
     setReplyingToCommentId(null);
@@ -95,7 +170,7 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
   };
 
   const handleSaveEdit = (commentId: string) => {
-    if (editText.trim() && selectedThread) {
+    if (editText.trim() && !hasPendingUploads(editText) && selectedThread) {
       updateComment(selectedThread.id, commentId, editText.trim());
       setEditingCommentId(null);
       setEditText('');
@@ -107,6 +182,13 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
     setEditText('');
   };
 
+  const handleResolveConflict = (resolution: ConflictResolution) => {
+    if (selectedThread && resolvingCommentId) {
+      resolveConflict(selectedThread.id, resolvingCommentId, resolution);
+    }
+    setResolvingCommentId(null);
+  };
+
   const handleDeleteComment = (commentId: string) => {
     if (selectedThread) {
       deleteComment(selectedThread.id, commentId);
@@ -141,6 +223,7 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
     setNewCommentText('');
     setReplyingToCommentId(null);
     setReplyTextByCommentId({});
+    setResolvingCommentId(null);
   };
 
   const formatCommentDate = (isoDate: string): string => {
@@ -188,12 +271,50 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
           </Label>
         );
       case 'error':
-        return <Label color="red">Sync error</Label>;
+        return rateLimitedUntil ? (
+          <Label color="orange">Rate limited until {formatRateLimitReset(rateLimitedUntil)}</Label>
+        ) : (
+          <>
+            <Label color="red" title={selectedThread?.syncError}>
+              Sync error
+            </Label>
+            <Button variant="link" isInline onClick={() => void retrySync()}>
+              Retry
+            </Button>
+          </>
+        );
       default:
         return null;
     }
   };
 
+  const renderSyncBanner = () => {
+    if (storageWarning) {
+      return (
+        <div style={{ marginBottom: '0.75rem', fontSize: '0.875rem', color: 'var(--pf-t--global--color--status--warning--default)' }}>
+          ⚠️ {storageWarning}
+        </div>
+      );
+    }
+    if (rateLimitedUntil) {
+      return (
+        <div style={{ marginBottom: '0.75rem', fontSize: '0.875rem', color: 'var(--pf-t--global--color--status--warning--default)' }}>
+          ⏳ Rate limited until {formatRateLimitReset(rateLimitedUntil)}. Changes are kept locally and will sync automatically.
+        </div>
+      );
+    }
+    if (!isSyncing || !syncProgress || syncProgress.route !== location.pathname) return null;
+    const text =
+      syncProgress.phase === 'issues'
+        ? `Syncing… loaded ${syncProgress.issuesLoaded} issue${syncProgress.issuesLoaded === 1 ? '' : 's'}`
+        : `Syncing… comments for ${syncProgress.commentsLoadedFor} of ${syncProgress.issuesLoaded} issues`;
+    return (
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.75rem', fontSize: '0.875rem', color: 'var(--pf-t--global--text--color--subtle)' }}>
+        <Spinner size="sm" /> <span>{text}</span>
+      </div>
+    );
+  };
+
   const panelContent = (
     <>
         <Tabs
@@ -213,6 +334,7 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
           </Tab>
           <Tab eventKey="comments" title={<TabTitleText>Comments</TabTitleText>}>
             <div style={{ padding: '1rem' }}>
+              {renderSyncBanner()}
               {!selectedThread ? (
                 <EmptyState icon={InfoCircleIcon} titleText="No pin selected" headingLevel="h3">
                   <EmptyStateBody>Select or create a comment pin to start a thread.</EmptyStateBody>
@@ -265,7 +387,7 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
                                 </pre>
                               </details>
                             )}
-                            {selectedThread.cssSelector && !findElementBySelector(selectedThread.cssSelector) && (
+                            {anchorMatch?.confidence === 'lost' && (
                               <div style={{ fontSize: '0.875rem', color: 'var(--pf-t--global--color--status--danger--default)' }}>
                                 ⚠️ Component element not found in DOM
                               </div>
@@ -274,15 +396,79 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
                         ) : (
                           <div style={{ fontSize: '0.875rem' }}>
                             <strong>Element:</strong> {selectedThread.elementDescription || 'unknown'}
-                            {selectedThread.cssSelector && !findElementBySelector(selectedThread.cssSelector) && (
+                            {anchorMatch?.confidence === 'lost' && (
                               <span style={{ color: 'var(--pf-t--global--color--status--danger--default)' }}> [deleted]</span>
                             )}
                           </div>
                         )}
 
+                        {textAnchor && (
+                          <div style={{ fontSize: '0.875rem' }}>
+                            <strong>Text:</strong>
+                            <blockquote
+                              style={{
+                                margin: '0.25rem 0 0',
+                                paddingLeft: '0.5rem',
+                                borderLeft: '3px solid #F0AB00',
+                                color: 'var(--pf-t--global--text--color--subtle)',
+                                whiteSpace: 'pre-wrap',
+                                maxHeight: '6rem',
+                                overflow: 'auto',
+                              }}
+                            >
+                              {textAnchor.quote.exact}
+                            </blockquote>
+                          </div>
+                        )}
+                        {selectedThread.region && (
+                          <div style={{ fontSize: '0.875rem' }}>
+                            <strong>Region:</strong> {selectedThread.region.widthPercent.toFixed(0)}% ×{' '}
+                            {selectedThread.region.heightPercent.toFixed(0)}% of the element above
+                          </div>
+                        )}
+                        {selectedThread.annotations?.length ? (
+                          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem' }}>
+                            <strong>Markup:</strong> {selectedThread.annotations.length} shape
+                            {selectedThread.annotations.length !== 1 ? 's' : ''}
+                            {!selectedThread.issueNumber && (
+                              <Button variant="link" isInline onClick={() => updateAnnotations(selectedThread.id, [])}>
+                                Clear
+                              </Button>
+                            )}
+                          </div>
+                        ) : null}
+                        {selectedThread.viewport && (
+                          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem' }}>
+                            <strong>Viewport:</strong> {selectedThread.viewport.width} × {selectedThread.viewport.height} (
+                            {selectedThread.viewport.breakpoint})
+                            {selectedThread.viewport.breakpoint !== breakpoint && (
+                              <Button
+                                variant="link"
+                                isInline
+                                onClick={() => selectedThread.viewport && openAtViewport(selectedThread.viewport, window.location.href)}
+                              >
+                                Open at this size
+                              </Button>
+                            )}
+                          </div>
+                        )}
                         <div style={{ fontSize: '0.875rem' }}>
                           <strong>Comments:</strong> {selectedThread.comments.length}
                         </div>
+                        {threadAnchorMatch && (
+                          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem' }}>
+                            <strong>Anchor:</strong>
+                            {threadAnchorMatch.confidence === 'high' ? (
+                              <Label color="green">High confidence</Label>
+                            ) : threadAnchorMatch.confidence === 'medium' ? (
+                              <Label color="yellow">Re-anchored · medium confidence</Label>
+                            ) : threadAnchorMatch.confidence === 'low' ? (
+                              <Label color="orange">Re-anchored · low confidence</Label>
+                            ) : (
+                              <Label color="red">{textMatch ? 'Text' : 'Element'} not found · fallback position</Label>
+                            )}
+                          </div>
+                        )}
                         <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem' }}>
                           <strong>Status:</strong>
                           {renderSyncLabel(deriveStatus()) ?? <Label color="grey">Local</Label>}
@@ -399,15 +585,17 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
 
                                   {editingCommentId === comment.id ? (
                                     <div style={{ marginTop: '0.5rem' }}>
-                                      <TextArea
+                                      <MarkdownTextArea
                                         value={editText}
-                                        onChange={(_event, value) => setEditText(value)}
+                                        onChange={setEditText}
                                         aria-label="Edit comment"
                                         rows={3}
+                                        mentionableUsers={mentionableUsers}
+                                        onUploadAttachment={uploadAttachment}
                                       />
                                       <ActionList style={{ marginTop: '0.5rem' }}>
                                         <ActionListItem>
-                                          <Button variant="primary" onClick={() => handleSaveEdit(comment.id)}>
+                                          <Button variant="primary" onClick={() => handleSaveEdit(comment.id)} isDisabled={hasPendingUploads(editText)}>
                                             Save
                                           </Button>
                                         </ActionListItem>
@@ -420,9 +608,26 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
                                     </div>
                                   ) : (
                                     <div>
-                                      <div style={{ marginTop: '0.75rem', whiteSpace: 'pre-wrap' }}>
-                                        {stripMarkersForDisplay(comment.text)}
+                                      {comment.conflict && (
+                                        <div style={{ marginTop: '0.5rem', display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                          <Label color="orange" isCompact>
+                                            Edit conflict
+                                          </Label>
+                                          <Button variant="link" isInline onClick={() => setResolvingCommentId(comment.id)}>
+                                            Resolve
+                                          </Button>
+                                        </div>
+                                      )}
+                                      <div style={{ marginTop: '0.75rem' }}>
+                                        <Markdown text={stripMarkersForDisplay(comment.text)} />
                                       </div>
+                                      {comment.githubCommentId && (
+                                        <CommentReactions
+                                          threadId={selectedThread.id}
+                                          comment={comment}
+                                          issueNumber={comment.issueNumber ?? selectedThread.issueNumber}
+                                        />
+                                      )}
                                       <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '0.5rem' }}>
                                         <Button variant="primary" onClick={() => handleStartReply(comment.id)}>
                                           Reply
@@ -439,20 +644,23 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
                                       <Title headingLevel="h4" size="md" style={{ marginBottom: '0.5rem' }}>
                                         Reply to this comment
                                       </Title>
-                                      <TextArea
+                                      <MarkdownTextArea
                                         value={replyTextByCommentId[comment.id] || ''}
-                                        onChange={(_event, value) =>
-                                          setReplyTextByCommentId((prev) => ({ ...prev, [comment.id]: value }))
-                                        }
+                                        onChange={(value) => setReplyTextByCommentId((prev) => ({ ...prev, [comment.id]: value }))}
                                         placeholder="Type your reply..."
                                         aria-label="Reply to comment"
                                         rows={3}
+                                        mentionableUsers={mentionableUsers}
+                                        onUploadAttachment={uploadAttachment}
                                       />
                                       <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '0.5rem' }}>
                                         <Button
                                           variant="primary"
                                           onClick={() => handleSubmitReply(comment.id)}
-                                          isDisabled={!(replyTextByCommentId[comment.id] || '').trim()}
+                                          isDisabled={
+                                            !(replyTextByCommentId[comment.id] || '').trim() ||
+                                            hasPendingUploads(replyTextByCommentId[comment.id] || '')
+                                          }
                                         >
                                           Post reply
                                         </Button>
@@ -499,15 +707,17 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
                         <Title headingLevel="h3" size="md" style={{ marginBottom: '0.5rem' }}>
                           Add comment
                         </Title>
-                        <TextArea
+                        <MarkdownTextArea
                           value={newCommentText}
-                          onChange={(_event, value) => setNewCommentText(value)}
+                          onChange={setNewCommentText}
                           placeholder="Type your comment..."
                           aria-label="New comment"
                           rows={4}
+                          mentionableUsers={mentionableUsers}
+                          onUploadAttachment={uploadAttachment}
                         />
                         <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '1rem' }}>
-                          <Button variant="primary" onClick={handleAddComment} isDisabled={!newCommentText.trim()}>
+                          <Button variant="primary" onClick={handleAddComment} isDisabled={!newCommentText.trim() || hasPendingUploads(newCommentText)}>
                             Add Comment
                           </Button>
                           <Button variant="secondary" onClick={handleCloseThread}>
@@ -525,6 +735,11 @@ export const CommentPanel: React.FunctionComponent<CommentPanelProps> = ({ child
             </div>
           </Tab>
         </Tabs>
+        <ConflictResolutionModal
+          comment={selectedThread?.comments.find((c) => c.id === resolvingCommentId) ?? null}
+          onResolve={handleResolveConflict}
+          onClose={() => setResolvingCommentId(null)}
+        />
     </>
   );
 
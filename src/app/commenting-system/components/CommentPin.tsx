@@ -1,10 +1,19 @@
 import * as React from 'react';
 import { Button } from '@patternfly/react-core';
 import { CommentIcon } from '@patternfly/react-icons';
-import { findElementBySelector } from '../utils/selectorUtils';
+import { resolveElementAnchor } from '../utils/fingerprint';
+import { ANNOTATION_STROKE_WIDTH, DEFAULT_ANNOTATION_COLOR, getShapePath } from '../utils/annotations';
+import { subscribeReanchor } from '../utils/reanchor';
+import { fromRegionAnchor } from '../utils/region';
+import { TextAnchorMatch, isTextMatchCurrent, resolveTextAnchor } from '../utils/textAnchor';
+import { AnchorConfidence, AnnotationShape, ElementFingerprint, RegionAnchor, TextAnchor } from '../types';
 
 interface CommentPinProps {
   cssSelector?: string;
+  fingerprint?: ElementFingerprint;
+  textAnchor?: TextAnchor;
+  region?: RegionAnchor;
+  annotations?: AnnotationShape[];
   xPercent: number;
   yPercent: number;
   commentCount: number;
@@ -13,8 +22,54 @@ interface CommentPinProps {
   onClick: () => void;
 }
 
+const CONFIDENCE_LABELS: Record<AnchorConfidence, string> = {
+  high: '',
+  medium: ' (re-anchored, medium confidence)',
+  low: ' (re-anchored, low confidence)',
+  lost: ' (element deleted)',
+};
+
+const PIN_SIZE = 32;
+
+interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Find the overlay container - the element pins are absolutely positioned in
+const findOverlayContainer = (element: Element): Element => {
+  let current: Element | null = element;
+
+  // Walk up the DOM to find the overlay or its parent container
+  while (current && current !== document.body) {
+    if (current.hasAttribute('data-comment-overlay')) return current;
+    // Also check if parent has position relative (likely the CommentPanel wrapper)
+    const parent: Element | null = current.parentElement;
+    if (parent && window.getComputedStyle(parent).position === 'relative') return parent;
+    current = parent;
+  }
+
+  // If no overlay found, use the element's offsetParent or body
+  return ((element as HTMLElement).offsetParent as Element) || document.body;
+};
+
+// Box of an anchor element relative to the overlay; <body> has no positioned ancestor, so use the overlay itself
+const getRelativeRect = (element: Element): HighlightRect => {
+  const overlay =
+    element === document.body ? document.querySelector('[data-comment-overlay]') || document.body : findOverlayContainer(element);
+  const overlayRect = overlay.getBoundingClientRect();
+  const rect = element.getBoundingClientRect();
+  return { left: rect.left - overlayRect.left, top: rect.top - overlayRect.top, width: rect.width, height: rect.height };
+};
+
 export const CommentPin: React.FunctionComponent<CommentPinProps> = ({
   cssSelector,
+  fingerprint,
+  textAnchor,
+  region,
+  annotations,
   xPercent,
   yPercent,
   commentCount,
@@ -23,50 +78,94 @@ export const CommentPin: React.FunctionComponent<CommentPinProps> = ({
   onClick,
 }) => {
   const [position, setPosition] = React.useState({ left: `${xPercent}%`, top: `${yPercent}%` });
-  const [elementExists, setElementExists] = React.useState(true);
+  const [confidence, setConfidence] = React.useState<AnchorConfidence>('high');
+  // Synced threads get new anchor objects on every sync; only an anchor that actually changed is resolved again
+  const anchorKey = JSON.stringify([cssSelector, fingerprint, textAnchor, region, annotations]);
+  const anchor = React.useMemo(
+    () => ({ cssSelector, fingerprint, textAnchor, region, annotations }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [anchorKey],
+  );
+  // Resolved element, reused on scroll/resize; resolving scores many candidates
+  const anchorRef = React.useRef<Element | null>(null);
+  const elementConfidenceRef = React.useRef<AnchorConfidence>('lost');
+  // Matched text for comments on a text selection
+  const textMatchRef = React.useRef<TextAnchorMatch | null>(null);
+  const [highlightRects, setHighlightRects] = React.useState<HighlightRect[]>([]);
+  // Outline of a drawn region, relative to the overlay container
+  const [regionRect, setRegionRect] = React.useState<HighlightRect | null>(null);
+  // Anchor element box the markup shapes are drawn in
+  const [annotationBox, setAnnotationBox] = React.useState<HighlightRect | null>(null);
 
-  const updatePosition = React.useCallback(() => {
-    if (!cssSelector) {
+  const updatePosition = React.useCallback((reanchor = false) => {
+    const { cssSelector, fingerprint, textAnchor, region, annotations } = anchor;
+    if (!cssSelector && !fingerprint && !textAnchor) {
       // No selector - use fallback coordinates
       setPosition({ left: `${xPercent}%`, top: `${yPercent}%` });
-      setElementExists(true);
+      setConfidence('high');
+      return;
+    }
+
+    if (reanchor || !anchorRef.current?.isConnected) {
+      const match = resolveElementAnchor({ cssSelector, fingerprint });
+      anchorRef.current = match.element;
+      elementConfidenceRef.current = match.confidence;
+      if (textAnchor) {
+        const textMatch = resolveTextAnchor(textAnchor, match.element);
+        textMatchRef.current = textMatch;
+        setConfidence(textMatch.confidence);
+      } else {
+        setConfidence(match.confidence);
+      }
+    }
+
+    setAnnotationBox(annotations?.length && anchorRef.current ? getRelativeRect(anchorRef.current) : null);
+
+    if (textAnchor) {
+      const range = textMatchRef.current?.range ?? null;
+      const lineRects = range ? Array.from(range.getClientRects()).filter((r) => r.width > 0 && r.height > 0) : [];
+      if (range && lineRects.length) {
+        // Highlight each line of the text and put the pin right after its last line
+        const overlayRect = findOverlayContainer(range.startContainer.parentElement || document.body).getBoundingClientRect();
+        setHighlightRects(
+          lineRects.map((r) => ({ left: r.left - overlayRect.left, top: r.top - overlayRect.top, width: r.width, height: r.height })),
+        );
+        const last = lineRects[lineRects.length - 1];
+        const leftPx = last.right - overlayRect.left + 4;
+        const topPx = last.top - overlayRect.top + (last.height - PIN_SIZE) / 2;
+        setPosition({ left: `${leftPx}px`, top: `${topPx}px` });
+      } else {
+        // Text not found - fall back to stored coordinates and fade
+        setHighlightRects([]);
+        setPosition({ left: `${xPercent}%`, top: `${yPercent}%` });
+      }
+      return;
+    }
+
+    if (region) {
+      const container = anchorRef.current;
+      if (container) {
+        const containerRect = getRelativeRect(container);
+        const rect = fromRegionAnchor(region, container);
+        const viewportRect = container.getBoundingClientRect();
+        const left = containerRect.left + rect.left - viewportRect.left;
+        const top = containerRect.top + rect.top - viewportRect.top;
+        setRegionRect({ left, top, width: rect.width, height: rect.height });
+        // Pin sits on the region's top-left corner
+        setPosition({ left: `${left - PIN_SIZE / 2}px`, top: `${top - PIN_SIZE / 2}px` });
+      } else {
+        // Container not found - fall back to stored coordinates and fade
+        setRegionRect(null);
+        setPosition({ left: `${xPercent}%`, top: `${yPercent}%` });
+      }
       return;
     }
 
-    const element = findElementBySelector(cssSelector);
+    const element = anchorRef.current;
     if (element) {
       // Element found - position pin at top-left of element
       const rect = element.getBoundingClientRect();
-      
-      // Find the overlay container - it should be a parent with data-comment-overlay
-      // or find the CommentPanel's relative container
-      let overlayContainer: Element | null = null;
-      let current: Element | null = element;
-      
-      // Walk up the DOM to find the overlay or its parent container
-      while (current && current !== document.body) {
-        if (current.hasAttribute('data-comment-overlay')) {
-          overlayContainer = current;
-          break;
-        }
-        // Also check if parent has position relative (likely the CommentPanel wrapper)
-        const parent = current.parentElement;
-        if (parent) {
-          const style = window.getComputedStyle(parent);
-          if (style.position === 'relative') {
-            overlayContainer = parent;
-            break;
-          }
-        }
-        current = parent;
-      }
-      
-      // If no overlay found, use the element's offsetParent or body
-      if (!overlayContainer) {
-        overlayContainer = (element as HTMLElement).offsetParent as Element || document.body;
-      }
-      
-      const overlayRect = overlayContainer.getBoundingClientRect();
+      const overlayRect = findOverlayContainer(element).getBoundingClientRect();
       
       // Position at top-left of element, offset by 4px (just outside the element border)
       // Use absolute pixel positioning relative to the overlay container
@@ -74,30 +173,101 @@ export const CommentPin: React.FunctionComponent<CommentPinProps> = ({
       const topPx = rect.top - overlayRect.top + 4;
 
       setPosition({ left: `${leftPx}px`, top: `${topPx}px` });
-      setElementExists(true);
     } else {
       // Element not found - fall back to stored coordinates and fade
       setPosition({ left: `${xPercent}%`, top: `${yPercent}%` });
-      setElementExists(false);
     }
-  }, [cssSelector, xPercent, yPercent]);
+  }, [anchor, xPercent, yPercent]);
 
   React.useEffect(() => {
-    updatePosition();
+    updatePosition(true);
 
     // Update position on scroll and resize
-    window.addEventListener('scroll', updatePosition, true);
-    window.addEventListener('resize', updatePosition);
+    const handleMove = () => updatePosition();
+    window.addEventListener('scroll', handleMove, true);
+    window.addEventListener('resize', handleMove);
+
+    // Re-anchor when the page changes underneath the pin. An element matched with full confidence that is
+    // still in the page stays put, as does matched text the changes left alone; anything else is looked for again.
+    const unsubscribe = subscribeReanchor(() => {
+      const isElementCurrent = Boolean(anchorRef.current?.isConnected) && elementConfidenceRef.current === 'high';
+      const isTextCurrent = !anchor.textAnchor || (textMatchRef.current ? isTextMatchCurrent(textMatchRef.current) : false);
+      updatePosition(!isElementCurrent || !isTextCurrent);
+    });
 
     return () => {
-      window.removeEventListener('scroll', updatePosition, true);
-      window.removeEventListener('resize', updatePosition);
+      window.removeEventListener('scroll', handleMove, true);
+      window.removeEventListener('resize', handleMove);
+      unsubscribe();
     };
-  }, [updatePosition]);
+  }, [updatePosition, anchor]);
 
-  const opacity = elementExists ? 1.0 : 0.4;
+  const elementExists = confidence !== 'lost';
+  const isApproximate = confidence === 'medium' || confidence === 'low';
+  const opacity = !elementExists ? 0.4 : confidence === 'low' ? 0.7 : 1.0;
 
   return (
+    <>
+    {highlightRects.map((r, i) => (
+      <div
+        key={i}
+        data-comment-highlight
+        style={{
+          position: 'absolute',
+          left: `${r.left}px`,
+          top: `${r.top}px`,
+          width: `${r.width}px`,
+          height: `${r.height}px`,
+          backgroundColor: isClosed ? 'rgba(106, 110, 115, 0.2)' : 'rgba(240, 171, 0, 0.3)',
+          borderBottom: `2px solid ${isSelected ? '#0066CC' : isClosed ? '#6A6E73' : '#F0AB00'}`,
+          pointerEvents: 'none',
+        }}
+      />
+    ))}
+    {annotationBox && annotations && (
+      <svg
+        data-comment-annotations
+        width={annotationBox.width}
+        height={annotationBox.height}
+        style={{
+          position: 'absolute',
+          left: `${annotationBox.left}px`,
+          top: `${annotationBox.top}px`,
+          overflow: 'visible',
+          pointerEvents: 'none',
+          opacity: isSelected ? 1 : 0.75,
+        }}
+      >
+        {annotations.map((shape, i) => (
+          <path
+            key={i}
+            d={getShapePath(shape, annotationBox)}
+            fill="none"
+            stroke={shape.color || DEFAULT_ANNOTATION_COLOR}
+            strokeWidth={ANNOTATION_STROKE_WIDTH}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+      </svg>
+    )}
+    {regionRect && (
+      <div
+        data-comment-region
+        style={{
+          position: 'absolute',
+          left: `${regionRect.left}px`,
+          top: `${regionRect.top}px`,
+          width: `${regionRect.width}px`,
+          height: `${regionRect.height}px`,
+          border: `2px ${isApproximate ? 'dashed' : 'solid'} ${isSelected ? '#0066CC' : isClosed ? '#6A6E73' : '#C9190B'}`,
+          backgroundColor: isSelected ? 'rgba(0, 102, 204, 0.08)' : 'transparent',
+          borderRadius: '4px',
+          pointerEvents: 'none',
+          opacity,
+        }}
+      />
+    )}
     <Button
       variant="plain"
       data-comment-pin
@@ -106,12 +276,12 @@ export const CommentPin: React.FunctionComponent<CommentPinProps> = ({
         left: position.left,
         top: position.top,
         transform: 'translate(0, 0)',
-        width: '32px',
-        height: '32px',
+        width: `${PIN_SIZE}px`,
+        height: `${PIN_SIZE}px`,
         borderRadius: '50%',
         backgroundColor: isClosed ? 'var(--pf-t--global--icon--color--subtle)' : '#C9190B',
         color: 'white',
-        border: isSelected ? '3px solid #0066CC' : '2px solid white',
+        border: isSelected ? '3px solid #0066CC' : `2px ${isApproximate ? 'dashed' : 'solid'} white`,
         boxShadow: isSelected
           ? '0 0 0 3px rgba(0, 102, 204, 0.3), 0 2px 8px rgba(0,0,0,0.3)'
           : '0 2px 8px rgba(0,0,0,0.3)',
@@ -128,7 +298,12 @@ export const CommentPin: React.FunctionComponent<CommentPinProps> = ({
         e.stopPropagation();
         onClick();
       }}
-      aria-label={`${isClosed ? 'Closed ' : ''}comment thread with ${commentCount} comment${commentCount !== 1 ? 's' : ''}${!elementExists ? ' (element deleted)' : ''}`}
+      aria-label={`${isClosed ? 'Closed ' : ''}comment thread with ${commentCount} comment${commentCount !== 1 ? 's' : ''}${CONFIDENCE_LABELS[confidence]}`}
+      title={
+        isApproximate
+          ? `Re-anchored with ${confidence} confidence: the original ${textAnchor ? 'text' : region ? 'container' : 'element'} changed`
+          : undefined
+      }
     >
       {commentCount === 0 ? (
         <CommentIcon style={{ fontSize: '16px' }} />
@@ -138,5 +313,6 @@ export const CommentPin: React.FunctionComponent<CommentPinProps> = ({
         <span style={{ fontSize: '14px', fontWeight: 'bold' }}>{commentCount}</span>
       )}
     </Button>
+    </>
   );
 };
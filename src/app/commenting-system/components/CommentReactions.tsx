@@ -0,0 +1,136 @@
+import * as React from 'react';
+import { Dropdown, DropdownItem, DropdownList, Label, MenuToggle } from '@patternfly/react-core';
+import { useComments } from '../contexts/CommentContext';
+import { useProviderAuth } from '../contexts/ProviderAuthContext';
+import { getProviderAdapter } from '../services/providerFactory';
+import { Comment } from '../types';
+import { CommentReaction, IssueProviderAdapter, ReactionContent } from '../types/provider';
+
+const REACTIONS: Array<{ content: ReactionContent; emoji: string; label: string }> = [
+  { content: '+1', emoji: '👍', label: 'Thumbs up' },
+  { content: '-1', emoji: '👎', label: 'Thumbs down' },
+  { content: 'laugh', emoji: '😄', label: 'Laugh' },
+  { content: 'hooray', emoji: '🎉', label: 'Hooray' },
+  { content: 'confused', emoji: '😕', label: 'Confused' },
+  { content: 'heart', emoji: '❤️', label: 'Heart' },
+  { content: 'rocket', emoji: '🚀', label: 'Rocket' },
+  { content: 'eyes', emoji: '👀', label: 'Eyes' },
+];
+
+// Providers may leave reactions out entirely; the reaction bar needs the add and remove methods
+const canReact = (adapter: IssueProviderAdapter): boolean =>
+  Boolean((adapter.supportsReactions?.() ?? false) && adapter.addCommentReaction && adapter.removeCommentReaction);
+
+interface CommentReactionsProps {
+  threadId: string;
+  comment: Comment; // a synced comment; its reactions were loaded with it
+  issueNumber?: number;
+}
+
+/**
+ * Reaction counts under a synced comment; clicking a reaction (or picking one from the menu) adds or removes
+ * the signed-in user's own
+ */
+export const CommentReactions: React.FunctionComponent<CommentReactionsProps> = ({ threadId, comment, issueNumber }) => {
+  const { updateCommentReactions } = useComments();
+  const { isAuthenticated, user } = useProviderAuth();
+  const [pending, setPending] = React.useState<ReactionContent | null>(null);
+  const [isPickerOpen, setIsPickerOpen] = React.useState(false);
+  const isSupported = isAuthenticated && canReact(getProviderAdapter());
+  const login = (user?.login || '').toLowerCase();
+  const commentId = comment.githubCommentId;
+  const reactions = comment.reactions ?? [];
+
+  if (!isSupported || !commentId) return null;
+
+  const setReactions = (update: (prev: CommentReaction[]) => CommentReaction[]) =>
+    updateCommentReactions(threadId, comment.id, update);
+
+  // Without a login nothing can be told apart as ours
+  const isMine = (r: CommentReaction) => login !== '' && r.user.toLowerCase() === login;
+
+  const toggleReaction = async (content: ReactionContent) => {
+    const adapter = getProviderAdapter();
+    if (pending || !adapter.addCommentReaction || !adapter.removeCommentReaction) return;
+    const mine = reactions.find((r) => r.content === content && isMine(r));
+    setPending(content);
+
+    // Shown right away, rolled back if the provider refuses
+    if (mine) {
+      setReactions((prev) => prev.filter((r) => r !== mine));
+      const result = await adapter.removeCommentReaction(commentId, mine, issueNumber);
+      if (!result.success) {
+        console.warn('⚠️ Could not remove reaction:', result.error);
+        setReactions((prev) => [...prev, mine]);
+      }
+    } else {
+      const optimistic: CommentReaction = { content, user: user?.login || '' };
+      setReactions((prev) => [...prev, optimistic]);
+      const result = await adapter.addCommentReaction(commentId, content, issueNumber);
+      if (!result.success) console.warn('⚠️ Could not add reaction:', result.error);
+      setReactions((prev) =>
+        result.success && result.data
+          ? prev.map((r) => (r === optimistic ? (result.data as CommentReaction) : r))
+          : prev.filter((r) => r !== optimistic),
+      );
+    }
+    setPending(null);
+  };
+
+  const used = REACTIONS.filter(({ content }) => reactions.some((r) => r.content === content));
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '4px', marginTop: '0.5rem' }}>
+      {used.map(({ content, emoji, label }) => {
+        const forContent = reactions.filter((r) => r.content === content);
+        const reacted = forContent.some(isMine);
+        const people = forContent.map((r) => r.user).filter(Boolean).join(', ');
+        return (
+          <Label
+            key={content}
+            isCompact
+            color={reacted ? 'blue' : 'grey'}
+            variant={reacted ? 'filled' : 'outline'}
+            onClick={() => toggleReaction(content)}
+            aria-pressed={reacted}
+            title={people ? `${label}: ${people}` : label}
+          >
+            {emoji} {forContent.length}
+          </Label>
+        );
+      })}
+      <Dropdown
+        isOpen={isPickerOpen}
+        onSelect={() => setIsPickerOpen(false)}
+        onOpenChange={(open) => setIsPickerOpen(open)}
+        popperProps={{ appendTo: 'inline' }}
+        toggle={(toggleRef) => (
+          <MenuToggle
+            ref={toggleRef}
+            variant="plain"
+            size="sm"
+            isExpanded={isPickerOpen}
+            onClick={() => setIsPickerOpen((prev) => !prev)}
+            aria-label="Add reaction"
+            style={{ fontSize: 'var(--pf-t--global--font--size--sm)' }}
+          >
+            🙂+
+          </MenuToggle>
+        )}
+      >
+        <DropdownList>
+          {REACTIONS.map(({ content, emoji, label }) => (
+            <DropdownItem
+              key={content}
+              isSelected={reactions.some((r) => r.content === content && isMine(r))}
+              isDisabled={pending !== null}
+              onClick={() => toggleReaction(content)}
+            >
+              {emoji} {label}
+            </DropdownItem>
+          ))}
+        </DropdownList>
+      </Dropdown>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import * as React from 'react';
+import { Dropdown, DropdownItem, DropdownList, MenuToggle } from '@patternfly/react-core';
+import { useComments } from '../contexts/CommentContext';
+import { CommentTool } from '../types';
+
+const TOOLS: Array<{ tool: CommentTool; label: string; description: string }> = [
+  { tool: 'pin', label: 'Pin', description: 'Click an element (or select text)' },
+  { tool: 'region', label: 'Region', description: 'Drag a rectangle around an area' },
+  { tool: 'arrow', label: 'Arrow', description: 'Drag to point at something' },
+  { tool: 'box', label: 'Box', description: 'Drag to outline something' },
+  { tool: 'freehand', label: 'Freehand', description: 'Draw to circle or mark something' },
+];
+
+/**
+ * Picks what clicking/dragging on the page does in comment mode
+ */
+export const CommentToolSelect: React.FunctionComponent = () => {
+  const { commentTool, setCommentTool } = useComments();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const current = TOOLS.find((t) => t.tool === commentTool) || TOOLS[0];
+
+  return (
+    <Dropdown
+      isOpen={isOpen}
+      onSelect={() => setIsOpen(false)}
+      onOpenChange={(open) => setIsOpen(open)}
+      // Keep the menu inside the comment controls so choosing a tool isn't taken as a click on the page
+      popperProps={{ appendTo: 'inline' }}
+      toggle={(toggleRef) => (
+        <MenuToggle
+          ref={toggleRef}
+          isExpanded={isOpen}
+          onClick={() => setIsOpen((prev) => !prev)}
+          style={{ fontSize: 'var(--pf-t--global--font--size--sm)' }}
+          aria-label="Comment tool"
+        >
+          Tool: {current.label}
+        </MenuToggle>
+      )}
+    >
+      <DropdownList>
+        {TOOLS.map(({ tool, label, description }) => (
+          <DropdownItem key={tool} isSelected={tool === commentTool} description={description} onClick={() => setCommentTool(tool)}>
+            {label}
+          </DropdownItem>
+        ))}
+      </DropdownList>
+    </Dropdown>
+  );
+};
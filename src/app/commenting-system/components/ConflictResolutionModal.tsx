@@ -0,0 +1,125 @@
+import * as React from 'react';
+import {
+  Button,
+  Grid,
+  GridItem,
+  Modal,
+  ModalBody,
+  ModalFooter,
+  ModalHeader,
+  TextArea,
+  Title,
+} from '@patternfly/react-core';
+import { Comment, ConflictResolution } from '../types';
+
+interface ConflictResolutionModalProps {
+  comment: Comment | null; // the conflicted comment; the modal is closed when null
+  onResolve: (resolution: ConflictResolution) => void;
+  onClose: () => void;
+}
+
+const versionStyle: React.CSSProperties = {
+  whiteSpace: 'pre-wrap',
+  padding: '0.75rem',
+  minHeight: '6rem',
+  backgroundColor: 'var(--pf-t--global--background--color--secondary--default)',
+  borderRadius: 'var(--pf-t--global--border--radius--medium)',
+};
+
+const formatVersionDate = (isoDate?: string) => (isoDate ? new Date(isoDate).toLocaleString() : '');
+
+/**
+ * Side-by-side view of a local edit and the version someone else saved in the meantime
+ */
+export const ConflictResolutionModal: React.FunctionComponent<ConflictResolutionModalProps> = ({
+  comment,
+  onResolve,
+  onClose,
+}) => {
+  const [isMerging, setIsMerging] = React.useState(false);
+  const [mergedText, setMergedText] = React.useState('');
+
+  const conflict = comment?.conflict;
+
+  React.useEffect(() => {
+    setIsMerging(false);
+    setMergedText('');
+  }, [comment?.id]);
+
+  if (!comment || !conflict) return null;
+
+  const handleStartMerge = () => {
+    setMergedText(`${comment.text}\n\n${conflict.remoteText}`);
+    setIsMerging(true);
+  };
+
+  return (
+    <Modal variant="large" isOpen onClose={onClose} aria-labelledby="hale-conflict-title">
+      <ModalHeader
+        title="Resolve edit conflict"
+        labelId="hale-conflict-title"
+        description="This comment was changed by someone else while your edit was waiting to be saved."
+      />
+      <ModalBody>
+        <Grid hasGutter>
+          <GridItem span={6}>
+            <Title headingLevel="h3" size="md" style={{ marginBottom: '0.5rem' }}>
+              Yours
+            </Title>
+            <div style={versionStyle}>{comment.text}</div>
+          </GridItem>
+          <GridItem span={6}>
+            <Title headingLevel="h3" size="md" style={{ marginBottom: '0.5rem' }}>
+              Theirs {conflict.remoteUpdatedAt && <small>({formatVersionDate(conflict.remoteUpdatedAt)})</small>}
+            </Title>
+            <div style={versionStyle}>{conflict.remoteText}</div>
+          </GridItem>
+        </Grid>
+        {isMerging && (
+          <div style={{ marginTop: '1rem' }}>
+            <Title headingLevel="h3" size="md" style={{ marginBottom: '0.5rem' }}>
+              Merged
+            </Title>
+            <TextArea
+              value={mergedText}
+              onChange={(_event, value) => setMergedText(value)}
+              aria-label="Merged comment"
+              rows={6}
+            />
+          </div>
+        )}
+      </ModalBody>
+      <ModalFooter>
+        {isMerging ? (
+          <>
+            <Button
+              variant="primary"
+              onClick={() => onResolve({ text: mergedText.trim() })}
+              isDisabled={!mergedText.trim()}
+            >
+              Save merged
+            </Button>
+            <Button variant="link" onClick={() => setIsMerging(false)}>
+              Back
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="primary" onClick={() => onResolve('mine')}>
+              Keep mine
+            </Button>
+            <Button variant="secondary" onClick={() => onResolve('theirs')}>
+              Keep theirs
+            </Button>
+            <Button variant="secondary" onClick={handleStartMerge}>
+              Merge
+            </Button>
+            <Button variant="link" onClick={onClose}>
+              Decide later
+            </Button>
+          </>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -1,9 +1,15 @@
 import * as React from 'react';
 import { createPortal } from 'react-dom';
 import { Button, Dropdown, DropdownItem, DropdownList, MenuToggle, Switch, Title } from '@patternfly/react-core';
-import { GripVerticalIcon, WindowMinimizeIcon, GithubIcon, GitlabIcon, ArrowsAltVIcon, CommentIcon } from '@patternfly/react-icons';
+import { GripVerticalIcon, WindowMinimizeIcon, GitAltIcon, GithubIcon, GitlabIcon, JiraIcon, ArrowsAltVIcon, CommentIcon, ServerIcon } from '@patternfly/react-icons';
 import { useComments } from '../contexts/CommentContext';
+import { CommentToolSelect } from './CommentToolSelect';
 import { useProviderAuth } from '../contexts/ProviderAuthContext';
+import { getProviderDisplayName } from '../services/providerFactory';
+import { ProviderType } from '../types/provider';
+
+// Providers with their own sign-in entry below; anything else in availableProviders was registered at runtime
+const BUILT_IN_PROVIDERS: ProviderType[] = ['github', 'gitlab', 'gitea', 'jira', 'rest'];
 
 interface FloatingWidgetProps {
   children: React.ReactNode;
@@ -22,9 +28,19 @@ export const FloatingWidget: React.FunctionComponent<FloatingWidgetProps> = ({ c
   const widgetRef = React.useRef<HTMLDivElement>(null);
   const resizeHandleRef = React.useRef<HTMLDivElement>(null);
 
-  const { commentsEnabled, setCommentsEnabled, showPinsEnabled, setShowPinsEnabled } = useComments();
+  const { commentsEnabled, setCommentsEnabled, showPinsEnabled, setShowPinsEnabled, breakpoint, breakpointFilterEnabled, setBreakpointFilterEnabled } =
+    useComments();
   const { isAuthenticated, user, login, logout, providerType, providerDisplayName, availableProviders } = useProviderAuth();
-  const ProviderIcon = providerType === 'gitlab' ? GitlabIcon : GithubIcon;
+  const ProviderIcon =
+    providerType === 'gitlab'
+      ? GitlabIcon
+      : providerType === 'gitea'
+        ? GitAltIcon
+        : providerType === 'jira'
+          ? JiraIcon
+          : providerType === 'rest'
+            ? ServerIcon
+            : GithubIcon;
   const [isSignInOpen, setIsSignInOpen] = React.useState(false);
   const showProviderMenu = availableProviders.length > 1;
 
@@ -244,6 +260,7 @@ export const FloatingWidget: React.FunctionComponent<FloatingWidgetProps> = ({ c
               onChange={(_event, checked) => setCommentsEnabled(checked)}
               aria-label="Enable or disable comments"
             />
+            {commentsEnabled && <CommentToolSelect />}
             <Switch
               id="floating-show-pins-switch"
               label="Show pins"
@@ -251,6 +268,15 @@ export const FloatingWidget: React.FunctionComponent<FloatingWidgetProps> = ({ c
               onChange={(_event, checked) => setShowPinsEnabled(checked)}
               aria-label="Show or hide comment pins"
             />
+            {(commentsEnabled || showPinsEnabled) && (
+              <Switch
+                id="floating-breakpoint-filter-switch"
+                label={`Only ${breakpoint} breakpoint`}
+                isChecked={breakpointFilterEnabled}
+                onChange={(_event, checked) => setBreakpointFilterEnabled(checked)}
+                aria-label="Only show pins created at the current breakpoint"
+              />
+            )}
             <div style={{ flex: 1 }} />
             {isAuthenticated ? (
               <>
@@ -302,6 +328,53 @@ export const FloatingWidget: React.FunctionComponent<FloatingWidgetProps> = ({ c
                       Sign in with GitLab
                     </DropdownItem>
                   )}
+                  {availableProviders.includes('gitea') && (
+                    <DropdownItem
+                      onClick={() => {
+                        setIsSignInOpen(false);
+                        login('gitea');
+                      }}
+                      icon={<GitAltIcon />}
+                    >
+                      Sign in with Gitea
+                    </DropdownItem>
+                  )}
+                  {availableProviders.includes('jira') && (
+                    <DropdownItem
+                      onClick={() => {
+                        setIsSignInOpen(false);
+                        login('jira');
+                      }}
+                      icon={<JiraIcon />}
+                    >
+                      Sign in with Jira
+                    </DropdownItem>
+                  )}
+                  {availableProviders.includes('rest') && (
+                    <DropdownItem
+                      onClick={() => {
+                        setIsSignInOpen(false);
+                        login('rest');
+                      }}
+                      icon={<ServerIcon />}
+                    >
+                      Sign in to Comment Store
+                    </DropdownItem>
+                  )}
+                  {availableProviders
+                    .filter((type) => !BUILT_IN_PROVIDERS.includes(type))
+                    .map((type) => (
+                      <DropdownItem
+                        key={type}
+                        onClick={() => {
+                          setIsSignInOpen(false);
+                          login(type);
+                        }}
+                        icon={<CommentIcon />}
+                      >
+                        Sign in with {getProviderDisplayName(type)}
+                      </DropdownItem>
+                    ))}
                 </DropdownList>
               </Dropdown>
             ) : (
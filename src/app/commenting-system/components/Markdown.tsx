@@ -0,0 +1,171 @@
+import * as React from 'react';
+import { MarkdownBlock, MarkdownInline, MarkdownListItem, TableAlign, parseMarkdown } from '../utils/markdown';
+
+const codeBackground = 'var(--pf-t--global--background--color--secondary--default)';
+const borderColor = 'var(--pf-t--global--border--color--default)';
+const blockSpacing = { marginTop: 0, marginBottom: '0.5rem' };
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return (
+          <code key={i} style={{ padding: '0 0.25rem', borderRadius: '3px', backgroundColor: codeBackground, fontSize: '0.875em' }}>
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={i}>{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'image':
+        // Shown as a thumbnail; the link opens the full image
+        return (
+          <a key={i} href={node.src} target="_blank" rel="noopener noreferrer nofollow">
+            <img
+              src={node.src}
+              alt={node.alt}
+              title={node.title}
+              loading="lazy"
+              style={{ maxWidth: '100%', maxHeight: '16rem', objectFit: 'contain', verticalAlign: 'top' }}
+            />
+          </a>
+        );
+      case 'break':
+        return <br key={i} />;
+      default:
+        return null;
+    }
+  });
+
+const renderListItem = (item: MarkdownListItem, i: number) => {
+  // Paragraphs of a list item sit on the bullet's line instead of starting a spaced block
+  const content = item.blocks.map((block, j) =>
+    block.type === 'paragraph' ? (
+      <div key={j}>
+        {item.checked !== undefined && j === 0 && (
+          <input type="checkbox" checked={item.checked} disabled readOnly style={{ marginRight: '0.375rem' }} />
+        )}
+        {renderInline(block.children)}
+      </div>
+    ) : (
+      renderBlock(block, j)
+    ),
+  );
+  return (
+    <li key={i} style={item.checked !== undefined ? { listStyle: 'none' } : undefined}>
+      {content}
+    </li>
+  );
+};
+
+const cellStyle = (align: TableAlign): React.CSSProperties => ({
+  padding: '0.25rem 0.5rem',
+  border: `1px solid ${borderColor}`,
+  textAlign: align || undefined,
+});
+
+function renderBlock(block: MarkdownBlock, i: number): React.ReactNode {
+  switch (block.type) {
+    case 'paragraph':
+      return (
+        <p key={i} style={blockSpacing}>
+          {renderInline(block.children)}
+        </p>
+      );
+    case 'heading': {
+      const Heading = `h${block.level}` as 'h1';
+      // Keep headings close to the comment's text size; the panel has its own titles
+      return (
+        <Heading key={i} style={{ ...blockSpacing, fontSize: block.level <= 2 ? '1.125rem' : '1rem', fontWeight: 600 }}>
+          {renderInline(block.children)}
+        </Heading>
+      );
+    }
+    case 'code':
+      return (
+        <pre
+          key={i}
+          data-language={block.lang}
+          style={{ ...blockSpacing, padding: '0.5rem', borderRadius: '4px', backgroundColor: codeBackground, overflowX: 'auto', fontSize: '0.8125rem' }}
+        >
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'quote':
+      return (
+        <blockquote
+          key={i}
+          style={{ ...blockSpacing, marginLeft: 0, paddingLeft: '0.75rem', borderLeft: `3px solid ${borderColor}`, color: 'var(--pf-t--global--text--color--subtle)' }}
+        >
+          {block.blocks.map(renderBlock)}
+        </blockquote>
+      );
+    case 'list': {
+      const listStyle = { ...blockSpacing, paddingLeft: '1.5rem', listStyleType: block.ordered ? 'decimal' : 'disc' };
+      return block.ordered ? (
+        <ol key={i} start={block.start} style={listStyle}>
+          {block.items.map(renderListItem)}
+        </ol>
+      ) : (
+        <ul key={i} style={listStyle}>
+          {block.items.map(renderListItem)}
+        </ul>
+      );
+    }
+    case 'table':
+      return (
+        <div key={i} style={{ ...blockSpacing, overflowX: 'auto' }}>
+          <table style={{ borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+            <thead>
+              <tr>
+                {block.header.map((cell, j) => (
+                  <th key={j} style={{ ...cellStyle(block.align[j]), fontWeight: 600 }}>
+                    {renderInline(cell)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, j) => (
+                    <td key={j} style={cellStyle(block.align[j])}>
+                      {renderInline(cell)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr key={i} style={{ ...blockSpacing, border: 0, borderTop: `1px solid ${borderColor}` }} />;
+    default:
+      return null;
+  }
+}
+
+interface MarkdownProps {
+  text: string;
+}
+
+/**
+ * Comment body rendered as (GitHub-flavored) Markdown. Built from React elements only, so comment
+ * content can't inject HTML or scripts (see utils/markdown.ts).
+ */
+export const Markdown: React.FunctionComponent<MarkdownProps> = ({ text }) => {
+  const blocks = React.useMemo(() => parseMarkdown(text), [text]);
+  return <div style={{ overflowWrap: 'anywhere' }}>{blocks.map(renderBlock)}</div>;
+};
@@ -0,0 +1,275 @@
+import * as React from 'react';
+import {
+  Avatar,
+  Button,
+  HelperText,
+  HelperTextItem,
+  Menu,
+  MenuContent,
+  MenuItem,
+  MenuList,
+  TextArea,
+  ToggleGroup,
+  ToggleGroupItem,
+} from '@patternfly/react-core';
+import { ProviderUser } from '../types/provider';
+import { formatAttachmentMarkdown, getUploadPlaceholder } from '../utils/attachments';
+import { Markdown } from './Markdown';
+
+const MAX_MENTION_SUGGESTIONS = 8;
+// `@` at the start of the text or after a space/bracket, followed by what has been typed of the login so far
+const MENTION_QUERY = /(^|[\s([{])@([\w.-]*)$/;
+
+interface MentionQuery {
+  start: number; // index of the `@`
+  end: number; // caret
+  query: string;
+}
+
+const findMentionQuery = (textarea: HTMLTextAreaElement): MentionQuery | null => {
+  const caret = textarea.selectionStart;
+  if (caret !== textarea.selectionEnd) return null;
+  const match = MENTION_QUERY.exec(textarea.value.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, end: caret, query: match[2] };
+};
+
+const filterMentionableUsers = (users: ProviderUser[], query: string): ProviderUser[] => {
+  const q = query.toLowerCase();
+  const startsWith = (u: ProviderUser) => u.login.toLowerCase().startsWith(q);
+  const matches = users.filter((u) => u.login.toLowerCase().includes(q) || (u.name || '').toLowerCase().includes(q));
+  // Logins starting with what was typed come first
+  return matches.filter(startsWith).concat(matches.filter((u) => !startsWith(u))).slice(0, MAX_MENTION_SUGGESTIONS);
+};
+
+const getFiles = (list: FileList | null): File[] => (list ? Array.prototype.slice.call(list) : []);
+
+interface MarkdownTextAreaProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  'aria-label': string;
+  rows?: number;
+  /** Suggested while typing `@`; the chosen login is written into the text so the provider notifies them */
+  mentionableUsers?: ProviderUser[];
+  /** Uploads a dropped, pasted or picked file and resolves to its URL; files can't be attached without it */
+  onUploadAttachment?: (file: File) => Promise<string>;
+}
+
+/**
+ * Comment text area with a Write/Preview toggle showing the Markdown as it will appear in the thread
+ */
+export const MarkdownTextArea: React.FunctionComponent<MarkdownTextAreaProps> = ({
+  value,
+  onChange,
+  placeholder,
+  'aria-label': ariaLabel,
+  rows = 3,
+  mentionableUsers = [],
+  onUploadAttachment,
+}) => {
+  const [isPreview, setIsPreview] = React.useState(false);
+  const [mention, setMention] = React.useState<MentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = React.useState(0);
+  const [isDragOver, setIsDragOver] = React.useState(false);
+  const [uploadErrors, setUploadErrors] = React.useState<string[]>([]);
+  const textAreaRef = React.useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  // Uploads finish after the user may have typed more; they patch the latest text, not the text they started with
+  const valueRef = React.useRef(value);
+  valueRef.current = value;
+
+  // Back to writing once the text has been posted (or cleared)
+  React.useEffect(() => {
+    if (!value) setIsPreview(false);
+  }, [value]);
+
+  const suggestions = React.useMemo(
+    () => (mention ? filterMentionableUsers(mentionableUsers, mention.query) : []),
+    [mention, mentionableUsers],
+  );
+  const isSuggesting = !isPreview && suggestions.length > 0;
+
+  const updateMention = (textarea: HTMLTextAreaElement) => {
+    const next = findMentionQuery(textarea);
+    if (mention && next && mention.start === next.start && mention.query === next.query) return;
+    setMention(next);
+    setActiveIndex(0);
+  };
+
+  const insertMention = (user: ProviderUser) => {
+    if (!mention) return;
+    const inserted = `@${user.login} `;
+    const caret = mention.start + inserted.length;
+    onChange(value.slice(0, mention.start) + inserted + value.slice(mention.end));
+    setMention(null);
+    // Put the caret after the mention once the new value has rendered
+    window.requestAnimationFrame(() => {
+      textAreaRef.current?.focus();
+      textAreaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const setText = (text: string) => {
+    valueRef.current = text;
+    onChange(text);
+  };
+
+  const attachFiles = (files: File[]) => {
+    if (!onUploadAttachment || files.length === 0) return;
+    setUploadErrors([]);
+    const text = valueRef.current;
+    const at = textAreaRef.current ? textAreaRef.current.selectionEnd : text.length;
+    const uploads = files.map((file) => ({ file, isImage: file.type.startsWith('image/') }));
+    const placeholders = uploads.map(({ file, isImage }) => getUploadPlaceholder(file.name, isImage));
+    // Each attachment on its own line
+    const before = text.slice(0, at);
+    const separator = before && !before.endsWith('\n') ? '\n' : '';
+    setText(`${before}${separator}${placeholders.join('\n')}\n${text.slice(at)}`);
+
+    uploads.forEach(({ file, isImage }, i) => {
+      const replacePlaceholder = (replacement: string) => setText(valueRef.current.replace(placeholders[i], replacement));
+      onUploadAttachment(file)
+        .then((url) => replacePlaceholder(formatAttachmentMarkdown(file.name, url, isImage)))
+        .catch((e: unknown) => {
+          replacePlaceholder('');
+          const message = e instanceof Error ? e.message : 'upload failed';
+          setUploadErrors((prev) => [...prev, `${file.name}: ${message}`]);
+        });
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!isSuggesting) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((prev) => (prev + step + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      insertMention(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      setMention(null);
+    }
+  };
+
+  return (
+    <div>
+      <ToggleGroup isCompact aria-label={`${ariaLabel}: write or preview`} style={{ marginBottom: '0.5rem' }}>
+        <ToggleGroupItem text="Write" isSelected={!isPreview} onChange={() => setIsPreview(false)} />
+        <ToggleGroupItem text="Preview" isSelected={isPreview} onChange={() => setIsPreview(true)} isDisabled={!value.trim()} />
+      </ToggleGroup>
+      {isPreview ? (
+        <div
+          aria-label={`${ariaLabel} preview`}
+          style={{
+            minHeight: `${rows * 1.5}rem`,
+            padding: '0.5rem',
+            border: '1px solid var(--pf-t--global--border--color--default)',
+            borderRadius: 'var(--pf-t--global--border--radius--small)',
+          }}
+        >
+          <Markdown text={value} />
+        </div>
+      ) : (
+        <div
+          style={{
+            position: 'relative',
+            outline: isDragOver ? '2px dashed var(--pf-t--global--border--color--clicked)' : undefined,
+            outlineOffset: '2px',
+          }}
+          onDragOver={(event) => {
+            if (!onUploadAttachment || Array.prototype.indexOf.call(event.dataTransfer.types, 'Files') === -1) return;
+            event.preventDefault();
+            setIsDragOver(true);
+          }}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={(event) => {
+            setIsDragOver(false);
+            const files = getFiles(event.dataTransfer.files);
+            if (!onUploadAttachment || files.length === 0) return;
+            event.preventDefault();
+            attachFiles(files);
+          }}
+        >
+          <TextArea
+            ref={textAreaRef}
+            value={value}
+            onChange={(event, text) => {
+              onChange(text);
+              updateMention(event.currentTarget);
+            }}
+            onSelect={(event) => updateMention(event.currentTarget)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setMention(null)}
+            onPaste={(event) => {
+              // Pasted screenshots arrive as files; pasted text is left to the text area
+              const files = getFiles(event.clipboardData.files);
+              if (!onUploadAttachment || files.length === 0) return;
+              event.preventDefault();
+              attachFiles(files);
+            }}
+            placeholder={placeholder}
+            aria-label={ariaLabel}
+            aria-autocomplete="list"
+            aria-expanded={isSuggesting}
+            rows={rows}
+          />
+          {isSuggesting && (
+            // mousedown would blur the text area (and close the list) before the click lands
+            <div
+              onMouseDown={(event) => event.preventDefault()}
+              style={{ position: 'absolute', top: '100%', left: 0, zIndex: 1000, minWidth: '16rem' }}
+            >
+              <Menu aria-label="People to mention">
+                <MenuContent maxMenuHeight="16rem">
+                  <MenuList>
+                    {suggestions.map((user, i) => (
+                      <MenuItem
+                        key={user.login}
+                        itemId={user.login}
+                        isFocused={i === activeIndex}
+                        icon={user.avatar ? <Avatar src={user.avatar} alt="" size="sm" /> : undefined}
+                        description={user.name}
+                        onClick={() => insertMention(user)}
+                      >
+                        @{user.login}
+                      </MenuItem>
+                    ))}
+                  </MenuList>
+                </MenuContent>
+              </Menu>
+            </div>
+          )}
+        </div>
+      )}
+      {onUploadAttachment && !isPreview && (
+        <HelperText style={{ marginTop: '0.25rem' }}>
+          <HelperTextItem>
+            Drop or paste files to attach them, or{' '}
+            <Button variant="link" isInline onClick={() => fileInputRef.current?.click()}>
+              choose files
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              hidden
+              onChange={(event) => {
+                attachFiles(getFiles(event.target.files));
+                event.target.value = '';
+              }}
+            />
+          </HelperTextItem>
+          {uploadErrors.map((error) => (
+            <HelperTextItem key={error} variant="error">
+              {error}
+            </HelperTextItem>
+          ))}
+        </HelperText>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import * as React from 'react';
+import { act, render, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Thread } from '../types';
+import { IssueProviderAdapter } from '../types/provider';
+import { enqueueOperation, readOutbox } from '../services/outbox';
+import { FULL_RESYNC_EVERY_POLLS } from '../utils/polling';
+import { CommentProvider, useComments } from './CommentContext';
+
+const mocks = vi.hoisted(() => ({
+  adapter: {} as IssueProviderAdapter,
+  loadRoute: vi.fn(),
+}));
+
+vi.mock('../services/providerFactory', () => ({
+  getProviderAdapter: () => mocks.adapter,
+  getProviderType: () => 'github',
+}));
+
+vi.mock('../services/threadStore', () => ({
+  getThreadStore: () => ({
+    loadRoute: mocks.loadRoute,
+    putThreads: async () => undefined,
+    deleteThreads: async () => undefined,
+  }),
+  subscribeThreadStoreWarnings: () => () => undefined,
+}));
+
+const storedThread: Thread = {
+  id: 't1',
+  route: '/dashboard',
+  xPercent: 10,
+  yPercent: 20,
+  comments: [{ id: 'c1', author: 'octocat', text: 'Looks off', createdAt: '2026-01-01T00:00:00Z' }],
+};
+
+describe('CommentProvider outbox replay', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mocks.adapter = {
+      isConfigured: () => true,
+      createIssue: vi.fn(async () => ({ success: true, data: { number: 7, html_url: 'https://example.test/7' } })),
+      fetchIssuesForRouteAndVersion: vi.fn(async () => ({ success: true, data: [] })),
+      resetIncrementalSync: vi.fn(),
+    } as unknown as IssueProviderAdapter;
+    enqueueOperation({ type: 'createIssue', threadId: 't1', route: '/dashboard' }, 'github');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps an operation queued when its route could not be loaded', async () => {
+    mocks.loadRoute.mockRejectedValue(new Error('IndexedDB unavailable'));
+
+    render(<CommentProvider>{null}</CommentProvider>);
+
+    await waitFor(() => expect(readOutbox()[0]).toMatchObject({ attempts: 1 }));
+    expect(mocks.adapter.createIssue).not.toHaveBeenCalled();
+  });
+
+  it('replays an operation once its thread has been loaded', async () => {
+    mocks.loadRoute.mockResolvedValue([storedThread]);
+
+    render(<CommentProvider>{null}</CommentProvider>);
+
+    await waitFor(() => expect(readOutbox()).toEqual([]));
+    expect(mocks.adapter.createIssue).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops an operation whose thread is gone from a loaded route', async () => {
+    mocks.loadRoute.mockResolvedValue([]);
+
+    render(<CommentProvider>{null}</CommentProvider>);
+
+    await waitFor(() => expect(readOutbox()).toEqual([]));
+    expect(mocks.adapter.createIssue).not.toHaveBeenCalled();
+  });
+});
+
+describe('CommentProvider background polling', () => {
+  const SyncDashboard = () => {
+    const { syncFromGitHub } = useComments();
+    React.useEffect(() => {
+      void syncFromGitHub('/dashboard');
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+    return null;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.localStorage.clear();
+    window.localStorage.setItem('hale_show_pins_enabled_v1', 'true');
+    vi.stubEnv('VITE_SYNC_POLL_INTERVAL_MS', '10000');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    mocks.loadRoute.mockResolvedValue([]);
+    mocks.adapter = {
+      isConfigured: () => true,
+      fetchIssuesForRouteAndVersion: vi.fn(async () => ({ success: true, data: [] })),
+      resetIncrementalSync: vi.fn(),
+    } as unknown as IssueProviderAdapter;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('refetches the active route in full every few polls', async () => {
+    render(
+      <CommentProvider>
+        <SyncDashboard />
+      </CommentProvider>,
+    );
+
+    await act(() => vi.advanceTimersByTimeAsync(10000 * (FULL_RESYNC_EVERY_POLLS - 1)));
+    expect(mocks.adapter.resetIncrementalSync).not.toHaveBeenCalled();
+
+    await act(() => vi.advanceTimersByTimeAsync(10000));
+    expect(mocks.adapter.resetIncrementalSync).toHaveBeenCalledWith('/dashboard', undefined);
+    expect(mocks.adapter.fetchIssuesForRouteAndVersion).toHaveBeenCalledTimes(FULL_RESYNC_EVERY_POLLS + 1);
+  });
+});
@@ -1,7 +1,49 @@
 import * as React from 'react';
-import { Comment, Thread, ComponentMetadata } from '../types';
-import { getProviderAdapter } from '../services/providerFactory';
+import {
+  AnnotationShape,
+  Breakpoint,
+  Comment,
+  CommentTool,
+  ComponentMetadata,
+  ConflictResolution,
+  ElementFingerprint,
+  RegionAnchor,
+  SyncProgress,
+  TextAnchor,
+  Thread,
+  ViewportContext,
+} from '../types';
+import { CommentReaction, ProviderResult } from '../types/provider';
+import { getProviderAdapter, getProviderType } from '../services/providerFactory';
+import { RateLimitState, getRateLimitState, subscribeRateLimit } from '../services/rateLimiter';
 import { getStoredUser } from '../services/githubAdapter';
+import { getThreadStore, subscribeThreadStoreWarnings } from '../services/threadStore';
+import { broadcastTabSync, mergeThreadCopies, subscribeTabSync } from '../services/tabSync';
+import { CommentEvent, subscribeCommentEvents } from '../services/commentEvents';
+import { FULL_RESYNC_EVERY_POLLS, getPollDelayMs, getSyncPollIntervalMs } from '../utils/polling';
+import { parseAnnotations, renderAnnotationsSvg } from '../utils/annotations';
+import { parseDataUrl } from '../utils/attachments';
+import { parseFingerprint, resolveElementAnchor } from '../utils/fingerprint';
+import { parseRegion } from '../utils/region';
+import { parseTextAnchor } from '../utils/textAnchor';
+import { getBreakpoint, getViewportContext, parseViewport } from '../utils/viewport';
+import {
+  MAX_ATTEMPTS,
+  OutboxOperation,
+  completeEntry,
+  discardOperations,
+  enqueueOperation,
+  getNextRetryAt,
+  getRetryDelayMs,
+  hasQueuedOperations,
+  isNotFoundStatus,
+  nextReadyEntry,
+  readOutbox,
+  recordFailedAttempt,
+  resetRetries,
+  subscribeOutbox,
+  withOutboxLock,
+} from '../services/outbox';
 
 interface CommentContextType {
   threads: Thread[];
@@ -9,22 +51,49 @@ interface CommentContextType {
   setCommentsEnabled: (enabled: boolean) => void;
   showPinsEnabled: boolean;
   setShowPinsEnabled: (enabled: boolean) => void;
+  commentTool: CommentTool;
+  setCommentTool: (tool: CommentTool) => void;
+  breakpoint: Breakpoint; // PatternFly breakpoint of the current viewport
+  breakpointFilterEnabled: boolean; // only show pins created at the current breakpoint
+  setBreakpointFilterEnabled: (enabled: boolean) => void;
   drawerPinnedOpen: boolean;
   setDrawerPinnedOpen: (open: boolean) => void;
   floatingWidgetMode: boolean;
   setFloatingWidgetMode: (mode: boolean) => void;
-  addThread: (cssSelector: string, elementDescription: string, componentMetadata: ComponentMetadata | null, xPercent: number, yPercent: number, route: string, version?: string) => string;
+  addThread: (
+    cssSelector: string,
+    elementDescription: string,
+    componentMetadata: ComponentMetadata | null,
+    xPercent: number,
+    yPercent: number,
+    route: string,
+    version?: string,
+    fingerprint?: ElementFingerprint,
+    anchor?: Pick<Thread, 'textAnchor' | 'region' | 'annotations'>,
+  ) => string;
   addReply: (threadId: string, text: string, parentCommentId?: string) => void;
   syncFromGitHub: (route: string, version?: string) => Promise<void>;
   retrySync: () => Promise<void>;
   isSyncing: boolean;
+  syncProgress: SyncProgress | null;
+  rateLimitedUntil: number | null; // epoch ms while the provider is rate limiting us
+  storageWarning: string | null; // set when threads could not be saved locally (e.g. quota exceeded)
   hasPendingSync: boolean;
   updateComment: (threadId: string, commentId: string, text: string) => void;
   deleteComment: (threadId: string, commentId: string) => void;
   closeThread: (threadId: string) => void;
   reopenThread: (threadId: string) => void;
   removePin: (threadId: string) => void;
-  getThreadsForRoute: (route: string, version?: string) => Thread[];
+  updateAnnotations: (threadId: string, annotations: AnnotationShape[]) => void; // only before the issue exists
+  attachScreenshot: (threadId: string, dataUrl: string) => void; // only before the issue exists
+  resolveConflict: (threadId: string, commentId: string, resolution: ConflictResolution) => void;
+  updateCommentReactions: (
+    threadId: string,
+    commentId: string,
+    update: (reactions: CommentReaction[]) => CommentReaction[],
+  ) => void;
+  getThreadsForRoute: (route: string, version?: string) => Thread[]; // only what is loaded; see loadThreadsForRoute
+  loadThreadsForRoute: (route: string) => Promise<void>; // reads the route's stored threads (once per session)
   selectedThreadId: string | null;
   setSelectedThreadId: (threadId: string | null) => void;
 }
@@ -42,8 +111,14 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
       .trimEnd();
   };
 
-  const buildGitHubReplyBody = (text: string, parent?: { githubCommentId?: number; author?: string; text?: string }) => {
-    if (!parent) return text;
+  const hasNativeReplies = () => adapter.supportsNativeReplies?.() ?? false;
+
+  const buildGitHubReplyBody = (
+    text: string,
+    parent?: { githubCommentId?: number; author?: string; text?: string },
+  ) => {
+    // Providers with real reply threads (GitLab discussions) are given the parent id instead
+    if (!parent || hasNativeReplies()) return text;
     if (!parent.githubCommentId) {
       // We can still preserve local threading, but GitHub can't link to a parent comment id we don't have.
       return `${text}\n\n<!-- hale-reply-to-local -->`;
@@ -106,13 +181,23 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     }
     return best?.id;
   };
-  const STORAGE_KEY = 'hale_comment_threads_v1';
+
+  const EDIT_CONFLICT_MESSAGE = 'Someone else edited this comment. Resolve the conflict to save your edit.';
+  // Repository folder for uploaded markup images
+  const ANNOTATIONS_DIR = '.hale/annotations';
+
+  // Both are provider `updated_at` timestamps; without a baseline there is nothing to compare against
+  const isNewerRemoteVersion = (remote?: string, lastSeen?: string) =>
+    !!remote && !!lastSeen && Date.parse(remote) > Date.parse(lastSeen);
+
   const COMMENTS_ENABLED_KEY = 'hale_comments_enabled_v1';
   const SHOW_PINS_ENABLED_KEY = 'hale_show_pins_enabled_v1';
   const DRAWER_PINNED_OPEN_KEY = 'hale_drawer_pinned_open_v1';
   const FLOATING_WIDGET_MODE_KEY = 'hale_floating_widget_mode_v1';
+  const BREAKPOINT_FILTER_KEY = 'hale_breakpoint_filter_v1';
   const HIDDEN_ISSUES_KEY = 'hale_hidden_issue_numbers_v1';
-  const PENDING_CLOSE_ISSUES_KEY = 'hale_pending_close_issue_numbers_v1';
+  // Replaced by the outbox; read once to migrate closes that were still pending
+  const LEGACY_PENDING_CLOSE_ISSUES_KEY = 'hale_pending_close_issue_numbers_v1';
 
   const readNumberSet = (key: string): Set<number> => {
     try {
@@ -135,29 +220,27 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
   };
 
   const hiddenIssueNumbersRef = React.useRef<Set<number>>(new Set());
-  const pendingCloseIssueNumbersRef = React.useRef<Set<number>>(new Set());
-  const removedThreadIdsRef = React.useRef<Set<string>>(new Set());
 
   React.useEffect(() => {
     hiddenIssueNumbersRef.current = readNumberSet(HIDDEN_ISSUES_KEY);
-    pendingCloseIssueNumbersRef.current = readNumberSet(PENDING_CLOSE_ISSUES_KEY);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const loadThreads = (): Thread[] => {
-    if (typeof window === 'undefined') return [];
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    try {
-      const parsed = JSON.parse(raw) as unknown;
-      if (!Array.isArray(parsed)) return [];
-      return parsed as Thread[];
-    } catch {
-      return [];
-    }
-  };
-
-  const [threads, setThreads] = React.useState<Thread[]>(() => loadThreads());
+  const threadStore = getThreadStore();
+  // Threads are loaded per route on first use (see ensureRouteLoaded)
+  const [threads, setThreads] = React.useState<Thread[]>([]);
+  const [storageWarning, setStorageWarning] = React.useState<string | null>(null);
+  const [outboxSize, setOutboxSize] = React.useState<number>(() => readOutbox().length);
+  const routeLoadsRef = React.useRef<Map<string, Promise<void>>>(new Map());
+  // Routes whose stored threads were read successfully (a failed load is retried on next use)
+  const loadedRoutesRef = React.useRef<Set<string>>(new Set());
+  // Last persisted object per thread id; state updates are immutable, so a new object means "changed"
+  const persistedThreadsRef = React.useRef<Map<string, Thread>>(new Map());
+  // Objects read from the store or received from another tab (which stored them), so not written back
+  const alreadyPersistedRef = React.useRef<WeakSet<Thread>>(new WeakSet());
+  // When this tab last changed each thread, and comments deleted here or in other tabs (for tab-sync merges)
+  const localChangedAtRef = React.useRef<Map<string, number>>(new Map());
+  const removedCommentIdsRef = React.useRef<Set<string>>(new Set());
   const [commentsEnabled, setCommentsEnabled] = React.useState<boolean>(() => {
     try {
       const raw = window.localStorage.getItem(COMMENTS_ENABLED_KEY);
@@ -174,6 +257,8 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     }
   });
   const [selectedThreadId, setSelectedThreadId] = React.useState<string | null>(null);
+  const selectedThreadIdRef = React.useRef<string | null>(null);
+  selectedThreadIdRef.current = selectedThreadId;
   const [drawerPinnedOpen, setDrawerPinnedOpen] = React.useState<boolean>(() => {
     try {
       const raw = window.localStorage.getItem(DRAWER_PINNED_OPEN_KEY);
@@ -205,27 +290,182 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
       return false;
     }
   });
+  // Per session: comment mode always starts with the pin tool
+  const [commentTool, setCommentTool] = React.useState<CommentTool>('pin');
+  const [breakpoint, setBreakpoint] = React.useState<Breakpoint>(() => getBreakpoint(window.innerWidth));
+  const [breakpointFilterEnabled, setBreakpointFilterEnabled] = React.useState<boolean>(() => {
+    try {
+      return window.localStorage.getItem(BREAKPOINT_FILTER_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  });
   const [syncInFlightCount, setSyncInFlightCount] = React.useState(0);
   const isSyncing = syncInFlightCount > 0;
+  const [syncProgress, setSyncProgress] = React.useState<SyncProgress | null>(null);
   const syncInFlightByKey = React.useRef<Map<string, Promise<void>>>(new Map());
+  // Route/version pairs this tab has synced, so pushed changes know what to refresh
+  const syncedKeysRef = React.useRef<Map<string, { route: string; version?: string }>>(new Map());
+  // Last route/version the UI asked to sync; background polling keeps it fresh
+  const activeRouteRef = React.useRef<{ route: string; version?: string } | null>(null);
+  const syncFailedKeysRef = React.useRef<Set<string>>(new Set());
   const threadsRef = React.useRef<Thread[]>([]);
+  const [rateLimitedUntil, setRateLimitedUntil] = React.useState<number | null>(null);
+  const retrySyncRef = React.useRef<(() => Promise<void>) | null>(null);
 
   React.useEffect(() => {
     threadsRef.current = threads;
   }, [threads]);
 
-  // Persist threads so refreshes don't wipe pins/comments.
+  // Mirror the shared rate limiter's state for the active provider
   React.useEffect(() => {
-    if (typeof window === 'undefined') return;
-    try {
-      // Filter out temporary threads before saving to localStorage
-      const persistedThreads = threads.filter(t => !t.isTemporary);
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(persistedThreads));
-    } catch {
-      // ignore quota/serialization errors
-    }
+    const providerType = getProviderType();
+    const apply = (state: RateLimitState) => {
+      setRateLimitedUntil(state.limitedUntil && state.limitedUntil > Date.now() ? state.limitedUntil : null);
+    };
+    apply(getRateLimitState(providerType));
+    return subscribeRateLimit((state) => {
+      if (state.provider === providerType) apply(state);
+    });
+  }, []);
+
+  // When the rate-limit window reopens, retry whatever failed while we were limited
+  React.useEffect(() => {
+    if (!rateLimitedUntil) return;
+    const timer = window.setTimeout(
+      () => {
+        setRateLimitedUntil(null);
+        console.log('🔄 Rate limit window reopened, retrying pending sync');
+        void retrySyncRef.current?.();
+      },
+      Math.max(0, rateLimitedUntil - Date.now()) + 1000,
+    );
+    return () => window.clearTimeout(timer);
+  }, [rateLimitedUntil]);
+
+  React.useEffect(() => subscribeThreadStoreWarnings(setStorageWarning), []);
+  React.useEffect(() => subscribeOutbox((entries) => setOutboxSize(entries.length)), []);
+
+  // Load the stored threads of a route once; threads already in memory win over stored copies.
+  const ensureRouteLoaded = (route: string): Promise<void> => {
+    const existing = routeLoadsRef.current.get(route);
+    if (existing) return existing;
+
+    const load = threadStore
+      .loadRoute(route)
+      .then((stored) => {
+        loadedRoutesRef.current.add(route);
+        if (!stored.length) return;
+        stored.forEach((t) => alreadyPersistedRef.current.add(t));
+        const addMissing = (prev: Thread[]) => {
+          const ids = new Set(prev.map((t) => t.id));
+          const additions = stored.filter((t) => !ids.has(t.id));
+          return additions.length ? [...prev, ...additions] : prev;
+        };
+        // threadsRef too, so an outbox replay waiting on this load finds its thread
+        threadsRef.current = addMissing(threadsRef.current);
+        setThreads(addMissing);
+      })
+      .catch((e) => {
+        console.warn(`⚠️ Failed to load stored threads for ${route}:`, e);
+        routeLoadsRef.current.delete(route);
+      });
+    routeLoadsRef.current.set(route, load);
+    return load;
+  };
+
+  // Persist threads so refreshes don't wipe pins/comments (only the ones that changed).
+  React.useEffect(() => {
+    const previous = persistedThreadsRef.current;
+    const next = new Map<string, Thread>();
+    const changed: Thread[] = [];
+    // Temporary threads are never persisted
+    threads
+      .filter((t) => !t.isTemporary)
+      .forEach((t) => {
+        next.set(t.id, t);
+        if (previous.get(t.id) !== t && !alreadyPersistedRef.current.has(t)) changed.push(t);
+      });
+    const removedIds = Array.from(previous.keys()).filter((id) => !next.has(id));
+    persistedThreadsRef.current = next;
+
+    // Other tabs merge comment by comment, so they are told which comments went away and when the thread changed
+    const now = Date.now();
+    const removedCommentIds: string[] = [];
+    changed.forEach((t) => {
+      localChangedAtRef.current.set(t.id, now);
+      const ids = new Set(t.comments.map((c) => c.id));
+      previous.get(t.id)?.comments.forEach((c) => {
+        if (!ids.has(c.id)) removedCommentIds.push(c.id);
+      });
+    });
+    removedCommentIds.forEach((id) => removedCommentIdsRef.current.add(id));
+
+    void Promise.all([threadStore.putThreads(changed), threadStore.deleteThreads(removedIds)]).then(() => {
+      if (changed.length || removedIds.length) {
+        broadcastTabSync({ type: 'threads', threads: changed, removedIds, removedCommentIds });
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [threads]);
 
+  // Merge thread changes made in other tabs. A merged copy that differs from both tabs' is persisted (and
+  // broadcast back) by the effect above like any local change.
+  React.useEffect(() => {
+    return subscribeTabSync((message, sentAt) => {
+      if (message.type !== 'threads') return;
+      message.threads.forEach((t) => alreadyPersistedRef.current.add(t));
+      message.removedCommentIds.forEach((id) => removedCommentIdsRef.current.add(id));
+      const removed = new Set(message.removedIds);
+      setThreads((prev) => {
+        const incoming = new Map(message.threads.map((t) => [t.id, t] as [string, Thread]));
+        const merged = prev
+          .filter((t) => !removed.has(t.id))
+          .map((t) => {
+            const remote = incoming.get(t.id);
+            if (!remote) return t;
+            incoming.delete(t.id);
+            const isRemoteNewer = sentAt >= (localChangedAtRef.current.get(t.id) ?? 0);
+            return mergeThreadCopies(t, remote, isRemoteNewer, removedCommentIdsRef.current);
+          });
+        // New threads only matter for routes this tab has loaded; others are read from the store later
+        incoming.forEach((t) => {
+          if (routeLoadsRef.current.has(t.route)) merged.push(t);
+        });
+        return merged;
+      });
+      if (removed.size && selectedThreadIdRef.current && removed.has(selectedThreadIdRef.current)) {
+        setSelectedThreadId(null);
+      }
+    });
+  }, []);
+
+  // Settings are plain localStorage keys, so the browser's `storage` event already reaches other tabs
+  React.useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.storageArea !== window.localStorage || event.newValue === null) return;
+      switch (event.key) {
+        case COMMENTS_ENABLED_KEY:
+          setCommentsEnabled(event.newValue === 'true');
+          break;
+        case SHOW_PINS_ENABLED_KEY:
+          setShowPinsEnabled(event.newValue === 'true');
+          break;
+        case BREAKPOINT_FILTER_KEY:
+          setBreakpointFilterEnabled(event.newValue === 'true');
+          break;
+        case HIDDEN_ISSUES_KEY:
+          hiddenIssueNumbersRef.current = readNumberSet(HIDDEN_ISSUES_KEY);
+          break;
+        default:
+          break;
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   React.useEffect(() => {
     try {
       window.localStorage.setItem(COMMENTS_ENABLED_KEY, String(commentsEnabled));
@@ -258,7 +498,32 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     }
   }, [showPinsEnabled]);
 
-  const addThread = (cssSelector: string, elementDescription: string, componentMetadata: ComponentMetadata | null, xPercent: number, yPercent: number, route: string, version?: string): string => {
+  React.useEffect(() => {
+    try {
+      window.localStorage.setItem(BREAKPOINT_FILTER_KEY, String(breakpointFilterEnabled));
+    } catch {
+      // ignore
+    }
+  }, [breakpointFilterEnabled]);
+
+  // Only re-render when the breakpoint changes, not on every resize event
+  React.useEffect(() => {
+    const onResize = () => setBreakpoint(getBreakpoint(window.innerWidth));
+    window.addEventListener('resize', onResize);
+    return () => window.removeEventListener('resize', onResize);
+  }, []);
+
+  const addThread = (
+    cssSelector: string,
+    elementDescription: string,
+    componentMetadata: ComponentMetadata | null,
+    xPercent: number,
+    yPercent: number,
+    route: string,
+    version?: string,
+    fingerprint?: ElementFingerprint,
+    anchor?: Pick<Thread, 'textAnchor' | 'region' | 'annotations'>,
+  ): string => {
     const threadId = `thread-${Date.now()}`;
     const isConfigured = adapter.isConfigured();
 
@@ -276,6 +541,9 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     const newThread: Thread = {
       id: threadId,
       cssSelector,
+      fingerprint,
+      ...anchor,
+      viewport: getViewportContext(),
       elementDescription,
       componentMetadata: componentMetadata || undefined,
       xPercent,
@@ -356,9 +624,16 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     return threadId;
   };
 
-  const parseMetadataFromIssueBody = (body: string): {
+  const parseMetadataFromIssueBody = (
+    body: string,
+  ): {
     cssSelector?: string;
     elementDescription?: string;
+    fingerprint?: ElementFingerprint;
+    textAnchor?: TextAnchor;
+    region?: RegionAnchor;
+    annotations?: AnnotationShape[];
+    viewport?: ViewportContext;
     xPercent: number;
     yPercent: number;
   } => {
@@ -393,13 +668,63 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
       }
     }
 
-    return { cssSelector, elementDescription, xPercent, yPercent };
+    // Parse Element Fingerprint (inline-code JSON)
+    const fingerprint = parseFingerprint(body.match(/Element Fingerprint:\s*`([^`]+)`/i)?.[1]);
+
+    // Parse Text Quote (inline-code JSON, comments on selected text)
+    const textAnchor = parseTextAnchor(body.match(/Text Quote:\s*`([^`]+)`/i)?.[1]);
+
+    // Parse Region (drawn rectangle, in percent of the target element)
+    const region = parseRegion(body.match(/Region:\s*`([^`]+)`/i)?.[1]);
+
+    // Parse Annotations (markup shapes, inline-code JSON)
+    const annotations = parseAnnotations(body.match(/Annotations:\s*`([^`]+)`/i)?.[1]);
+
+    // Parse Viewport (size, pixel ratio and breakpoint the thread was created at)
+    const viewport = parseViewport(body.match(/Viewport:\s*`([^`]+)`/i)?.[1]);
+
+    return {
+      cssSelector,
+      elementDescription,
+      fingerprint,
+      textAnchor,
+      region,
+      annotations,
+      viewport,
+      xPercent,
+      yPercent,
+    };
+  };
+
+  // Reactions are loaded with the comments so the panel doesn't ask for them comment by comment. GitHub's
+  // comment payload carries a `reactions` summary, so comments nobody reacted to skip the request.
+  const loadCommentReactions = async (
+    issueNumber: number,
+    rawComments: Array<{ id?: number; reactions?: { total_count?: number } }>,
+    comments: Comment[],
+  ) => {
+    if (!(adapter.supportsReactions?.() ?? false) || !adapter.fetchCommentReactions) return;
+    const fetchReactions = adapter.fetchCommentReactions.bind(adapter);
+    const totalById = new Map(rawComments.map((c) => [c?.id, c?.reactions?.total_count]));
+    await Promise.all(
+      comments.map(async (c) => {
+        if (!c.githubCommentId) return;
+        if (totalById.get(c.githubCommentId) === 0) {
+          c.reactions = [];
+          return;
+        }
+        const result = await fetchReactions(c.githubCommentId, issueNumber);
+        if (result.success && result.data) c.reactions = result.data;
+        else console.warn(`⚠️ Could not load reactions for comment ${c.githubCommentId}:`, result.error);
+      }),
+    );
   };
 
-  const syncFromGitHub = async (route: string, version?: string) => {
+  const syncRoute = async (route: string, version?: string) => {
     if (!adapter.isConfigured()) return;
 
     const key = `${route}::${version ?? ''}`;
+    syncedKeysRef.current.set(key, { route, version });
     const existing = syncInFlightByKey.current.get(key);
     if (existing) {
       console.log(`⏭️ Sync already in progress for ${key}, skipping`);
@@ -408,10 +733,13 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
 
     // Skip sync if there are threads actively syncing to prevent race conditions
     const activelySyncingThreads = threadsRef.current.filter(
-      (t) => t.route === route && (t.version ?? '1') === (version ?? '1') && t.syncStatus === 'syncing'
+      (t) => t.route === route && (t.version ?? '1') === (version ?? '1') && t.syncStatus === 'syncing',
     );
     if (activelySyncingThreads.length > 0) {
-      console.log(`⏭️ Skipping sync for ${key} - ${activelySyncingThreads.length} thread(s) actively syncing:`, activelySyncingThreads.map(t => t.id));
+      console.log(
+        `⏭️ Skipping sync for ${key} - ${activelySyncingThreads.length} thread(s) actively syncing:`,
+        activelySyncingThreads.map((t) => t.id),
+      );
       return;
     }
 
@@ -420,8 +748,20 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     const run = (async () => {
       setSyncInFlightCount((c) => c + 1);
       try {
-        const issuesResult = await adapter.fetchIssuesForRouteAndVersion(route, version);
-        if (!issuesResult.success || !issuesResult.data) return;
+        // Merge against the stored threads, not an empty route
+        await ensureRouteLoaded(route);
+        setSyncProgress({ route, version, phase: 'issues', issuesLoaded: 0, commentsLoadedFor: 0 });
+        // Incremental: after the first sync of a route, only issues updated since then are returned.
+        // Threads for unchanged issues are kept as-is by the merge below.
+        const issuesResult = await adapter.fetchIssuesForRouteAndVersion(route, version, {
+          incremental: true,
+          onProgress: ({ page, loaded }) =>
+            setSyncProgress({ route, version, phase: 'issues', issuesLoaded: loaded, commentsLoadedFor: 0, page }),
+        });
+        if (!issuesResult.success || !issuesResult.data) {
+          syncFailedKeysRef.current.add(key);
+          return;
+        }
 
         const hidden = hiddenIssueNumbersRef.current;
         const issues = issuesResult.data.filter((i: any) => {
@@ -432,6 +772,7 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
 
         // Build thread objects from GitHub issues + issue comments
         const ghThreads: Thread[] = [];
+        let commentsLoadedFor = 0;
         for (const issue of issues) {
           const issueNumber = issue?.number as number | undefined;
           const issueUrl = issue?.html_url as string | undefined;
@@ -439,36 +780,57 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
 
           const metadata = parseMetadataFromIssueBody(issue?.body || '');
 
+          setSyncProgress({ route, version, phase: 'comments', issuesLoaded: issues.length, commentsLoadedFor });
           const commentsResult = await adapter.fetchIssueComments(issueNumber);
-          const ghComments = commentsResult.success && commentsResult.data ? commentsResult.data : [];
+          commentsLoadedFor++;
+          if (!commentsResult.success) {
+            // Keep the existing thread untouched and make the next sync a full one so this issue is refetched
+            console.warn(`⚠️ Failed to fetch comments for issue #${issueNumber}:`, commentsResult.error);
+            adapter.resetIncrementalSync(route, version);
+            continue;
+          }
+          const ghComments = commentsResult.data ?? [];
 
           const mappedComments: Comment[] = (Array.isArray(ghComments) ? ghComments : []).map((c: any) => {
             const rawBody = c?.body || '';
+            // Native replies name their parent; markers still thread comments posted before that (or on GitHub)
+            const nativeParentId = typeof c?.parent_id === 'number' ? (c.parent_id as number) : undefined;
             return {
               id: `ghc-${c.id}`,
               githubCommentId: c.id,
-              parentGitHubCommentId: parseReplyParentFromGitHubBody(rawBody),
+              parentCommentId: nativeParentId ? `ghc-${nativeParentId}` : undefined,
+              parentGitHubCommentId: nativeParentId ?? parseReplyParentFromGitHubBody(rawBody),
               author: c?.user?.login,
               text: stripHaleReplyMarkers(rawBody),
               createdAt: c?.created_at || new Date().toISOString(),
+              remoteUpdatedAt: c?.updated_at || c?.created_at,
             };
           });
 
-          // Second pass: infer parent from quoted blocks when no explicit hale marker exists.
+          // Second pass: infer parent from quoted blocks when no explicit hale marker exists (GitHub-style
+          // providers only; with native replies a quote is just a quote).
           for (const c of mappedComments) {
-            if (c.parentGitHubCommentId) continue;
-            const raw = (Array.isArray(ghComments) ? ghComments : []).find((x: any) => x?.id === c.githubCommentId)?.body || '';
+            if (c.parentGitHubCommentId || hasNativeReplies()) continue;
+            const raw =
+              (Array.isArray(ghComments) ? ghComments : []).find((x: any) => x?.id === c.githubCommentId)?.body || '';
             const inferred = inferReplyParentFromQuote(raw, mappedComments);
             if (inferred && inferred !== c.githubCommentId) {
               c.parentGitHubCommentId = inferred;
             }
           }
 
+          await loadCommentReactions(issueNumber, Array.isArray(ghComments) ? ghComments : [], mappedComments);
+
           ghThreads.push({
             id: `gh-${issueNumber}`,
             route,
             version,
             cssSelector: metadata.cssSelector,
+            fingerprint: metadata.fingerprint,
+            textAnchor: metadata.textAnchor,
+            region: metadata.region,
+            annotations: metadata.annotations,
+            viewport: metadata.viewport,
             elementDescription: metadata.elementDescription,
             xPercent: metadata.xPercent,
             yPercent: metadata.yPercent,
@@ -481,6 +843,8 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
           });
         }
 
+        const queuedOps = readOutbox().map((e) => e.op);
+
         // Merge: keep local-only comments (those without githubCommentId)
         setThreads((prev) => {
           const prevByIssue = new Map<number, Thread>();
@@ -493,19 +857,80 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
             if (!existing) return gt;
 
             const localOnly = existing.comments.filter((c) => !c.githubCommentId);
-            const mergedComments = [...gt.comments, ...localOnly];
+            const localByGitHubId = new Map(
+              existing.comments
+                .filter((c) => c.githubCommentId)
+                .map((c) => [c.githubCommentId, c] as [number, Comment]),
+            );
+
+            // Local changes still queued in the outbox win over what the provider returned
+            const queued = queuedOps.filter((op) => op.threadId === existing.id);
+            const editedIds = new Set<string>();
+            const deletedGitHubIds = new Set<number>();
+            queued.forEach((op) => {
+              if (op.type === 'updateComment') editedIds.add(op.commentId);
+              if (op.type === 'deleteComment') deletedGitHubIds.add(op.githubCommentId);
+            });
+            const hasQueuedStateChange = queued.some((op) => op.type === 'closeIssue' || op.type === 'reopenIssue');
+
+            const remoteComments = gt.comments
+              .filter((c) => !deletedGitHubIds.has(c.githubCommentId as number))
+              .map((c) => {
+                const local = localByGitHubId.get(c.githubCommentId as number);
+                if (!local) return c;
+                // Keep local ids stable so selections and queued operations keep pointing at the comment
+                const kept = {
+                  ...c,
+                  id: local.id,
+                  parentCommentId: local.parentCommentId ?? c.parentCommentId,
+                  reactions: c.reactions ?? local.reactions, // reactions that failed to load stay as they were
+                };
+                if (!editedIds.has(local.id) && !local.conflict) return kept;
+                if (c.text === local.text) return { ...kept, conflict: undefined };
+                // Unsent local edit: keep it, and flag a conflict if the remote copy moved since we last saw it
+                return {
+                  ...kept,
+                  text: local.text,
+                  remoteUpdatedAt: local.remoteUpdatedAt,
+                  conflict: isNewerRemoteVersion(c.remoteUpdatedAt, local.remoteUpdatedAt)
+                    ? { remoteText: c.text, remoteUpdatedAt: c.remoteUpdatedAt }
+                    : local.conflict,
+                };
+              });
+            // Native reply parents point at remote ids; follow them to the ids kept above
+            const idByGitHubId = new Map(
+              remoteComments.filter((c) => c.githubCommentId).map((c) => [c.githubCommentId, c.id] as [number, string]),
+            );
+            const mergedComments = [
+              ...remoteComments.map((c) =>
+                c.parentGitHubCommentId && c.parentCommentId === `ghc-${c.parentGitHubCommentId}`
+                  ? { ...c, parentCommentId: idByGitHubId.get(c.parentGitHubCommentId) ?? c.parentCommentId }
+                  : c,
+              ),
+              ...localOnly,
+            ];
+            const hasConflict = mergedComments.some((c) => c.conflict);
 
             return {
               ...gt,
+              id: existing.id, // threads created here keep their local id once their issue shows up
               version: gt.version ?? existing.version,
+              fingerprint: gt.fingerprint ?? existing.fingerprint,
+              textAnchor: gt.textAnchor ?? existing.textAnchor,
+              region: gt.region ?? existing.region,
+              annotations: gt.annotations ?? existing.annotations,
+              viewport: gt.viewport ?? existing.viewport,
               xPercent: gt.xPercent || existing.xPercent,
               yPercent: gt.yPercent || existing.yPercent,
               comments: mergedComments,
+              status: hasQueuedStateChange ? existing.status : gt.status,
+              syncStatus: hasConflict ? 'error' : queued.length ? existing.syncStatus : gt.syncStatus,
+              syncError: hasConflict ? EDIT_CONFLICT_MESSAGE : queued.length ? existing.syncError : undefined,
             };
           });
 
           // Track which issue numbers were returned from GitHub
-          const githubIssueNumbers = new Set(ghThreads.map(gt => gt.issueNumber).filter((n): n is number => !!n));
+          const githubIssueNumbers = new Set(ghThreads.map((gt) => gt.issueNumber).filter((n): n is number => !!n));
 
           // Keep local threads on this route/version that:
           // 1. Don't have an issueNumber yet, OR
@@ -520,7 +945,7 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
 
           // Remove duplicates: if a thread is both in localUnlinked and merged, prefer the merged version
           const localUnlinkedDeduped = localUnlinked.filter(
-            (local) => !merged.some((m) => m.issueNumber && m.issueNumber === local.issueNumber)
+            (local) => !merged.some((m) => m.issueNumber && m.issueNumber === local.issueNumber),
           );
 
           // Preserve threads from other routes/versions unchanged.
@@ -533,13 +958,15 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
             localUnlinkedDeduped: localUnlinkedDeduped.length,
             other: other.length,
             total: other.length + localUnlinkedDeduped.length + merged.length,
-            previousTotal: prev.length
+            previousTotal: prev.length,
           });
 
           return [...other, ...localUnlinkedDeduped, ...merged];
         });
+        syncFailedKeysRef.current.delete(key);
       } finally {
         setSyncInFlightCount((c) => Math.max(0, c - 1));
+        setSyncProgress((p) => (p && p.route === route && p.version === version ? null : p));
         syncInFlightByKey.current.delete(key);
       }
     })();
@@ -548,17 +975,530 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     return run;
   };
 
+  // Entry point for the UI (route changes, entering comment mode)
+  const syncFromGitHub = (route: string, version?: string) => {
+    activeRouteRef.current = { route, version };
+    return syncRoute(route, version);
+  };
+
+  const syncRouteRef = React.useRef(syncRoute);
+  syncRouteRef.current = syncRoute;
+
+  // Background polling of the active route while pins are visible. Paused while the tab is hidden,
+  // delayed while the provider rate-limits us, and backed off exponentially after failed syncs.
+  React.useEffect(() => {
+    const intervalMs = getSyncPollIntervalMs();
+    if (!intervalMs || (!commentsEnabled && !showPinsEnabled)) return;
+
+    let timer: number | undefined;
+    let failures = 0;
+    let pollsSinceFullSync = 0;
+    let lastPollAt = Date.now();
+    let cancelled = false;
+    const isHidden = () => document.visibilityState === 'hidden';
+
+    const schedule = (delay: number) => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => void poll(), delay);
+    };
+
+    const poll = async () => {
+      timer = undefined;
+      if (cancelled || isHidden()) return;
+
+      const limitedUntil = getRateLimitState(getProviderType()).limitedUntil;
+      if (limitedUntil && limitedUntil > Date.now()) {
+        schedule(limitedUntil - Date.now() + 1000);
+        return;
+      }
+
+      const active = activeRouteRef.current;
+      lastPollAt = Date.now();
+      if (active) {
+        try {
+          // Incremental syncs miss changes that leave updated_at alone (GitHub reactions): go full now and then
+          pollsSinceFullSync++;
+          if (pollsSinceFullSync >= FULL_RESYNC_EVERY_POLLS) {
+            getProviderAdapter().resetIncrementalSync(active.route, active.version);
+            pollsSinceFullSync = 0;
+          }
+          // Joins a sync that is already running for this route/version (syncInFlightByKey)
+          await syncRouteRef.current(active.route, active.version);
+          failures = syncFailedKeysRef.current.has(`${active.route}::${active.version ?? ''}`) ? failures + 1 : 0;
+        } catch (e) {
+          console.warn('⚠️ Background sync failed:', e);
+          failures++;
+        }
+      }
+      if (!cancelled && !isHidden()) schedule(getPollDelayMs(intervalMs, failures));
+    };
+
+    const onVisibilityChange = () => {
+      if (isHidden()) {
+        window.clearTimeout(timer);
+        timer = undefined;
+        return;
+      }
+      // Catch up right away if a poll came due while hidden
+      schedule(Math.max(0, lastPollAt + getPollDelayMs(intervalMs, failures) - Date.now()));
+    };
+
+    schedule(getPollDelayMs(intervalMs, failures));
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [commentsEnabled, showPinsEnabled]);
+
+  // Re-sync the synced routes a batch of pushed changes touches. A deleted comment doesn't always
+  // bump its issue's updated_at, so deletions force a full (non-incremental) fetch.
+  const syncFromEvents = (events: CommentEvent[]) => {
+    const routes = new Set<string>();
+    events.forEach((event) => {
+      if (event.route) routes.add(event.route);
+      threadsRef.current.filter((t) => t.issueNumber === event.issueNumber).forEach((t) => routes.add(t.route));
+    });
+    const needsFullSync = events.some((e) => e.kind === 'comment' && e.action === 'deleted');
+
+    syncedKeysRef.current.forEach(({ route, version }) => {
+      if (!routes.has(route)) return;
+      if (needsFullSync) adapter.resetIncrementalSync(route, version);
+      void syncRoute(route, version);
+    });
+  };
+
+  const syncFromEventsRef = React.useRef(syncFromEvents);
+  syncFromEventsRef.current = syncFromEvents;
+
+  // Live updates from the optional comment events stream (webhook relay on the dev server)
+  React.useEffect(() => {
+    let batch: CommentEvent[] = [];
+    let timer: number | undefined;
+    const unsubscribe = subscribeCommentEvents((event) => {
+      console.log(`📡 Remote ${event.kind} ${event.action ?? 'change'} on #${event.issueNumber}`);
+      batch.push(event);
+      // Providers send bursts (issue + comment + label hooks); sync once per burst
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        const events = batch;
+        batch = [];
+        syncFromEventsRef.current(events);
+      }, 500);
+    });
+    return () => {
+      unsubscribe();
+      window.clearTimeout(timer);
+    };
+  }, []);
+
+  // Apply a change to state and to threadsRef right away, so an outbox replay started in the same tick sees it
+  const updateThreads = (updater: (prev: Thread[]) => Thread[]) => {
+    threadsRef.current = updater(threadsRef.current);
+    setThreads(updater);
+  };
+
+  const patchThread = (threadId: string, patch: Partial<Thread> | ((t: Thread) => Thread)) => {
+    updateThreads((prev) =>
+      prev.map((t) => (t.id === threadId ? (typeof patch === 'function' ? patch(t) : { ...t, ...patch }) : t)),
+    );
+  };
+
+  const patchComment = (threadId: string, commentId: string, patch: Partial<Comment>) => {
+    patchThread(threadId, (t) => ({
+      ...t,
+      comments: t.comments.map((c) => (c.id === commentId ? { ...c, ...patch } : c)),
+    }));
+  };
+
+  const findThread = (threadId: string) => threadsRef.current.find((t) => t.id === threadId);
+
+  const hideIssue = (issueNumber: number) => {
+    hiddenIssueNumbersRef.current.add(issueNumber);
+    writeNumberSet(HIDDEN_ISSUES_KEY, hiddenIssueNumbersRef.current);
+  };
+
+  type ReplayOutcome = { status: 'done' } | { status: 'conflict' | 'retry'; error: string };
+  const DONE: ReplayOutcome = { status: 'done' };
+  // Failures are retried; only a target confirmed to be gone (see below) ends an operation without sending it
+  const failed = (result: ProviderResult, fallback: string): ReplayOutcome => ({
+    status: 'retry',
+    error: result.error || fallback,
+  });
+  // A thread or comment missing locally is only gone once its route's stored threads were read; until then it may
+  // just not be loaded yet
+  const missingLocally = (op: OutboxOperation): ReplayOutcome =>
+    loadedRoutesRef.current.has(op.route)
+      ? DONE
+      : { status: 'retry', error: 'Saved comments for this page could not be loaded' };
+
+  // After a 404 on a comment: gone only if its issue can still be listed and the comment isn't in it
+  // (a 404 for the whole repository means no access or a wrong owner/repo, not a deleted comment)
+  const isCommentGone = async (issueNumber: number | undefined, githubCommentId: number): Promise<boolean> => {
+    if (!issueNumber) return false;
+    const res = await adapter.fetchIssueComments(issueNumber);
+    return res.success && !(res.data ?? []).some((c: { id?: number }) => c?.id === githubCommentId);
+  };
+
+  // After a 404 on an issue: gone only when the provider reports it deleted (410); a plain 404 stays retryable
+  const isIssueGone = async (issueNumber: number): Promise<boolean> => {
+    const res = await adapter.fetchIssueComments(issueNumber);
+    return !res.success && res.status === 410;
+  };
+
+  // Store the thread's markup as an SVG in the repository so the issue can show it; the shapes themselves
+  // always go into the issue metadata, so the issue is still created if this fails
+  const uploadAnnotations = async (thread: Thread): Promise<string | undefined> => {
+    if (thread.annotationsUrl) return thread.annotationsUrl;
+    const element = resolveElementAnchor(thread).element;
+    const rect = element?.getBoundingClientRect();
+    const svg = renderAnnotationsSvg(
+      thread.annotations || [],
+      rect ? { width: rect.width, height: rect.height } : null,
+    );
+    const res = await adapter.putRepoFile({
+      path: `${ANNOTATIONS_DIR}/${thread.id}.svg`,
+      text: svg,
+      message: `Add markup for feedback on ${thread.route}`,
+    });
+    if (!res.success || !res.data?.url) {
+      console.warn('⚠️ Could not upload markup image, the issue will only list the shapes:', res.error);
+      return undefined;
+    }
+    // Remember it so a retried issue creation doesn't try to create the same file again
+    patchThread(thread.id, { annotationsUrl: res.data.url });
+    return res.data.url;
+  };
+
+  // Upload the element screenshot taken when the thread was created; like the markup it's optional
+  const uploadScreenshot = async (thread: Thread): Promise<string | undefined> => {
+    if (thread.screenshotUrl) return thread.screenshotUrl;
+    const file = thread.screenshot ? parseDataUrl(thread.screenshot) : null;
+    if (!file || !adapter.uploadAttachment) return undefined;
+    const res = await adapter.uploadAttachment({
+      filename: `screenshot-${thread.id}.png`,
+      ...file,
+      message: `Add screenshot for feedback on ${thread.route}`,
+    });
+    if (!res.success || !res.data) {
+      console.warn('⚠️ Could not upload element screenshot, the issue will be created without it:', res.error);
+      return undefined;
+    }
+    // The data URL is only needed until it's uploaded
+    patchThread(thread.id, { screenshot: undefined, screenshotUrl: res.data.url });
+    return res.data.url;
+  };
+
+  // Send one outbox operation, reading the thread's current state (latest text, resolved ids)
+  const replayOperation = async (op: OutboxOperation): Promise<ReplayOutcome> => {
+    const thread = findThread(op.threadId);
+
+    switch (op.type) {
+      case 'createIssue': {
+        if (!thread) return missingLocally(op);
+        if (thread.issueNumber) return DONE;
+        patchThread(op.threadId, { syncStatus: 'syncing', syncError: undefined });
+        const intro = thread.textAnchor
+          ? `Thread created on the text:\n\n${thread.textAnchor.quote.exact.replace(/^/gm, '> ')}`
+          : `Thread created from ${thread.region ? 'a region drawn' : 'pin'}${thread.elementDescription ? ` on ${thread.elementDescription}` : ''}.`;
+        const screenshotUrl = await uploadScreenshot(thread);
+        const markupUrl = thread.annotations?.length ? await uploadAnnotations(thread) : undefined;
+        const body = [
+          intro,
+          screenshotUrl && `![Screenshot of ${thread.elementDescription || 'the element'}](${screenshotUrl})`,
+          markupUrl && `![Markup](${markupUrl})`,
+        ]
+          .filter(Boolean)
+          .join('\n\n');
+        const created = await adapter.createIssue({
+          title: `Feedback: ${thread.route}`,
+          body,
+          route: thread.route,
+          cssSelector: thread.cssSelector,
+          elementDescription: thread.elementDescription,
+          fingerprint: thread.fingerprint,
+          textAnchor: thread.textAnchor,
+          region: thread.region,
+          annotations: thread.annotations,
+          viewport: thread.viewport,
+          xPercent: thread.xPercent,
+          yPercent: thread.yPercent,
+          version: thread.version,
+        });
+        if (!created.success || !created.data?.number) return failed(created, 'Failed to create issue');
+
+        const { number, html_url } = created.data;
+        if (!findThread(op.threadId)) {
+          // The pin was removed while its issue was being created: close it and keep it out of future syncs
+          hideIssue(number);
+          enqueueOperation(
+            { type: 'closeIssue', threadId: op.threadId, route: op.route, issueNumber: number },
+            getProviderType(),
+          );
+          return DONE;
+        }
+        // A screenshot that couldn't be uploaded isn't worth keeping around
+        patchThread(op.threadId, { issueNumber: number, issueUrl: html_url, screenshot: undefined });
+        return DONE;
+      }
+
+      case 'createComment': {
+        const comment = thread?.comments.find((c) => c.id === op.commentId);
+        if (!thread || !comment) return missingLocally(op);
+        if (comment.githubCommentId) return DONE;
+        if (!thread.issueNumber) {
+          const issueOutcome = await replayOperation({ type: 'createIssue', threadId: op.threadId, route: op.route });
+          if (issueOutcome.status !== 'done') return issueOutcome;
+          return replayOperation(op);
+        }
+
+        // Parents are queued before their replies, so the parent's provider id is known by now
+        const parent = comment.parentCommentId
+          ? thread.comments.find((c) => c.id === comment.parentCommentId)
+          : undefined;
+        patchThread(op.threadId, { syncStatus: 'syncing', syncError: undefined });
+        const res = await adapter.createComment(
+          thread.issueNumber,
+          buildGitHubReplyBody(comment.text, parent),
+          parent?.githubCommentId,
+        );
+        if (!res.success || !res.data?.id) return failed(res, 'Failed to create comment');
+
+        const newId = res.data.id as number;
+        const current = findThread(op.threadId)?.comments.find((c) => c.id === op.commentId);
+        if (!current) {
+          // Deleted locally while the request was in flight
+          enqueueOperation(
+            { ...op, type: 'deleteComment', githubCommentId: newId, issueNumber: thread.issueNumber },
+            getProviderType(),
+          );
+          return DONE;
+        }
+        patchThread(op.threadId, (t) => ({
+          ...t,
+          comments: t.comments.map((c) =>
+            c.id === op.commentId
+              ? {
+                  ...c,
+                  githubCommentId: newId,
+                  parentGitHubCommentId: parent?.githubCommentId,
+                  remoteUpdatedAt: res.data.updated_at || res.data.created_at,
+                }
+              : c,
+          ),
+        }));
+        // Edited while the request was in flight
+        if (current.text !== comment.text) enqueueOperation({ ...op, type: 'updateComment' }, getProviderType());
+        return DONE;
+      }
+
+      case 'updateComment': {
+        const comment = thread?.comments.find((c) => c.id === op.commentId);
+        if (!thread || !comment) return missingLocally(op);
+        if (!comment.githubCommentId) return replayOperation({ ...op, type: 'createComment' });
+
+        const deletedRemotely: ReplayOutcome = {
+          status: 'conflict',
+          error: 'This comment was deleted by someone else; your edit was not saved remotely.',
+        };
+        if (comment.conflict) return { status: 'conflict', error: EDIT_CONFLICT_MESSAGE };
+
+        patchThread(op.threadId, { syncStatus: 'syncing', syncError: undefined });
+
+        // Compare against the version our edit started from, so we never silently overwrite someone else's edit
+        if (comment.remoteUpdatedAt && thread.issueNumber) {
+          const remoteResult = await adapter.fetchIssueComments(thread.issueNumber);
+          if (!remoteResult.success) return failed(remoteResult, 'Failed to check for conflicting edits');
+          const remote = (remoteResult.data ?? []).find((c: any) => c?.id === comment.githubCommentId);
+          if (!remote) return deletedRemotely;
+
+          const remoteText = stripHaleReplyMarkers(remote.body || '');
+          const remoteUpdatedAt: string | undefined = remote.updated_at;
+          if (isNewerRemoteVersion(remoteUpdatedAt, comment.remoteUpdatedAt) && remoteText !== comment.text) {
+            patchComment(op.threadId, op.commentId, { conflict: { remoteText, remoteUpdatedAt } });
+            return { status: 'conflict', error: EDIT_CONFLICT_MESSAGE };
+          }
+        }
+
+        const parent = comment.parentCommentId
+          ? thread.comments.find((c) => c.id === comment.parentCommentId)
+          : undefined;
+        const res = await adapter.updateComment(
+          comment.githubCommentId,
+          buildGitHubReplyBody(comment.text, parent),
+          thread.issueNumber,
+        );
+        if (!res.success) {
+          if (isNotFoundStatus(res.status) && (await isCommentGone(thread.issueNumber, comment.githubCommentId))) {
+            return deletedRemotely;
+          }
+          return failed(res, 'Failed to update comment');
+        }
+        if (res.data?.updated_at) patchComment(op.threadId, op.commentId, { remoteUpdatedAt: res.data.updated_at });
+        return DONE;
+      }
+
+      case 'deleteComment': {
+        const res = await adapter.deleteComment(op.githubCommentId, op.issueNumber);
+        if (!res.success) {
+          // Already gone remotely is what we wanted
+          if (isNotFoundStatus(res.status) && (await isCommentGone(op.issueNumber, op.githubCommentId))) return DONE;
+          return failed(res, 'Failed to delete comment');
+        }
+        return DONE;
+      }
+
+      case 'closeIssue':
+      case 'reopenIssue': {
+        let issueNumber = op.issueNumber ?? thread?.issueNumber;
+        if (!issueNumber) {
+          // Nothing to close/reopen remotely until the thread has a comment (and therefore an issue)
+          if (!thread) return missingLocally(op);
+          if (!thread.comments.length) return DONE;
+          const issueOutcome = await replayOperation({ type: 'createIssue', threadId: op.threadId, route: op.route });
+          if (issueOutcome.status !== 'done') return issueOutcome;
+          issueNumber = findThread(op.threadId)?.issueNumber;
+          if (!issueNumber) return DONE;
+        }
+
+        if (thread) patchThread(op.threadId, { syncStatus: 'syncing', syncError: undefined });
+        const res =
+          op.type === 'closeIssue' ? await adapter.closeIssue(issueNumber) : await adapter.reopenIssue(issueNumber);
+        if (!res.success) {
+          if (isNotFoundStatus(res.status) && (await isIssueGone(issueNumber))) {
+            return { status: 'conflict', error: 'This issue was deleted on the provider.' };
+          }
+          return failed(res, `Failed to ${op.type === 'closeIssue' ? 'close' : 'reopen'} issue`);
+        }
+        return DONE;
+      }
+
+      default:
+        return DONE;
+    }
+  };
+
+  const flushInFlightRef = React.useRef<Promise<void> | null>(null);
+  const outboxRetryTimerRef = React.useRef<number | null>(null);
+
+  // Wake up when the earliest backed-off entry is due (replay also runs on online/visible/new operations)
+  const scheduleOutboxRetry = () => {
+    if (outboxRetryTimerRef.current !== null) window.clearTimeout(outboxRetryTimerRef.current);
+    outboxRetryTimerRef.current = null;
+    const nextAt = getNextRetryAt(readOutbox(), getProviderType());
+    if (nextAt === null) return;
+    outboxRetryTimerRef.current = window.setTimeout(
+      () => {
+        outboxRetryTimerRef.current = null;
+        void flushOutboxRef.current();
+      },
+      Math.max(0, nextAt - Date.now()),
+    );
+  };
+
+  // Replay the outbox for the active provider. Each thread's operations stay in order: a failing entry holds up
+  // later entries of its own thread only, is retried with backoff and marked failed after MAX_ATTEMPTS.
+  // Entries whose remote target is confirmed gone are dropped and reported on the thread.
+  const flushOutbox = (): Promise<void> => {
+    if (flushInFlightRef.current) return flushInFlightRef.current;
+    if (!adapter.isConfigured() || !readOutbox().length) return Promise.resolve();
+    const providerType = getProviderType();
+
+    const run = withOutboxLock(async () => {
+      for (;;) {
+        const entry = nextReadyEntry(readOutbox(), providerType);
+        if (!entry) break;
+
+        await ensureRouteLoaded(entry.op.route);
+        let outcome: ReplayOutcome;
+        try {
+          outcome = await replayOperation(entry.op);
+        } catch (e: any) {
+          outcome = { status: 'retry', error: e?.message || 'Sync failed' };
+        }
+
+        if (outcome.status === 'retry') {
+          const updated = recordFailedAttempt(entry.id, outcome.error);
+          if (updated?.failed) {
+            console.warn(
+              `❌ Gave up on ${entry.op.type} for ${entry.op.threadId} after ${MAX_ATTEMPTS} attempts:`,
+              outcome.error,
+            );
+            patchThread(entry.op.threadId, { syncStatus: 'error', syncError: outcome.error });
+          } else {
+            const delay = Math.round(getRetryDelayMs(updated?.attempts ?? 1) / 1000);
+            console.warn(`⏸️ ${entry.op.type} for ${entry.op.threadId} failed, retrying in ${delay}s:`, outcome.error);
+            patchThread(entry.op.threadId, { syncStatus: 'pending', syncError: outcome.error });
+          }
+          continue;
+        }
+
+        completeEntry(entry.id);
+        if (outcome.status === 'conflict') {
+          console.warn(`⚠️ Dropped ${entry.op.type} for ${entry.op.threadId}:`, outcome.error);
+          patchThread(entry.op.threadId, { syncStatus: 'error', syncError: outcome.error });
+        } else if (!hasQueuedOperations(entry.op.threadId)) {
+          patchThread(entry.op.threadId, (t) =>
+            t.syncStatus === 'error' ? t : { ...t, syncStatus: 'synced', syncError: undefined },
+          );
+        }
+      }
+    }).finally(() => {
+      flushInFlightRef.current = null;
+      scheduleOutboxRetry();
+    });
+
+    flushInFlightRef.current = run;
+    return run;
+  };
+
+  // Listeners registered once call the latest flushOutbox (it closes over the current adapter)
+  const flushOutboxRef = React.useRef(flushOutbox);
+  flushOutboxRef.current = flushOutbox;
+
+  const queueOperation = (op: OutboxOperation) => {
+    enqueueOperation(op, getProviderType());
+    patchThread(op.threadId, { syncStatus: 'pending' });
+    void flushOutbox();
+  };
+
+  // Replay when the app starts (e.g. back from an OAuth redirect) and whenever connectivity returns
+  React.useEffect(() => {
+    // One-time migration of the pre-outbox pending-close set
+    const legacyPendingCloses = readNumberSet(LEGACY_PENDING_CLOSE_ISSUES_KEY);
+    legacyPendingCloses.forEach((issueNumber) =>
+      enqueueOperation(
+        { type: 'closeIssue', threadId: `gh-${issueNumber}`, route: '', issueNumber },
+        getProviderType(),
+      ),
+    );
+    if (legacyPendingCloses.size) window.localStorage.removeItem(LEGACY_PENDING_CLOSE_ISSUES_KEY);
+
+    void flushOutboxRef.current();
+    const onOnline = () => void flushOutboxRef.current();
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') void flushOutboxRef.current();
+    };
+    window.addEventListener('online', onOnline);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      document.removeEventListener('visibilitychange', onVisible);
+      if (outboxRetryTimerRef.current !== null) window.clearTimeout(outboxRetryTimerRef.current);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const addReply = (threadId: string, text: string, parentCommentId?: string) => {
     const author = getStoredUser()?.login;
     const createdAt = new Date().toISOString();
     const localCommentId = `comment-${Date.now()}`;
     const threadSnapshot = threadsRef.current.find((t) => t.id === threadId);
-    const parent = parentCommentId
-      ? threadSnapshot?.comments.find((c) => c.id === parentCommentId)
-      : undefined;
+    const parent = parentCommentId ? threadSnapshot?.comments.find((c) => c.id === parentCommentId) : undefined;
 
     // Optimistically add locally
-    setThreads((prev) =>
+    updateThreads((prev) =>
       prev.map((thread) => {
         if (thread.id !== threadId) return thread;
         const newComment: Comment = {
@@ -577,204 +1517,34 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
       }),
     );
 
-    // Background sync to GitHub issue comments (if available)
-    const thread = threadsRef.current.find((t) => t.id === threadId);
-    const issueNumber = thread?.issueNumber;
-
-    if (!adapter.isConfigured() || !thread) return;
-
-    // If the thread hasn't finished creating its issue yet, create it now, then backfill any local-only comments.
-    const ensureIssueAndBackfill = async () => {
-      try {
-        setThreads((prev) =>
-          prev.map((t) => (t.id === threadId ? { ...t, syncStatus: 'syncing', syncError: undefined } : t)),
-        );
-
-        let ensuredIssueNumber = thread.issueNumber;
-        let ensuredIssueUrl = thread.issueUrl;
-
-        if (!ensuredIssueNumber) {
-          const created = await adapter.createIssue({
-            title: `Feedback: ${thread.route}`,
-            body: `Thread created from pin${thread.elementDescription ? ` on ${thread.elementDescription}` : ''}.`,
-            route: thread.route,
-            cssSelector: thread.cssSelector,
-            elementDescription: thread.elementDescription,
-            xPercent: thread.xPercent,
-            yPercent: thread.yPercent,
-            version: thread.version,
-          });
-
-          if (!created.success || !created.data?.number) {
-            throw new Error(created.error || 'Failed to create issue');
-          }
-
-          ensuredIssueNumber = created.data.number;
-          ensuredIssueUrl = created.data.html_url;
-
-          setThreads((prev) =>
-            prev.map((t) =>
-              t.id === threadId
-                ? {
-                    ...t,
-                    issueNumber: ensuredIssueNumber,
-                    issueUrl: ensuredIssueUrl,
-                    syncStatus: 'syncing', // Keep syncing while backfilling comments
-                    syncError: undefined,
-                  }
-                : t,
-            ),
-          );
-        }
-
-        // Backfill all comments that don't yet have a GitHub comment id (including the one we just added),
-        // ensuring parents are synced before children so replies can reference a parent GitHub comment id.
-        const latest = threadsRef.current.find((t) => t.id === threadId);
-        const comments = latest?.comments || [];
-        const pending = comments.filter((c) => !c.githubCommentId);
-        const pendingIds = new Set(pending.map((c) => c.id));
-
-        const createdGitHubIdsByLocalId = new Map<string, number>();
-
-        const canSync = (c: Comment) => {
-          if (!c.parentCommentId) return true;
-          const parent = comments.find((pc) => pc.id === c.parentCommentId);
-          if (!parent) return true;
-          if (parent.githubCommentId) return true;
-          if (createdGitHubIdsByLocalId.has(parent.id)) return true;
-          // if parent isn't pending, nothing we can do
-          if (!pendingIds.has(parent.id)) return true;
-          return false;
-        };
-
-        const queue = [...pending];
-        let guard = 0;
-        while (queue.length > 0 && guard < 10000) {
-          guard++;
-          const idx = queue.findIndex(canSync);
-          if (idx === -1) break;
-          const c = queue.splice(idx, 1)[0];
-
-          const parentForBody = c.parentCommentId ? comments.find((pc) => pc.id === c.parentCommentId) : undefined;
-          const resolvedParentGitHubId =
-            parentForBody?.githubCommentId ?? (parentForBody ? createdGitHubIdsByLocalId.get(parentForBody.id) : undefined);
-
-          // keep local linkage for display; set parentGitHubCommentId once we know it
-          if (c.parentCommentId && resolvedParentGitHubId) {
-            setThreads((prev) =>
-              prev.map((t) => {
-                if (t.id !== threadId) return t;
-                return {
-                  ...t,
-                  comments: t.comments.map((cc) =>
-                    cc.id === c.id ? { ...cc, parentGitHubCommentId: resolvedParentGitHubId } : cc,
-                  ),
-                };
-              }),
-            );
-          }
-
-          const body = buildGitHubReplyBody(c.text, resolvedParentGitHubId ? { ...parentForBody, githubCommentId: resolvedParentGitHubId } : parentForBody);
-          const res = await adapter.createComment(ensuredIssueNumber!, body);
-          if (!res.success || !res.data?.id) {
-            throw new Error(res.error || 'Failed to create GitHub comment');
-          }
-          const newId = res.data.id as number;
-          createdGitHubIdsByLocalId.set(c.id, newId);
-          setThreads((prev) =>
-            prev.map((t) => {
-              if (t.id !== threadId) return t;
-              return {
-                ...t,
-                comments: t.comments.map((cc) => (cc.id === c.id ? { ...cc, githubCommentId: newId } : cc)),
-              };
-            }),
-          );
-        }
-
-        setThreads((prev) =>
-          prev.map((t) => (t.id === threadId ? { ...t, syncStatus: 'synced', syncError: undefined } : t)),
-        );
-      } catch (e: any) {
-        setThreads((prev) =>
-          prev.map((t) =>
-            t.id === threadId
-              ? { ...t, syncStatus: 'pending', syncError: e?.message || 'Failed to sync reply' }
-              : t,
-          ),
-        );
-      }
-    };
-
-    if (issueNumber) {
-      // If replying to a parent that hasn't synced to GitHub yet, backfill first so we can preserve threading markers.
-      if (parentCommentId && parent && !parent.githubCommentId) {
-        void ensureIssueAndBackfill();
-        return;
-      }
-
-      const body = buildGitHubReplyBody(text, parent);
-      adapter
-        .createComment(issueNumber, body)
-        .then((result) => {
-          if (!result.success) throw new Error(result.error || 'Failed to create GitHub comment');
-          const githubCommentId = result.data?.id as number | undefined;
-          if (!githubCommentId) throw new Error('No GitHub comment id returned');
+    if (!adapter.isConfigured() || !threadSnapshot) return;
 
-          setThreads((prev) =>
-            prev.map((t) => {
-              if (t.id !== threadId) return t;
-              return {
-                ...t,
-                syncStatus: 'synced',
-                syncError: undefined,
-                comments: t.comments.map((c) =>
-                  c.id === localCommentId ? { ...c, githubCommentId } : c,
-                ),
-              };
-            }),
-          );
-        })
-        .catch(() => ensureIssueAndBackfill());
-    } else {
-      void ensureIssueAndBackfill();
+    // The issue is created on the first comment; the outbox keeps both in order until they succeed
+    if (!threadSnapshot.issueNumber) {
+      queueOperation({ type: 'createIssue', threadId, route: threadSnapshot.route });
     }
+    queueOperation({ type: 'createComment', threadId, route: threadSnapshot.route, commentId: localCommentId });
   };
 
   const updateComment = (threadId: string, commentId: string, text: string) => {
     const thread = threadsRef.current.find((t) => t.id === threadId);
-    const issueNumber = thread?.issueNumber;
     const existingComment = thread?.comments.find((c) => c.id === commentId);
-    const githubCommentId = existingComment?.githubCommentId;
 
-    setThreads((prev) =>
+    updateThreads((prev) =>
       prev.map((thread) => {
         if (thread.id === threadId) {
           return {
             ...thread,
-            comments: thread.comments.map((comment) =>
-              comment.id === commentId ? { ...comment, text } : comment,
-            ),
+            comments: thread.comments.map((comment) => (comment.id === commentId ? { ...comment, text } : comment)),
           };
         }
         return thread;
       }),
     );
 
-    if (adapter.isConfigured() && issueNumber && githubCommentId) {
-      adapter.updateComment(githubCommentId, text).then((result) => {
-        if (result.success) {
-          setThreads((prev) =>
-            prev.map((t) => (t.id === threadId ? { ...t, syncStatus: 'synced', syncError: undefined } : t)),
-          );
-          return;
-        }
-        setThreads((prev) =>
-          prev.map((t) =>
-            t.id === threadId ? { ...t, syncStatus: 'pending', syncError: result.error || 'Failed to update comment' } : t,
-          ),
-        );
-      });
+    // Comments that haven't reached the provider yet are sent with their latest text by their queued create
+    if (adapter.isConfigured() && thread && existingComment?.githubCommentId) {
+      queueOperation({ type: 'updateComment', threadId, route: thread.route, commentId });
     }
   };
 
@@ -794,7 +1564,7 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     });
 
     // Remove from local state immediately (optimistic delete)
-    setThreads((prev) =>
+    updateThreads((prev) =>
       prev.map((thread) => {
         if (thread.id === threadId) {
           return {
@@ -806,136 +1576,45 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
       }),
     );
 
-    // Attempt GitHub deletion if applicable
-    if (adapter.isConfigured() && issueNumber && githubCommentId) {
-      console.log(`🔵 Attempting to delete GitHub comment #${githubCommentId} on issue #${issueNumber}`);
-
-      adapter.deleteComment(githubCommentId).then((result) => {
-        if (result.success) {
-          console.log(`✅ Successfully deleted GitHub comment #${githubCommentId}`);
-          setThreads((prev) =>
-            prev.map((t) => (t.id === threadId ? { ...t, syncStatus: 'synced', syncError: undefined } : t)),
-          );
-          return;
-        }
-
-        console.error(`❌ Failed to delete GitHub comment #${githubCommentId}:`, result.error);
-
-        // Restore comment if delete failed
-        if (existingComment) {
-          console.warn(`⚠️ Restoring comment locally due to GitHub deletion failure`);
-          setThreads((prev) =>
-            prev.map((t) => {
-              if (t.id !== threadId) return t;
-              return {
-                ...t,
-                syncStatus: 'error',
-                syncError: result.error || 'Failed to delete comment on GitHub',
-                comments: [...t.comments, existingComment],
-              };
-            }),
-          );
-        }
-      }).catch((err) => {
-        console.error(`❌ Exception during GitHub comment deletion:`, err);
+    if (!adapter.isConfigured() || !thread) return;
 
-        // Restore comment on exception
-        if (existingComment) {
-          setThreads((prev) =>
-            prev.map((t) => {
-              if (t.id !== threadId) return t;
-              return {
-                ...t,
-                syncStatus: 'error',
-                syncError: 'Exception during GitHub comment deletion',
-                comments: [...t.comments, existingComment],
-              };
-            }),
-          );
-        }
-      });
-    } else {
-      console.log(`ℹ️ GitHub deletion skipped:`, {
-        reason: !adapter.isConfigured()
-          ? 'GitHub not configured'
-          : !issueNumber
-          ? 'No issue number'
-          : !githubCommentId
-          ? 'Comment not synced to GitHub yet'
-          : 'Unknown',
-      });
+    if (githubCommentId) {
+      queueOperation({ type: 'deleteComment', threadId, route: thread.route, commentId, githubCommentId, issueNumber });
+      return;
     }
+
+    // Never reached the provider: just forget its queued create/edits
+    discardOperations(
+      (op) => (op.type === 'createComment' || op.type === 'updateComment') && op.commentId === commentId,
+    );
+    if (!hasQueuedOperations(threadId)) patchThread(threadId, { syncStatus: 'synced', syncError: undefined });
   };
 
   const closeThread = (threadId: string) => {
     const thread = threadsRef.current.find((t) => t.id === threadId);
-    const issueNumber = thread?.issueNumber;
 
-    console.log('🔒 closeThread called:', { threadId, issueNumber });
+    console.log('🔒 closeThread called:', { threadId, issueNumber: thread?.issueNumber });
 
     // Mark thread as closed locally
-    setThreads((prev) =>
-      prev.map((t) => (t.id === threadId ? { ...t, status: 'closed' as const } : t))
-    );
+    patchThread(threadId, { status: 'closed' });
 
     // Keep the thread selected so the UI can switch to a "Reopen" state (GitHub-like)
 
-    // Sync close to GitHub
-    if (adapter.isConfigured() && issueNumber) {
-      console.log(`🔵 Closing GitHub issue #${issueNumber}...`);
-
-      adapter.closeIssue(issueNumber).then((result) => {
-        if (result.success) {
-          console.log(`✅ Successfully closed GitHub issue #${issueNumber}`);
-          setThreads((prev) =>
-            prev.map((t) => (t.id === threadId ? { ...t, syncStatus: 'synced', syncError: undefined } : t))
-          );
-        } else {
-          console.error(`❌ Failed to close GitHub issue #${issueNumber}:`, result.error);
-          setThreads((prev) =>
-            prev.map((t) =>
-              t.id === threadId
-                ? { ...t, syncStatus: 'error', syncError: result.error || 'Failed to close issue' }
-                : t
-            )
-          );
-        }
-      });
+    if (adapter.isConfigured() && thread && (thread.issueNumber || thread.comments.length)) {
+      queueOperation({ type: 'closeIssue', threadId, route: thread.route });
     }
   };
 
   const reopenThread = (threadId: string) => {
     const thread = threadsRef.current.find((t) => t.id === threadId);
-    const issueNumber = thread?.issueNumber;
 
-    console.log('🔓 reopenThread called:', { threadId, issueNumber });
+    console.log('🔓 reopenThread called:', { threadId, issueNumber: thread?.issueNumber });
 
     // Mark thread as open locally
-    setThreads((prev) =>
-      prev.map((t) => (t.id === threadId ? { ...t, status: 'open' as const } : t))
-    );
-
-    // Sync reopen to GitHub
-    if (adapter.isConfigured() && issueNumber) {
-      console.log(`🔵 Reopening GitHub issue #${issueNumber}...`);
+    patchThread(threadId, { status: 'open' });
 
-      adapter.reopenIssue(issueNumber).then((result) => {
-        if (result.success) {
-          console.log(`✅ Successfully reopened GitHub issue #${issueNumber}`);
-          setThreads((prev) =>
-            prev.map((t) => (t.id === threadId ? { ...t, syncStatus: 'synced', syncError: undefined } : t))
-          );
-        } else {
-          console.error(`❌ Failed to reopen GitHub issue #${issueNumber}:`, result.error);
-          setThreads((prev) =>
-            prev.map((t) =>
-              t.id === threadId
-                ? { ...t, syncStatus: 'error', syncError: result.error || 'Failed to reopen issue' }
-                : t
-            )
-          );
-        }
-      });
+    if (adapter.isConfigured() && thread && (thread.issueNumber || thread.comments.length)) {
+      queueOperation({ type: 'reopenIssue', threadId, route: thread.route });
     }
   };
 
@@ -944,114 +1623,101 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     const issueNumber = thread?.issueNumber;
 
     // Remove locally immediately.
-    setThreads((prev) => prev.filter((t) => t.id !== threadId));
+    updateThreads((prev) => prev.filter((t) => t.id !== threadId));
     if (selectedThreadId === threadId) setSelectedThreadId(null);
 
-    if (!adapter.isConfigured()) return;
+    if (!adapter.isConfigured() || !thread) return;
 
-    if (!issueNumber) {
-      // Issue may still be creating; mark so we can close it once we get the number.
-      removedThreadIdsRef.current.add(threadId);
-      return;
-    }
+    // Whatever was still queued for this thread is moot now. An issue that is being created right now
+    // is closed as soon as it exists (see replayOperation).
+    discardOperations((op) => op.threadId === threadId);
+    if (!issueNumber) return;
 
     // Prevent re-appearing on sync even if close is slow/fails.
-    hiddenIssueNumbersRef.current.add(issueNumber);
-    writeNumberSet(HIDDEN_ISSUES_KEY, hiddenIssueNumbersRef.current);
+    hideIssue(issueNumber);
+    queueOperation({ type: 'closeIssue', threadId, route: thread.route, issueNumber });
+  };
 
-    pendingCloseIssueNumbersRef.current.add(issueNumber);
-    writeNumberSet(PENDING_CLOSE_ISSUES_KEY, pendingCloseIssueNumbersRef.current);
+  const updateAnnotations = (threadId: string, annotations: AnnotationShape[]) => {
+    // Markup is part of the issue body, which can't be edited from here once the issue exists
+    if (findThread(threadId)?.issueNumber) return;
+    patchThread(threadId, { annotations: annotations.length ? annotations : undefined });
+  };
 
-    adapter.closeIssue(issueNumber).then((result) => {
-      if (result.success) {
-        pendingCloseIssueNumbersRef.current.delete(issueNumber);
-        writeNumberSet(PENDING_CLOSE_ISSUES_KEY, pendingCloseIssueNumbersRef.current);
-      }
-    });
+  const attachScreenshot = (threadId: string, dataUrl: string) => {
+    // The capture finishes asynchronously; by then the issue may already have been created without it
+    if (findThread(threadId)?.issueNumber) return;
+    patchThread(threadId, { screenshot: dataUrl });
+  };
+
+  const updateCommentReactions = (
+    threadId: string,
+    commentId: string,
+    update: (reactions: CommentReaction[]) => CommentReaction[],
+  ) => {
+    patchThread(threadId, (t) => ({
+      ...t,
+      comments: t.comments.map((c) => (c.id === commentId ? { ...c, reactions: update(c.reactions ?? []) } : c)),
+    }));
+  };
+
+  const resolveConflict = (threadId: string, commentId: string, resolution: ConflictResolution) => {
+    const thread = threadsRef.current.find((t) => t.id === threadId);
+    const comment = thread?.comments.find((c) => c.id === commentId);
+    if (!thread || !comment?.conflict) return;
+
+    const { remoteText, remoteUpdatedAt } = comment.conflict;
+    const text = resolution === 'mine' ? comment.text : resolution === 'theirs' ? remoteText : resolution.text;
+
+    // Their version becomes the base, so the replayed edit (if any) passes the conflict check
+    patchComment(threadId, commentId, { text, remoteUpdatedAt, conflict: undefined });
+    const otherConflicts = thread.comments.some((c) => c.id !== commentId && c.conflict);
+
+    if (text !== remoteText && adapter.isConfigured()) {
+      queueOperation({ type: 'updateComment', threadId, route: thread.route, commentId });
+      return;
+    }
+
+    // Nothing left to send for this comment
+    discardOperations((op) => op.type === 'updateComment' && op.commentId === commentId);
+    if (!otherConflicts && !hasQueuedOperations(threadId)) {
+      patchThread(threadId, { syncStatus: 'synced', syncError: undefined });
+    }
   };
 
   const getThreadsForRoute = (route: string, version?: string): Thread[] => {
-    return threads.filter(
-      (thread) => thread.route === route && (!version || (thread.version ?? '1') === version),
-    );
+    return threads.filter((thread) => thread.route === route && (!version || (thread.version ?? '1') === version));
   };
 
   const retrySync = async () => {
     if (!adapter.isConfigured()) return;
     setSyncInFlightCount((c) => c + 1);
     try {
-      const current = threadsRef.current;
-
-      // First, create issues for threads that don't have an issueNumber yet.
-      for (const t of current) {
-        if (t.issueNumber) continue;
-        if (t.syncStatus !== 'error' && t.syncStatus !== 'pending' && t.syncStatus !== 'syncing' && t.syncStatus !== 'local') continue;
-
-        setThreads((prev) => prev.map((x) => (x.id === t.id ? { ...x, syncStatus: 'syncing', syncError: undefined } : x)));
-        const created = await adapter.createIssue({
-          title: `Feedback: ${t.route}`,
-          body: `Thread created from pin${t.elementDescription ? ` on ${t.elementDescription}` : ''}.`,
-          route: t.route,
-          cssSelector: t.cssSelector,
-          elementDescription: t.elementDescription,
-          xPercent: t.xPercent,
-          yPercent: t.yPercent,
-          version: t.version,
-        });
-
-        if (created.success && created.data?.number) {
-          setThreads((prev) =>
-            prev.map((x) =>
-              x.id === t.id
-                ? { ...x, issueNumber: created.data?.number, issueUrl: created.data?.html_url, syncStatus: 'synced', syncError: undefined }
-                : x,
+      // Queue whatever never made it into the outbox (e.g. created before signing in), then replay everything,
+      // including entries that gave up or are waiting out a backoff
+      resetRetries(getProviderType());
+      for (const t of threadsRef.current) {
+        if (t.isTemporary || !t.comments.length) continue;
+        if (!t.issueNumber)
+          enqueueOperation({ type: 'createIssue', threadId: t.id, route: t.route }, getProviderType());
+        t.comments
+          .filter((c) => !c.githubCommentId)
+          .forEach((c) =>
+            enqueueOperation(
+              { type: 'createComment', threadId: t.id, route: t.route, commentId: c.id },
+              getProviderType(),
             ),
           );
-        } else {
-          setThreads((prev) =>
-            prev.map((x) => (x.id === t.id ? { ...x, syncStatus: 'error', syncError: created.error || 'Failed to create issue' } : x)),
-          );
-        }
-      }
-
-      // Then, push any local-only comments (no githubCommentId) for threads with an issueNumber.
-      const afterIssues = threadsRef.current;
-      for (const t of afterIssues) {
-        if (!t.issueNumber) continue;
-        const localOnly = t.comments.filter((c) => !c.githubCommentId);
-        if (localOnly.length === 0) continue;
-
-        setThreads((prev) => prev.map((x) => (x.id === t.id ? { ...x, syncStatus: 'syncing', syncError: undefined } : x)));
-
-        for (const c of localOnly) {
-          const res = await adapter.createComment(t.issueNumber, c.text);
-          if (res.success && res.data?.id) {
-            const newId = res.data.id as number;
-            setThreads((prev) =>
-              prev.map((x) =>
-                x.id === t.id
-                  ? {
-                      ...x,
-                      comments: x.comments.map((cc) => (cc.id === c.id ? { ...cc, githubCommentId: newId } : cc)),
-                    }
-                  : x,
-              ),
-            );
-          } else {
-            setThreads((prev) =>
-              prev.map((x) => (x.id === t.id ? { ...x, syncStatus: 'pending', syncError: res.error || 'Failed to sync comment' } : x)),
-            );
-          }
-        }
-
-        setThreads((prev) => prev.map((x) => (x.id === t.id ? { ...x, syncStatus: 'synced', syncError: undefined } : x)));
       }
+      await flushOutbox();
     } finally {
       setSyncInFlightCount((c) => Math.max(0, c - 1));
     }
   };
 
-  const hasPendingSync = threads.some((t) => t.syncStatus === 'pending' || t.syncStatus === 'error');
+  retrySyncRef.current = retrySync;
+
+  const hasPendingSync = outboxSize > 0 || threads.some((t) => t.syncStatus === 'pending' || t.syncStatus === 'error');
 
   const value: CommentContextType = {
     threads,
@@ -1059,6 +1725,11 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     setCommentsEnabled,
     showPinsEnabled,
     setShowPinsEnabled,
+    commentTool,
+    setCommentTool,
+    breakpoint,
+    breakpointFilterEnabled,
+    setBreakpointFilterEnabled,
     drawerPinnedOpen,
     setDrawerPinnedOpen,
     floatingWidgetMode,
@@ -1068,13 +1739,21 @@ export const CommentProvider: React.FunctionComponent<{ children: React.ReactNod
     syncFromGitHub,
     retrySync,
     isSyncing,
+    syncProgress,
+    rateLimitedUntil,
+    storageWarning,
     hasPendingSync,
     updateComment,
     deleteComment,
     closeThread,
     reopenThread,
     removePin,
+    updateAnnotations,
+    attachScreenshot,
+    resolveConflict,
+    updateCommentReactions,
     getThreadsForRoute,
+    loadThreadsForRoute: ensureRouteLoaded,
     selectedThreadId,
     setSelectedThreadId,
   };
@@ -8,6 +8,9 @@ import {
   getUserStorageKey,
   setStoredProviderType,
 } from '../services/providerFactory';
+import { getRegisteredProvider, getRegisteredProviderTypes } from '../services/providerRegistry';
+import { signInToJira } from '../services/jiraAdapter';
+import { signInToRest } from '../services/restAdapter';
 import { getEnv } from '../utils/env';
 
 interface ProviderAuthContextType {
@@ -49,13 +52,26 @@ export const ProviderAuthProvider: React.FunctionComponent<{ children: React.Rea
   const providerDisplayName = getProviderDisplayName(providerType);
   const availableProviders = React.useMemo<ProviderType[]>(() => {
     const explicitProvider = getEnv('VITE_PROVIDER_TYPE') as ProviderType | undefined;
-    if (explicitProvider === 'github' || explicitProvider === 'gitlab') {
-      return [explicitProvider];
+    if (
+      explicitProvider === 'github' ||
+      explicitProvider === 'gitlab' ||
+      explicitProvider === 'gitea' ||
+      explicitProvider === 'jira' ||
+      explicitProvider === 'rest' ||
+      getRegisteredProvider(explicitProvider)
+    ) {
+      return [explicitProvider as ProviderType];
     }
 
     const providers: ProviderType[] = [];
     if (getEnv('VITE_GITHUB_CLIENT_ID')) providers.push('github');
     if (getEnv('VITE_GITLAB_CLIENT_ID')) providers.push('gitlab');
+    if (getEnv('VITE_GITEA_CLIENT_ID')) providers.push('gitea');
+    if (getEnv('VITE_JIRA_PROJECT_KEY')) providers.push('jira');
+    if (getEnv('VITE_REST_API_URL')) providers.push('rest');
+    getRegisteredProviderTypes().forEach((type) => {
+      if (!providers.includes(type)) providers.push(type);
+    });
     if (!providers.length) providers.push(getProviderType());
     return providers;
   }, []);
@@ -95,9 +111,70 @@ export const ProviderAuthProvider: React.FunctionComponent<{ children: React.Rea
   const login = (requestedProvider?: ProviderType) => {
     const nextProvider = requestedProvider || providerType;
 
+    // Registered providers bring their own OAuth URL (or none, when they authenticate server-side)
+    const registered = getRegisteredProvider(nextProvider);
+    if (registered) {
+      const url = getOAuthAuthorizeUrl(nextProvider);
+      if (!url) {
+        // eslint-disable-next-line no-alert
+        alert(`${registered.displayName} does not provide a sign-in URL.`);
+        return;
+      }
+      if (requestedProvider && requestedProvider !== providerType) {
+        setProviderType(requestedProvider);
+      }
+      console.log(`🔑 ${registered.displayName} OAuth URL:`, url);
+      window.location.href = url;
+      return;
+    }
+
+    // Jira authenticates with the dev server's credentials; "signing in" just resolves the account
+    if (nextProvider === 'jira') {
+      if (!getEnv('VITE_JIRA_PROJECT_KEY')) {
+        // eslint-disable-next-line no-alert
+        alert('Jira is not configured (missing VITE_JIRA_PROJECT_KEY).');
+        return;
+      }
+      if (requestedProvider && requestedProvider !== providerType) {
+        setProviderType(requestedProvider);
+      }
+      void signInToJira().then((result) => {
+        if (result.success && result.data) {
+          setUser(result.data);
+        } else {
+          // eslint-disable-next-line no-alert
+          alert(`Jira sign-in failed: ${result.error}`);
+        }
+      });
+      return;
+    }
+
+    // The bundled comment store has no accounts; the display name is only used as the author
+    if (nextProvider === 'rest') {
+      // eslint-disable-next-line no-alert
+      const name = prompt('Display name for your comments:', user?.login || '');
+      if (name === null) return;
+      const result = signInToRest(name);
+      if (!result.success || !result.data) {
+        // eslint-disable-next-line no-alert
+        alert(result.error);
+        return;
+      }
+      if (requestedProvider && requestedProvider !== providerType) {
+        setProviderType(requestedProvider);
+      }
+      setUser(result.data);
+      return;
+    }
+
     let clientId: string | undefined;
     try {
-      const envKey = nextProvider === 'gitlab' ? 'VITE_GITLAB_CLIENT_ID' : 'VITE_GITHUB_CLIENT_ID';
+      const envKey =
+        nextProvider === 'gitlab'
+          ? 'VITE_GITLAB_CLIENT_ID'
+          : nextProvider === 'gitea'
+            ? 'VITE_GITEA_CLIENT_ID'
+            : 'VITE_GITHUB_CLIENT_ID';
       clientId = getEnv(envKey);
     } catch (e) {
       clientId = undefined;
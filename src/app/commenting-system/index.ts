@@ -7,15 +7,55 @@ export { GitHubAuthProvider, useGitHubAuth } from './contexts/GitHubAuthContext'
 export { CommentOverlay } from './components/CommentOverlay';
 export { CommentPin } from './components/CommentPin';
 export { CommentPanel } from './components/CommentPanel';
+export { CommentToolSelect } from './components/CommentToolSelect';
 export { DetailsTab } from './components/DetailsTab';
 export { JiraTab } from './components/JiraTab';
+export { Markdown } from './components/Markdown';
+export { MarkdownTextArea } from './components/MarkdownTextArea';
+export { CommentReactions } from './components/CommentReactions';
 export { FloatingWidget } from './components/FloatingWidget';
 
 // Services
 export { githubAdapter, isGitHubConfigured } from './services/githubAdapter';
+export { registerProvider, unregisterProvider } from './services/providerRegistry';
+export { ProviderRequestError } from './services/providerRequestError';
 
 // Types
-export type { Comment, Thread, SyncStatus, ThreadStatus, ComponentMetadata } from './types';
+export type {
+  AnchorConfidence,
+  AnnotationKind,
+  AnnotationShape,
+  Comment,
+  CommentConflict,
+  CommentTool,
+  ConflictResolution,
+  Thread,
+  SyncStatus,
+  SyncProgress,
+  ThreadStatus,
+  ComponentMetadata,
+  ElementFingerprint,
+  RegionAnchor,
+  TextAnchor,
+  Breakpoint,
+  ViewportContext,
+} from './types';
+export type {
+  CreateIssueParams,
+  FetchIssuesOptions,
+  IssueData,
+  IssueProviderAdapter,
+  PaginationOptions,
+  ProviderResult,
+  ProviderType,
+  ProviderUser,
+  PutRepoFileParams,
+  UploadAttachmentParams,
+  AttachmentData,
+  ReactionContent,
+  CommentReaction,
+} from './types/provider';
+export type { ProviderAdapterFactory, ProviderRegistrationOptions } from './services/providerRegistry';
 
 // Utils
 export { getComponentMetadata, getComponentPath, findNearestComponentElement } from './utils/componentUtils';
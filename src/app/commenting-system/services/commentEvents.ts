@@ -0,0 +1,68 @@
+import { getEnv } from '../utils/env';
+import { getProviderType } from './providerFactory';
+
+/**
+ * Change hints pushed by the dev server's `/api/comments-events` stream (see scripts/comments-events.js).
+ * They only say which issue changed; the receiver re-syncs that issue's route to get the actual data.
+ */
+export interface CommentEvent {
+  provider: string;
+  kind: 'issue' | 'comment';
+  action?: string;
+  issueNumber: number;
+  commentId?: number;
+  route?: string;
+  updatedAt?: string;
+}
+
+export type CommentEventListener = (event: CommentEvent) => void;
+
+const listeners = new Set<CommentEventListener>();
+let source: EventSource | null = null;
+
+/**
+ * Live updates are opt-in: set VITE_COMMENT_EVENTS_URL (e.g. /api/comments-events) where the endpoint is mounted
+ */
+export const getCommentEventsUrl = (): string | undefined => getEnv('VITE_COMMENT_EVENTS_URL') || undefined;
+
+const connect = (url: string) => {
+  source = new EventSource(url);
+  source.addEventListener('comment-event', (event) => {
+    try {
+      const parsed = JSON.parse((event as MessageEvent<string>).data) as CommentEvent;
+      // The stream carries every provider's webhooks; issue numbers only mean something for the active one
+      if (!parsed?.issueNumber || parsed.provider !== getProviderType()) return;
+      listeners.forEach((listener) => listener(parsed));
+    } catch {
+      // ignore malformed events
+    }
+  });
+  // EventSource reconnects by itself (the server sends `retry:`); just note it once per outage
+  let interrupted = false;
+  source.onopen = () => {
+    if (interrupted) console.log('📡 Comment events stream reconnected');
+    interrupted = false;
+  };
+  source.onerror = () => {
+    if (!interrupted) console.warn('📡 Comment events stream interrupted, reconnecting…');
+    interrupted = true;
+  };
+};
+
+/**
+ * Listen for remote changes. One EventSource is shared by all listeners and closed with the last one.
+ */
+export function subscribeCommentEvents(listener: CommentEventListener): () => void {
+  const url = getCommentEventsUrl();
+  if (!url || typeof EventSource === 'undefined') return () => undefined;
+
+  listeners.add(listener);
+  if (!source) connect(url);
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
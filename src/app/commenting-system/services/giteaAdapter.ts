@@ -0,0 +1,496 @@
+import { getEnv } from '../utils/env';
+import { rateLimitedFetch } from './rateLimiter';
+import { ProviderRequestError } from './providerRequestError';
+import { collectPages, parseLinkHeader, withPageParams } from '../utils/pagination';
+import { clearSyncCursors, getLatestUpdatedAt, getSyncCursor, getSyncCursorKey, setSyncCursor } from '../utils/syncCursors';
+import {
+  CreateIssueParams,
+  FetchIssuesOptions,
+  IssueData,
+  IssueProviderAdapter,
+  PaginationOptions,
+  ProviderResult,
+  PutRepoFileParams,
+  UploadAttachmentParams,
+  AttachmentData,
+  CommentReaction,
+  ReactionContent,
+  ProviderUser,
+} from '../types/provider';
+import { serializeAnnotations } from '../utils/annotations';
+import { getAttachmentPath } from '../utils/attachments';
+import { serializeFingerprint } from '../utils/fingerprint';
+import { formatRegion } from '../utils/region';
+import { serializeTextAnchor } from '../utils/textAnchor';
+import { formatViewport } from '../utils/viewport';
+
+export interface GiteaUser {
+  login: string;
+  avatar: string;
+}
+
+export const GITEA_TOKEN_STORAGE_KEY = 'gitea_access_token';
+export const GITEA_USER_STORAGE_KEY = 'gitea_user';
+
+export const storeGiteaAuth = (token: string, user: GiteaUser) => {
+  localStorage.setItem(GITEA_TOKEN_STORAGE_KEY, token);
+  localStorage.setItem(GITEA_USER_STORAGE_KEY, JSON.stringify(user));
+};
+
+export const clearGiteaAuth = () => {
+  localStorage.removeItem(GITEA_TOKEN_STORAGE_KEY);
+  localStorage.removeItem(GITEA_USER_STORAGE_KEY);
+};
+
+export const getStoredToken = (): string | null => {
+  return localStorage.getItem(GITEA_TOKEN_STORAGE_KEY);
+};
+
+export const getStoredUser = (): GiteaUser | null => {
+  const raw = localStorage.getItem(GITEA_USER_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as GiteaUser;
+  } catch {
+    return null;
+  }
+};
+
+export const isGiteaConfigured = (): boolean => {
+  const baseUrl = getEnv('VITE_GITEA_BASE_URL');
+  const owner = getEnv('VITE_GITEA_OWNER');
+  const repo = getEnv('VITE_GITEA_REPO');
+  return Boolean(getStoredToken() && baseUrl && owner && repo);
+};
+
+// Gitea caps list endpoints at 50 items per page by default (MAX_RESPONSE_ITEMS)
+const GITEA_PER_PAGE = 50;
+
+interface GiteaProxyResponse {
+  payload: any;
+  headers: Headers;
+}
+
+async function giteaProxyFetch(method: string, endpoint: string, data?: any): Promise<GiteaProxyResponse> {
+  const token = getStoredToken();
+  if (!token) {
+    throw new Error('Not authenticated with Gitea');
+  }
+
+  console.log(`🍵 Gitea API Request:`, { method, endpoint, hasData: !!data });
+
+  const resp = await rateLimitedFetch('gitea', () =>
+    fetch('/api/gitea-api', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, method, endpoint, data }),
+    }),
+  );
+
+  // Deletes answer 204 No Content, so an empty body is a success too
+  const text = await resp.text();
+  const payload = (() => {
+    try {
+      return text ? JSON.parse(text) : {};
+    } catch {
+      return { message: text };
+    }
+  })();
+
+  console.log(`🍵 Gitea API Response:`, {
+    status: resp.status,
+    ok: resp.ok,
+    payload
+  });
+
+  if (!resp.ok) {
+    const message = (payload && (payload.message || payload.error)) || `Gitea API error (${resp.status})`;
+
+    if (resp.status === 403) {
+      console.error(`❌ 403 Forbidden - Possible causes:
+        1. You don't have write access to the repository
+        2. Issues are disabled on the repository
+        3. Token has expired or been revoked
+
+        Current config:
+        - Base URL: ${getEnv('VITE_GITEA_BASE_URL')}
+        - Owner: ${getEnv('VITE_GITEA_OWNER')}
+        - Repo: ${getEnv('VITE_GITEA_REPO')}
+        - Endpoint: ${endpoint}
+      `);
+    }
+
+    throw new ProviderRequestError(message, resp.status);
+  }
+  return { payload, headers: resp.headers };
+}
+
+async function giteaProxyRequest(method: string, endpoint: string, data?: any): Promise<any> {
+  const { payload } = await giteaProxyFetch(method, endpoint, data);
+  return payload;
+}
+
+/**
+ * GET every page of a list endpoint by following the `Link: rel="next"` header.
+ * Gitea names the page size `limit` rather than `per_page`.
+ */
+async function giteaFetchAllPages(endpoint: string, options?: PaginationOptions): Promise<any[]> {
+  return collectPages(async (page, perPage) => {
+    const { payload, headers } = await giteaProxyFetch('GET', withPageParams(endpoint, page, perPage, 'limit'));
+    const items = Array.isArray(payload) ? payload : [];
+    const linkHeader = headers.get('link');
+    const hasNext = linkHeader ? Boolean(parseLinkHeader(linkHeader).next) : items.length >= perPage;
+    return { items, hasNext };
+  }, { perPage: GITEA_PER_PAGE, ...options });
+}
+
+const getRepoPath = (): string => {
+  const owner = getEnv('VITE_GITEA_OWNER') || '';
+  const repo = getEnv('VITE_GITEA_REPO') || '';
+  return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+};
+
+const toCommentReaction = (reaction: any): CommentReaction => ({
+  content: reaction?.content,
+  user: reaction?.user?.login || '',
+});
+
+// Listed once per session for @mention suggestions
+let mentionableUsersPromise: Promise<ProviderUser[]> | null = null;
+
+const fetchMentionableUsersOnce = (): Promise<ProviderUser[]> => {
+  if (!mentionableUsersPromise) {
+    // Collaborators don't include the owner (or org members with team access); assignees do
+    mentionableUsersPromise = giteaFetchAllPages(`${getRepoPath()}/assignees`)
+      .catch(() => giteaFetchAllPages(`${getRepoPath()}/collaborators`))
+      .then((users) =>
+        users
+          .filter((u: any) => u?.login)
+          .map((u: any): ProviderUser => ({ login: u.login, avatar: u.avatar_url || '', name: u.full_name || undefined })),
+      );
+    mentionableUsersPromise.catch(() => {
+      mentionableUsersPromise = null;
+    });
+  }
+  return mentionableUsersPromise;
+};
+
+const getBranch = (): string => getEnv('VITE_GITEA_BRANCH') || 'main';
+
+const encodePath = (path: string): string => {
+  return path
+    .split('/')
+    .map((seg) => encodeURIComponent(seg))
+    .join('/');
+};
+
+const base64EncodeUtf8 = (input: string): string => {
+  return btoa(unescape(encodeURIComponent(input)));
+};
+
+const base64DecodeUtf8 = (input: string): string => {
+  return decodeURIComponent(escape(atob(input)));
+};
+
+const getLabelNames = (issue: any): string[] => {
+  const labels = issue?.labels;
+  if (!Array.isArray(labels)) return [];
+  return labels
+    .map((l: any) => (typeof l === 'string' ? l : l?.name))
+    .filter((n: any) => typeof n === 'string');
+};
+
+const issueHasAnyVersion = (issue: any): boolean => {
+  const labelNames = getLabelNames(issue);
+  if (labelNames.some((n) => n.startsWith('version:'))) return true;
+  const body: string = issue?.body || '';
+  return body.includes('Version:');
+};
+
+// Label name -> id for the configured repo. Gitea attaches labels by id, so they must exist first.
+let labelIdCache: Map<string, number> | null = null;
+
+const ensureLabelIds = async (names: string[]): Promise<number[]> => {
+  if (!labelIdCache) {
+    const existing = await giteaFetchAllPages(`${getRepoPath()}/labels`);
+    labelIdCache = new Map(existing.map((l: any) => [l.name as string, l.id as number]));
+  }
+
+  const ids: number[] = [];
+  for (const name of names) {
+    let id = labelIdCache.get(name);
+    if (id === undefined) {
+      const created = await giteaProxyRequest('POST', `${getRepoPath()}/labels`, { name, color: '#ededed' });
+      id = created.id as number;
+      labelIdCache.set(name, id);
+    }
+    ids.push(id);
+  }
+  return ids;
+};
+
+/**
+ * Gitea / Forgejo implementation of the IssueProviderAdapter interface
+ */
+export class GiteaAdapter implements IssueProviderAdapter {
+  isConfigured(): boolean {
+    return isGiteaConfigured();
+  }
+
+  async createIssue(params: CreateIssueParams): Promise<ProviderResult<IssueData>> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+
+    try {
+      const metadata = [
+        `- Route: \`${params.route}\``,
+        params.version ? `- Version: \`${params.version}\`` : null,
+        params.cssSelector ? `- Target Component: \`${params.elementDescription || 'unknown'}\`` : null,
+        params.cssSelector ? `- CSS Selector: \`${params.cssSelector}\`` : null,
+        params.fingerprint ? `- Element Fingerprint: \`${serializeFingerprint(params.fingerprint)}\`` : null,
+        params.textAnchor ? `- Text Quote: \`${serializeTextAnchor(params.textAnchor)}\`` : null,
+        params.region ? `- Region: \`${formatRegion(params.region)}\`` : null,
+        params.annotations?.length ? `- Annotations: \`${serializeAnnotations(params.annotations)}\`` : null,
+        params.viewport ? `- Viewport: \`${formatViewport(params.viewport)}\`` : null,
+        `- Fallback Position: \`(${params.xPercent.toFixed(1)}%, ${params.yPercent.toFixed(1)}%)\``,
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+      const issueBody: any = {
+        title: params.title,
+        body: `${params.body}\n\n---\n**Metadata:**\n${metadata}`,
+      };
+
+      // Add helpful labels (non-fatal if resolving them fails; the issue is created without them)
+      try {
+        const labels: string[] = [
+          'hale-comment',
+          `route:${params.route}`,
+        ];
+        if (params.cssSelector && params.elementDescription) {
+          labels.push(`component:${params.elementDescription}`);
+        }
+        labels.push(`coords:${Math.round(params.xPercent)},${Math.round(params.yPercent)}`);
+        if (params.version) labels.push(`version:${params.version}`);
+        issueBody.labels = await ensureLabelIds(labels);
+      } catch {
+        labelIdCache = null;
+      }
+
+      const data = await giteaProxyRequest('POST', `${getRepoPath()}/issues`, issueBody);
+      return { success: true, data: { number: data.number, html_url: data.html_url } };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to create issue' };
+    }
+  }
+
+  supportsNativeReplies(): boolean {
+    return false;
+  }
+
+  async createComment(issueNumber: number, body: string): Promise<ProviderResult> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      const data = await giteaProxyRequest('POST', `${getRepoPath()}/issues/${issueNumber}/comments`, { body });
+      return { success: true, data };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to create comment' };
+    }
+  }
+
+  async fetchIssuesForRouteAndVersion(
+    route: string,
+    version?: string,
+    options?: FetchIssuesOptions,
+  ): Promise<ProviderResult<any[]>> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      const cursorKey = getSyncCursorKey('gitea', route, version);
+      const since = options?.incremental ? getSyncCursor(cursorKey) : undefined;
+      const sinceParam = since ? `&since=${encodeURIComponent(since)}` : '';
+
+      // Issues are always created with labels here, so the label query alone finds every thread
+      const data = await giteaFetchAllPages(
+        `${getRepoPath()}/issues?state=all&type=issues&labels=${encodeURIComponent(`route:${route}`)}${sinceParam}`,
+        options,
+      );
+      setSyncCursor(cursorKey, getLatestUpdatedAt(data));
+
+      const filtered = data.filter((issue: any) => {
+        if (!version) return true;
+
+        const labels = getLabelNames(issue);
+        const body: string = issue?.body || '';
+        const versionLabelMatch = labels.includes(`version:${version}`);
+        const bodyVersionMatch = body.includes(`Version: \`${version}\``);
+
+        // Back-compat: if an issue has no version metadata at all, treat it as default "1"
+        if (!issueHasAnyVersion(issue) && version === '1') return true;
+
+        return versionLabelMatch || bodyVersionMatch;
+      });
+      return { success: true, data: filtered };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch issues' };
+    }
+  }
+
+  resetIncrementalSync(route?: string, version?: string): void {
+    clearSyncCursors('gitea', route !== undefined ? getSyncCursorKey('gitea', route, version) : undefined);
+  }
+
+  async fetchIssueComments(issueNumber: number, _options?: PaginationOptions): Promise<ProviderResult<any[]>> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      // Gitea returns every comment of an issue in one response (this endpoint is not paginated)
+      const data = await giteaProxyRequest('GET', `${getRepoPath()}/issues/${issueNumber}/comments`);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch issue comments' };
+    }
+  }
+
+  async fetchMentionableUsers(): Promise<ProviderResult<ProviderUser[]>> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      return { success: true, data: await fetchMentionableUsersOnce() };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch collaborators' };
+    }
+  }
+
+  async updateComment(commentId: number, body: string, _issueNumber?: number): Promise<ProviderResult> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      const data = await giteaProxyRequest('PATCH', `${getRepoPath()}/issues/comments/${commentId}`, { body });
+      return { success: true, data };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to update comment' };
+    }
+  }
+
+  async deleteComment(commentId: number, _issueNumber?: number): Promise<ProviderResult> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      await giteaProxyRequest('DELETE', `${getRepoPath()}/issues/comments/${commentId}`);
+      return { success: true, data: {} };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to delete comment' };
+    }
+  }
+
+  supportsReactions(): boolean {
+    return true;
+  }
+
+  async fetchCommentReactions(commentId: number, _issueNumber?: number): Promise<ProviderResult<CommentReaction[]>> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      // Not paginated: every reaction comes back in one response
+      const data = await giteaProxyRequest('GET', `${getRepoPath()}/issues/comments/${commentId}/reactions`);
+      return { success: true, data: Array.isArray(data) ? data.map(toCommentReaction) : [] };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch reactions' };
+    }
+  }
+
+  async addCommentReaction(commentId: number, content: ReactionContent, _issueNumber?: number): Promise<ProviderResult<CommentReaction>> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      const data = await giteaProxyRequest('POST', `${getRepoPath()}/issues/comments/${commentId}/reactions`, { content });
+      return { success: true, data: toCommentReaction(data) };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to add reaction' };
+    }
+  }
+
+  async removeCommentReaction(commentId: number, reaction: CommentReaction, _issueNumber?: number): Promise<ProviderResult> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      // Gitea reactions have no id; the signed-in user's reaction is removed by its content
+      await giteaProxyRequest('DELETE', `${getRepoPath()}/issues/comments/${commentId}/reactions`, { content: reaction.content });
+      return { success: true, data: {} };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to remove reaction' };
+    }
+  }
+
+  async closeIssue(issueNumber: number): Promise<ProviderResult> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      const data = await giteaProxyRequest('PATCH', `${getRepoPath()}/issues/${issueNumber}`, { state: 'closed' });
+      return { success: true, data };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to close issue' };
+    }
+  }
+
+  async reopenIssue(issueNumber: number): Promise<ProviderResult> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      const data = await giteaProxyRequest('PATCH', `${getRepoPath()}/issues/${issueNumber}`, { state: 'open' });
+      return { success: true, data };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to reopen issue' };
+    }
+  }
+
+  async getRepoFile(path: string): Promise<ProviderResult<{ text: string; sha: string } | null>> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      const data = await giteaProxyRequest(
+        'GET',
+        `${getRepoPath()}/contents/${encodePath(path)}?ref=${encodeURIComponent(getBranch())}`,
+      );
+      const content = typeof data?.content === 'string' ? data.content.replace(/\n/g, '') : '';
+      const sha = data?.sha as string | undefined;
+      if (!content || !sha) return { success: true, data: null };
+      const text = base64DecodeUtf8(content);
+      return { success: true, data: { text, sha } };
+    } catch (e: any) {
+      // If file doesn't exist yet, treat as empty
+      if (String(e?.message || '').toLowerCase().includes('not found')) {
+        return { success: true, data: null };
+      }
+      return { success: false, status: e?.status, error: e?.message || 'Failed to read repo file' };
+    }
+  }
+
+  async putRepoFile(params: PutRepoFileParams): Promise<ProviderResult<{ sha: string; url?: string }>> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      // Gitea uses POST to create and PUT (with the current sha) to update
+      const method = params.sha ? 'PUT' : 'POST';
+      const data = await giteaProxyRequest(method, `${getRepoPath()}/contents/${encodePath(params.path)}`, {
+        message: params.message,
+        content: base64EncodeUtf8(params.text),
+        branch: getBranch(),
+        ...(params.sha ? { sha: params.sha } : {}),
+      });
+      const sha = data?.content?.sha as string | undefined;
+      const url = data?.content?.download_url as string | undefined;
+      return { success: true, data: { sha: sha || '', url } };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to write repo file' };
+    }
+  }
+
+  async uploadAttachment(params: UploadAttachmentParams): Promise<ProviderResult<AttachmentData>> {
+    if (!isGiteaConfigured()) return { success: false, error: 'Please sign in with Gitea' };
+    try {
+      const data = await giteaProxyRequest('POST', `${getRepoPath()}/contents/${encodePath(getAttachmentPath(params.filename))}`, {
+        message: params.message || `Add attachment ${params.filename}`,
+        content: params.contentBase64,
+        branch: getBranch(),
+      });
+      const url = data?.content?.download_url as string | undefined;
+      if (!url) return { success: false, error: 'Gitea did not return a link to the uploaded file' };
+      return { success: true, data: { url } };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to upload attachment' };
+    }
+  }
+}
+
+// Export singleton instance
+export const giteaAdapter = new GiteaAdapter();
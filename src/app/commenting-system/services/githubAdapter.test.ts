@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GITHUB_TOKEN_STORAGE_KEY, GitHubAdapter } from './githubAdapter';
+
+// The dev server proxy passes GitHub's 204 No Content through without a body
+const noContent = () => new Response(null, { status: 204 });
+
+describe('GitHubAdapter', () => {
+  const adapter = new GitHubAdapter();
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.stubEnv('VITE_GITHUB_OWNER', 'octo');
+    vi.stubEnv('VITE_GITHUB_REPO', 'site');
+    window.localStorage.setItem(GITHUB_TOKEN_STORAGE_KEY, 'token');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    fetchMock = vi.fn(async () => noContent());
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const proxiedRequest = () => JSON.parse(fetchMock.mock.calls[0][1].body);
+
+  it('treats a 204 from removing a reaction as success', async () => {
+    const result = await adapter.removeCommentReaction(12, { id: 99, content: '+1', user: 'octocat' });
+
+    expect(result).toEqual({ success: true, data: {} });
+    expect(proxiedRequest()).toMatchObject({ method: 'DELETE', endpoint: '/repos/octo/site/issues/comments/12/reactions/99' });
+  });
+
+  it('treats a 204 from deleting a comment as success', async () => {
+    await expect(adapter.deleteComment(12)).resolves.toEqual({ success: true, data: {} });
+  });
+
+  it('still reports error statuses with their message', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ message: 'Not Found' }), { status: 404 }));
+
+    await expect(adapter.deleteComment(12)).resolves.toEqual({ success: false, status: 404, error: 'Not Found' });
+  });
+
+  it('refetches legacy (unlabeled) issues on incremental syncs instead of reusing the scan', async () => {
+    let legacyIssue = { number: 5, body: 'Route: `/dashboard`', labels: [], state: 'open', updated_at: '2026-01-01T00:00:00Z' };
+    const json = (payload: unknown) => new Response(JSON.stringify(payload), { status: 200 });
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      const { endpoint } = JSON.parse(String(init.body));
+      if (endpoint.indexOf('labels=') >= 0) return json([]);
+      if (endpoint.indexOf('/issues/5') >= 0) return json(legacyIssue);
+      return json([legacyIssue, { number: 6, body: 'Route: `/settings`', labels: [], updated_at: '2026-01-01T00:00:00Z' }]);
+    });
+
+    const full = await adapter.fetchIssuesForRouteAndVersion('/dashboard');
+    expect(full.data?.map((i: any) => i.number)).toEqual([5]);
+
+    legacyIssue = { ...legacyIssue, state: 'closed', updated_at: '2026-01-02T00:00:00Z' };
+    const incremental = await adapter.fetchIssuesForRouteAndVersion('/dashboard', undefined, { incremental: true });
+
+    expect(incremental.data).toEqual([legacyIssue]);
+    const scans = fetchMock.mock.calls.filter(([, init]) => JSON.parse(init.body).endpoint === '/repos/octo/site/issues?state=all&per_page=100&page=1');
+    expect(scans).toHaveLength(1);
+  });
+});
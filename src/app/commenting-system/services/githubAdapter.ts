@@ -1,12 +1,28 @@
 import { getEnv } from '../utils/env';
+import { rateLimitedFetch } from './rateLimiter';
+import { ProviderRequestError } from './providerRequestError';
+import { collectPages, parseLinkHeader, withPageParams } from '../utils/pagination';
+import { clearSyncCursors, getLatestUpdatedAt, getSyncCursor, getSyncCursorKey, setSyncCursor } from '../utils/syncCursors';
 import {
   IssueProviderAdapter,
   CreateIssueParams,
   IssueData,
+  FetchIssuesOptions,
+  PaginationOptions,
   PutRepoFileParams,
   ProviderResult,
+  UploadAttachmentParams,
+  AttachmentData,
+  CommentReaction,
+  ReactionContent,
   ProviderUser,
 } from '../types/provider';
+import { serializeAnnotations } from '../utils/annotations';
+import { getAttachmentPath } from '../utils/attachments';
+import { serializeFingerprint } from '../utils/fingerprint';
+import { formatRegion } from '../utils/region';
+import { serializeTextAnchor } from '../utils/textAnchor';
+import { formatViewport } from '../utils/viewport';
 
 export interface GitHubUser {
   login: string;
@@ -80,21 +96,57 @@ export interface GitHubResult<T = any> {
   error?: string;
 }
 
-async function githubProxyRequest(method: string, endpoint: string, data?: any): Promise<any> {
+interface GitHubProxyResponse {
+  payload: any;
+  headers: Headers;
+}
+
+// Cached GET responses keyed by endpoint, revalidated with If-None-Match.
+// GitHub does not count 304 responses against the rate limit.
+const ETAG_CACHE_MAX_ENTRIES = 200;
+const etagCache = new Map<string, { etag: string; payload: any; headers: Headers }>();
+
+const rememberEtag = (endpoint: string, etag: string, payload: any, headers: Headers): void => {
+  etagCache.delete(endpoint);
+  etagCache.set(endpoint, { etag, payload, headers });
+  if (etagCache.size > ETAG_CACHE_MAX_ENTRIES) {
+    const oldest = etagCache.keys().next().value;
+    if (oldest !== undefined) etagCache.delete(oldest);
+  }
+};
+
+async function githubProxyFetch(method: string, endpoint: string, data?: any): Promise<GitHubProxyResponse> {
   const token = getStoredToken();
   if (!token) {
     throw new Error('Not authenticated with GitHub');
   }
 
-  console.log(`🔵 GitHub API Request:`, { method, endpoint, hasData: !!data });
+  const cached = method === 'GET' ? etagCache.get(endpoint) : undefined;
 
-  const resp = await fetch('/api/github-api', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ token, method, endpoint, data }),
-  });
+  console.log(`🔵 GitHub API Request:`, { method, endpoint, hasData: !!data, conditional: !!cached });
+
+  const resp = await rateLimitedFetch('github', () =>
+    fetch('/api/github-api', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, method, endpoint, data, ifNoneMatch: cached?.etag }),
+    }),
+  );
+
+  if (resp.status === 304 && cached) {
+    console.log(`🔵 GitHub API Response: 304 Not Modified (cached)`, { endpoint });
+    return { payload: cached.payload, headers: cached.headers };
+  }
 
-  const payload = await resp.json();
+  // Deletes answer 204 No Content, so an empty body is a success too
+  const text = await resp.text();
+  const payload = (() => {
+    try {
+      return text ? JSON.parse(text) : {};
+    } catch {
+      return { message: text };
+    }
+  })();
 
   console.log(`🔵 GitHub API Response:`, {
     status: resp.status,
@@ -119,11 +171,36 @@ async function githubProxyRequest(method: string, endpoint: string, data?: any):
       `);
     }
 
-    throw new Error(message);
+    throw new ProviderRequestError(message, resp.status);
   }
+
+  const etag = resp.headers.get('x-github-etag');
+  if (method === 'GET' && etag) {
+    rememberEtag(endpoint, etag, payload, resp.headers);
+  }
+
+  return { payload, headers: resp.headers };
+}
+
+async function githubProxyRequest(method: string, endpoint: string, data?: any): Promise<any> {
+  const { payload } = await githubProxyFetch(method, endpoint, data);
   return payload;
 }
 
+/**
+ * GET every page of a list endpoint by following the `Link: rel="next"` header.
+ * Falls back to "a full page means there may be more" when the proxy doesn't forward Link.
+ */
+async function githubFetchAllPages(endpoint: string, options?: PaginationOptions): Promise<any[]> {
+  return collectPages(async (page, perPage) => {
+    const { payload, headers } = await githubProxyFetch('GET', withPageParams(endpoint, page, perPage));
+    const items = Array.isArray(payload) ? payload : [];
+    const linkHeader = headers.get('link');
+    const hasNext = linkHeader ? Boolean(parseLinkHeader(linkHeader).next) : items.length >= perPage;
+    return { items, hasNext };
+  }, options);
+}
+
 const encodePath = (path: string): string => {
   return path
     .split('/')
@@ -155,6 +232,79 @@ const issueHasAnyVersion = (issue: any): boolean => {
   return body.includes('Version:');
 };
 
+const isLegacyBodyScanEnabled = (): boolean => getEnv('VITE_SYNC_LEGACY_BODY_SCAN') !== 'false';
+
+// Issues with `Route:` body metadata but no `route:` label (created before labels, or label add failed).
+// Found by one scan per session that keeps only their numbers per route; the issues themselves are refetched on
+// every sync, so replies, edits and closes on them are picked up like on labeled issues.
+let legacyIssueNumbersPromise: Promise<Map<string, number[]>> | null = null;
+
+const resetLegacyIssueScan = (): void => {
+  legacyIssueNumbersPromise = null;
+};
+
+const LEGACY_ROUTE_PATTERN = /Route: `([^`]*)`/;
+
+const fetchLegacyIssuesForRoute = async (route: string, since?: string): Promise<any[]> => {
+  if (!isLegacyBodyScanEnabled()) return [];
+  const owner = getEnv('VITE_GITHUB_OWNER');
+  const repo = getEnv('VITE_GITHUB_REPO');
+  if (!legacyIssueNumbersPromise) {
+    console.log('🔵 GitHub: scanning issue bodies for legacy (unlabeled) route metadata');
+    legacyIssueNumbersPromise = githubFetchAllPages(`/repos/${owner}/${repo}/issues?state=all`).then((issues) => {
+      const numbersByRoute = new Map<string, number[]>();
+      issues.forEach((issue: any) => {
+        const hasRouteLabel = getLabelNames(issue).some((n) => n.startsWith('route:'));
+        const match = (issue?.body || '').match(LEGACY_ROUTE_PATTERN);
+        if (hasRouteLabel || !match) return;
+        numbersByRoute.set(match[1], [...(numbersByRoute.get(match[1]) || []), issue.number]);
+      });
+      return numbersByRoute;
+    });
+    legacyIssueNumbersPromise.catch(() => resetLegacyIssueScan());
+  }
+  const numbers = (await legacyIssueNumbersPromise).get(route) || [];
+  // GitHub can't list issues by number, so each is fetched on its own; unchanged ones come back as free 304s
+  const issues = await Promise.all(
+    numbers.map((n) =>
+      githubProxyRequest('GET', `/repos/${owner}/${repo}/issues/${n}`).catch((e: any) => {
+        // Deleted or transferred since the scan
+        if (e?.status === 404 || e?.status === 410) return null;
+        throw e;
+      }),
+    ),
+  );
+  return issues.filter(
+    (issue: any) => issue && (!since || new Date(issue.updated_at).getTime() >= new Date(since).getTime()),
+  );
+};
+
+const toCommentReaction = (reaction: any): CommentReaction => ({
+  id: reaction?.id,
+  content: reaction?.content,
+  user: reaction?.user?.login || '',
+});
+
+// Collaborators rarely change while someone is commenting; listed once per session for @mention suggestions
+let mentionableUsersPromise: Promise<ProviderUser[]> | null = null;
+
+const fetchMentionableUsersOnce = (): Promise<ProviderUser[]> => {
+  if (!mentionableUsersPromise) {
+    const owner = getEnv('VITE_GITHUB_OWNER');
+    const repo = getEnv('VITE_GITHUB_REPO');
+    // Listing collaborators needs push access; anyone who can read the repo can list assignees instead
+    mentionableUsersPromise = githubFetchAllPages(`/repos/${owner}/${repo}/collaborators`)
+      .catch(() => githubFetchAllPages(`/repos/${owner}/${repo}/assignees`))
+      .then((users) =>
+        users.filter((u: any) => u?.login).map((u: any): ProviderUser => ({ login: u.login, avatar: u.avatar_url || '' })),
+      );
+    mentionableUsersPromise.catch(() => {
+      mentionableUsersPromise = null;
+    });
+  }
+  return mentionableUsersPromise;
+};
+
 /**
  * GitHub implementation of the IssueProviderAdapter interface
  */
@@ -175,6 +325,11 @@ export class GitHubAdapter implements IssueProviderAdapter {
         params.version ? `- Version: \`${params.version}\`` : null,
         params.cssSelector ? `- Target Component: \`${params.elementDescription || 'unknown'}\`` : null,
         params.cssSelector ? `- CSS Selector: \`${params.cssSelector}\`` : null,
+        params.fingerprint ? `- Element Fingerprint: \`${serializeFingerprint(params.fingerprint)}\`` : null,
+        params.textAnchor ? `- Text Quote: \`${serializeTextAnchor(params.textAnchor)}\`` : null,
+        params.region ? `- Region: \`${formatRegion(params.region)}\`` : null,
+        params.annotations?.length ? `- Annotations: \`${serializeAnnotations(params.annotations)}\`` : null,
+        params.viewport ? `- Viewport: \`${formatViewport(params.viewport)}\`` : null,
         `- Fallback Position: \`(${params.xPercent.toFixed(1)}%, ${params.yPercent.toFixed(1)}%)\``,
       ]
         .filter(Boolean)
@@ -200,15 +355,20 @@ export class GitHubAdapter implements IssueProviderAdapter {
         if (params.version) labels.push(`version:${params.version}`);
         await githubProxyRequest('POST', `/repos/${owner}/${repo}/issues/${data.number}/labels`, { labels });
       } catch {
-        // ignore label failures
+        // ignore label failures; the issue is now only findable by body scan, so rescan next sync
+        resetLegacyIssueScan();
       }
 
       return { success: true, data };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to create issue' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to create issue' };
     }
   }
 
+  supportsNativeReplies(): boolean {
+    return false;
+  }
+
   async createComment(issueNumber: number, body: string): Promise<ProviderResult> {
     if (!isGitHubConfigured()) return { success: false, error: 'Please sign in with GitHub' };
     const owner = getEnv('VITE_GITHUB_OWNER');
@@ -218,28 +378,37 @@ export class GitHubAdapter implements IssueProviderAdapter {
       const data = await githubProxyRequest('POST', `/repos/${owner}/${repo}/issues/${issueNumber}/comments`, { body });
       return { success: true, data };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to create comment' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to create comment' };
     }
   }
 
-  async fetchIssuesForRouteAndVersion(route: string, version?: string): Promise<ProviderResult<any[]>> {
+  async fetchIssuesForRouteAndVersion(
+    route: string,
+    version?: string,
+    options?: FetchIssuesOptions,
+  ): Promise<ProviderResult<any[]>> {
     if (!isGitHubConfigured()) return { success: false, error: 'Please sign in with GitHub' };
     const owner = getEnv('VITE_GITHUB_OWNER');
     const repo = getEnv('VITE_GITHUB_REPO');
     try {
-      const data = await githubProxyRequest(
-        'GET',
-        `/repos/${owner}/${repo}/issues?state=all&per_page=100`,
+      const cursorKey = getSyncCursorKey('github', route, version);
+      const since = options?.incremental ? getSyncCursor(cursorKey) : undefined;
+      const sinceParam = since ? `&since=${encodeURIComponent(since)}` : '';
+
+      // Server-side filter: only issues carrying the route label
+      const labeled = await githubFetchAllPages(
+        `/repos/${owner}/${repo}/issues?state=all&labels=${encodeURIComponent(`route:${route}`)}${sinceParam}`,
+        options,
       );
-      // Filter by metadata OR labels (route:${route}), and optionally by version
-      const filtered = (Array.isArray(data) ? data : [])
-        .filter((issue: any) => {
-          const body: string = issue?.body || '';
-          const labels = getLabelNames(issue);
-          const bodyMatch = body.includes(`Route: \`${route}\``);
-          const labelMatch = labels.includes(`route:${route}`);
-          return bodyMatch || labelMatch;
-        })
+      // Fallback: legacy issues that only carry route metadata in the body
+      const legacy = await fetchLegacyIssuesForRoute(route, since);
+      const labeledNumbers = new Set(labeled.map((issue: any) => issue?.number));
+      const data = [...labeled, ...legacy.filter((issue: any) => !labeledNumbers.has(issue?.number))];
+      setSyncCursor(cursorKey, getLatestUpdatedAt(data));
+      if (since) console.log(`🔵 GitHub: incremental fetch since ${since} returned ${data.length} issue(s)`);
+
+      // Filter by version (issues without any version metadata count as "1")
+      const filtered = data
         .filter((issue: any) => {
           if (!version) return true;
 
@@ -255,22 +424,32 @@ export class GitHubAdapter implements IssueProviderAdapter {
         });
       return { success: true, data: filtered };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to fetch issues' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch issues' };
     }
   }
 
-  async fetchIssueComments(issueNumber: number): Promise<ProviderResult<any[]>> {
+  resetIncrementalSync(route?: string, version?: string): void {
+    clearSyncCursors('github', route !== undefined ? getSyncCursorKey('github', route, version) : undefined);
+  }
+
+  async fetchIssueComments(issueNumber: number, options?: PaginationOptions): Promise<ProviderResult<any[]>> {
     if (!isGitHubConfigured()) return { success: false, error: 'Please sign in with GitHub' };
     const owner = getEnv('VITE_GITHUB_OWNER');
     const repo = getEnv('VITE_GITHUB_REPO');
     try {
-      const data = await githubProxyRequest(
-        'GET',
-        `/repos/${owner}/${repo}/issues/${issueNumber}/comments?per_page=100`,
-      );
+      const data = await githubFetchAllPages(`/repos/${owner}/${repo}/issues/${issueNumber}/comments`, options);
       return { success: true, data };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to fetch issue comments' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch issue comments' };
+    }
+  }
+
+  async fetchMentionableUsers(): Promise<ProviderResult<ProviderUser[]>> {
+    if (!isGitHubConfigured()) return { success: false, error: 'Please sign in with GitHub' };
+    try {
+      return { success: true, data: await fetchMentionableUsersOnce() };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch collaborators' };
     }
   }
 
@@ -282,7 +461,7 @@ export class GitHubAdapter implements IssueProviderAdapter {
       const data = await githubProxyRequest('PATCH', `/repos/${owner}/${repo}/issues/comments/${commentId}`, { body });
       return { success: true, data };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to update comment' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to update comment' };
     }
   }
 
@@ -294,7 +473,49 @@ export class GitHubAdapter implements IssueProviderAdapter {
       await githubProxyRequest('DELETE', `/repos/${owner}/${repo}/issues/comments/${commentId}`);
       return { success: true, data: {} };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to delete comment' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to delete comment' };
+    }
+  }
+
+  supportsReactions(): boolean {
+    return true;
+  }
+
+  async fetchCommentReactions(commentId: number, _issueNumber?: number): Promise<ProviderResult<CommentReaction[]>> {
+    if (!isGitHubConfigured()) return { success: false, error: 'Please sign in with GitHub' };
+    const owner = getEnv('VITE_GITHUB_OWNER');
+    const repo = getEnv('VITE_GITHUB_REPO');
+    try {
+      const data = await githubFetchAllPages(`/repos/${owner}/${repo}/issues/comments/${commentId}/reactions`);
+      return { success: true, data: data.map(toCommentReaction) };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch reactions' };
+    }
+  }
+
+  async addCommentReaction(commentId: number, content: ReactionContent, _issueNumber?: number): Promise<ProviderResult<CommentReaction>> {
+    if (!isGitHubConfigured()) return { success: false, error: 'Please sign in with GitHub' };
+    const owner = getEnv('VITE_GITHUB_OWNER');
+    const repo = getEnv('VITE_GITHUB_REPO');
+    try {
+      // Returns the existing reaction when the user already reacted with this content
+      const data = await githubProxyRequest('POST', `/repos/${owner}/${repo}/issues/comments/${commentId}/reactions`, { content });
+      return { success: true, data: toCommentReaction(data) };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to add reaction' };
+    }
+  }
+
+  async removeCommentReaction(commentId: number, reaction: CommentReaction, _issueNumber?: number): Promise<ProviderResult> {
+    if (!isGitHubConfigured()) return { success: false, error: 'Please sign in with GitHub' };
+    if (!reaction.id) return { success: false, error: 'Reaction id is required to remove a GitHub reaction' };
+    const owner = getEnv('VITE_GITHUB_OWNER');
+    const repo = getEnv('VITE_GITHUB_REPO');
+    try {
+      await githubProxyRequest('DELETE', `/repos/${owner}/${repo}/issues/comments/${commentId}/reactions/${reaction.id}`);
+      return { success: true, data: {} };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to remove reaction' };
     }
   }
 
@@ -306,7 +527,7 @@ export class GitHubAdapter implements IssueProviderAdapter {
       const data = await githubProxyRequest('PATCH', `/repos/${owner}/${repo}/issues/${issueNumber}`, { state: 'closed' });
       return { success: true, data };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to close issue' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to close issue' };
     }
   }
 
@@ -318,7 +539,7 @@ export class GitHubAdapter implements IssueProviderAdapter {
       const data = await githubProxyRequest('PATCH', `/repos/${owner}/${repo}/issues/${issueNumber}`, { state: 'open' });
       return { success: true, data };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to reopen issue' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to reopen issue' };
     }
   }
 
@@ -338,11 +559,11 @@ export class GitHubAdapter implements IssueProviderAdapter {
       if (String(e?.message || '').toLowerCase().includes('not found')) {
         return { success: true, data: null };
       }
-      return { success: false, error: e?.message || 'Failed to read repo file' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to read repo file' };
     }
   }
 
-  async putRepoFile(params: PutRepoFileParams): Promise<ProviderResult<{ sha: string }>> {
+  async putRepoFile(params: PutRepoFileParams): Promise<ProviderResult<{ sha: string; url?: string }>> {
     if (!isGitHubConfigured()) return { success: false, error: 'Please sign in with GitHub' };
     const owner = getEnv('VITE_GITHUB_OWNER');
     const repo = getEnv('VITE_GITHUB_REPO');
@@ -358,9 +579,29 @@ export class GitHubAdapter implements IssueProviderAdapter {
         payload,
       );
       const newSha = data?.content?.sha as string | undefined;
-      return { success: true, data: { sha: newSha || params.sha || '' } };
+      const url = data?.content?.download_url as string | undefined;
+      return { success: true, data: { sha: newSha || params.sha || '', url } };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to write repo file' };
+    }
+  }
+
+  async uploadAttachment(params: UploadAttachmentParams): Promise<ProviderResult<AttachmentData>> {
+    if (!isGitHubConfigured()) return { success: false, error: 'Please sign in with GitHub' };
+    const owner = getEnv('VITE_GITHUB_OWNER');
+    const repo = getEnv('VITE_GITHUB_REPO');
+    try {
+      const data = await githubProxyRequest('PUT', `/repos/${owner}/${repo}/contents/${encodePath(getAttachmentPath(params.filename))}`, {
+        message: params.message || `Add attachment ${params.filename}`,
+        content: params.contentBase64,
+      });
+      // download_url carries a short-lived token for private repos; the blob link with ?raw=true keeps working
+      const htmlUrl = data?.content?.html_url as string | undefined;
+      const url = htmlUrl ? `${htmlUrl}?raw=true` : (data?.content?.download_url as string | undefined);
+      if (!url) return { success: false, error: 'GitHub did not return a link to the uploaded file' };
+      return { success: true, data: { url } };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to write repo file' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to upload attachment' };
     }
   }
 }
@@ -373,14 +614,22 @@ export const githubAdapter = {
   createIssue: (params: CreateIssueParams) => githubAdapterInstance.createIssue(params),
   createComment: (issueNumber: number, body: string) => githubAdapterInstance.createComment(issueNumber, body),
   fetchIssuesForRoute: (route: string) => githubAdapterInstance.fetchIssuesForRouteAndVersion(route),
-  fetchIssuesForRouteAndVersion: (route: string, version?: string) => githubAdapterInstance.fetchIssuesForRouteAndVersion(route, version),
-  fetchIssueComments: (issueNumber: number) => githubAdapterInstance.fetchIssueComments(issueNumber),
+  fetchIssuesForRouteAndVersion: (route: string, version?: string, options?: FetchIssuesOptions) =>
+    githubAdapterInstance.fetchIssuesForRouteAndVersion(route, version, options),
+  fetchIssueComments: (issueNumber: number, options?: PaginationOptions) =>
+    githubAdapterInstance.fetchIssueComments(issueNumber, options),
+  fetchMentionableUsers: () => githubAdapterInstance.fetchMentionableUsers(),
   updateComment: (commentId: number, body: string) => githubAdapterInstance.updateComment(commentId, body),
   deleteComment: (commentId: number) => githubAdapterInstance.deleteComment(commentId),
+  fetchCommentReactions: (commentId: number) => githubAdapterInstance.fetchCommentReactions(commentId),
+  addCommentReaction: (commentId: number, content: ReactionContent) => githubAdapterInstance.addCommentReaction(commentId, content),
+  removeCommentReaction: (commentId: number, reaction: CommentReaction) =>
+    githubAdapterInstance.removeCommentReaction(commentId, reaction),
   closeIssue: (issueNumber: number) => githubAdapterInstance.closeIssue(issueNumber),
   reopenIssue: (issueNumber: number) => githubAdapterInstance.reopenIssue(issueNumber),
   getRepoFile: (path: string) => githubAdapterInstance.getRepoFile(path),
   putRepoFile: (params: PutRepoFileParams) => githubAdapterInstance.putRepoFile(params),
+  uploadAttachment: (params: UploadAttachmentParams) => githubAdapterInstance.uploadAttachment(params),
 };
 
 
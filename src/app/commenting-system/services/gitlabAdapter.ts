@@ -1,11 +1,27 @@
 import { getEnv } from '../utils/env';
+import { rateLimitedFetch } from './rateLimiter';
+import { ProviderRequestError } from './providerRequestError';
+import { collectPages, withPageParams } from '../utils/pagination';
+import { clearSyncCursors, getLatestUpdatedAt, getSyncCursor, getSyncCursorKey, setSyncCursor } from '../utils/syncCursors';
 import {
   IssueProviderAdapter,
   CreateIssueParams,
   IssueData,
+  FetchIssuesOptions,
+  PaginationOptions,
   PutRepoFileParams,
   ProviderResult,
+  UploadAttachmentParams,
+  AttachmentData,
+  CommentReaction,
+  ReactionContent,
+  ProviderUser,
 } from '../types/provider';
+import { serializeAnnotations } from '../utils/annotations';
+import { serializeFingerprint } from '../utils/fingerprint';
+import { formatRegion } from '../utils/region';
+import { serializeTextAnchor } from '../utils/textAnchor';
+import { formatViewport } from '../utils/viewport';
 
 export interface GitLabUser {
   login: string;
@@ -72,21 +88,42 @@ export const diagnoseGitLabSetup = () => {
   };
 };
 
-async function gitlabProxyRequest(method: string, endpoint: string, data?: any): Promise<any> {
+interface GitLabProxyResponse {
+  payload: any;
+  headers: Headers;
+}
+
+async function gitlabProxyFetch(
+  method: string,
+  endpoint: string,
+  data?: any,
+  upload?: UploadAttachmentParams,
+): Promise<GitLabProxyResponse> {
   const token = getStoredToken();
   if (!token) {
     throw new Error('Not authenticated with GitLab');
   }
 
-  console.log(`🟠 GitLab API Request:`, { method, endpoint, hasData: !!data });
+  console.log(`🟠 GitLab API Request:`, { method, endpoint, hasData: !!data, upload: upload?.filename });
 
-  const resp = await fetch('/api/gitlab-api', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ token, method, endpoint, data }),
-  });
+  const resp = await rateLimitedFetch('gitlab', () =>
+    fetch('/api/gitlab-api', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // The proxy turns `upload` into a multipart request
+      body: JSON.stringify({ token, method, endpoint, data, upload }),
+    }),
+  );
 
-  const payload = await resp.json();
+  // Deletes answer 204 No Content, so an empty body is a success too
+  const text = await resp.text();
+  const payload = (() => {
+    try {
+      return text ? JSON.parse(text) : {};
+    } catch {
+      return { message: text };
+    }
+  })();
 
   console.log(`🟠 GitLab API Response:`, {
     status: resp.status,
@@ -111,11 +148,30 @@ async function gitlabProxyRequest(method: string, endpoint: string, data?: any):
       `);
     }
 
-    throw new Error(message);
+    throw new ProviderRequestError(message, resp.status);
   }
+  return { payload, headers: resp.headers };
+}
+
+async function gitlabProxyRequest(method: string, endpoint: string, data?: any): Promise<any> {
+  const { payload } = await gitlabProxyFetch(method, endpoint, data);
   return payload;
 }
 
+/**
+ * GET every page of a list endpoint by following GitLab's `X-Next-Page` cursor header.
+ * Falls back to "a full page means there may be more" when the proxy doesn't forward it.
+ */
+async function gitlabFetchAllPages(endpoint: string, options?: PaginationOptions): Promise<any[]> {
+  return collectPages(async (page, perPage) => {
+    const { payload, headers } = await gitlabProxyFetch('GET', withPageParams(endpoint, page, perPage));
+    const items = Array.isArray(payload) ? payload : [];
+    const nextPage = headers.get('x-next-page');
+    const hasNext = nextPage !== null ? Boolean(nextPage.trim()) : items.length >= perPage;
+    return { items, hasNext };
+  }, options);
+}
+
 const encodePath = (path: string): string => {
   // GitLab requires double encoding for file paths
   return encodeURIComponent(path.replace(/\//g, '%2F'));
@@ -152,6 +208,103 @@ const getProjectId = (): string => {
   return encodeURIComponent(projectPath);
 };
 
+const isLegacyBodyScanEnabled = (): boolean => getEnv('VITE_SYNC_LEGACY_BODY_SCAN') !== 'false';
+
+// Note id -> id of the discussion it belongs to, filled while reading discussions so replies can be posted into them
+const discussionIdByNoteId = new Map<number, string>();
+
+/**
+ * Flatten an issue's discussions into GitHub-style comments, oldest first. Replies get the id of the note that
+ * started their discussion as `parent_id`; system notes (label changes, etc.) are left out.
+ */
+const flattenDiscussions = (discussions: any[]): any[] => {
+  const comments: any[] = [];
+  discussions.forEach((discussion: any) => {
+    const notes = (Array.isArray(discussion?.notes) ? discussion.notes : []).filter((note: any) => !note?.system);
+    const root = notes[0];
+    notes.forEach((note: any) => {
+      discussionIdByNoteId.set(note.id, discussion.id);
+      comments.push({
+        ...note,
+        user: { login: note.author?.username }, // Add 'user' field for compatibility
+        parent_id: note === root ? undefined : root.id,
+      });
+    });
+  });
+  return comments.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+};
+
+
+// Issues with `Route:` description metadata but no `route:` label (created before labels were added).
+// Found by one scan per session that keeps only their IIDs per route; the issues themselves are refetched on
+// every sync, so replies, edits and closes on them are picked up like on labeled issues.
+let legacyIssueIidsPromise: Promise<Map<string, number[]>> | null = null;
+
+const LEGACY_ROUTE_PATTERN = /Route: `([^`]*)`/;
+
+const fetchLegacyIssuesForRoute = async (route: string, updatedAfter?: string): Promise<any[]> => {
+  if (!isLegacyBodyScanEnabled()) return [];
+  const projectId = getProjectId();
+  if (!legacyIssueIidsPromise) {
+    console.log('🟠 GitLab: scanning issue descriptions for legacy (unlabeled) route metadata');
+    legacyIssueIidsPromise = gitlabFetchAllPages(`/projects/${projectId}/issues?scope=all`).then((issues) => {
+      const iidsByRoute = new Map<string, number[]>();
+      issues.forEach((issue: any) => {
+        const hasRouteLabel = getLabelNames(issue).some((n) => n.startsWith('route:'));
+        const match = (issue?.description || '').match(LEGACY_ROUTE_PATTERN);
+        if (hasRouteLabel || !match) return;
+        iidsByRoute.set(match[1], [...(iidsByRoute.get(match[1]) || []), issue.iid]);
+      });
+      return iidsByRoute;
+    });
+    legacyIssueIidsPromise.catch(() => {
+      legacyIssueIidsPromise = null;
+    });
+  }
+  const iids = (await legacyIssueIidsPromise).get(route) || [];
+  if (!iids.length) return [];
+  const iidParams = iids.map((iid) => `&iids[]=${iid}`).join('');
+  const updatedAfterParam = updatedAfter ? `&updated_after=${encodeURIComponent(updatedAfter)}` : '';
+  return gitlabFetchAllPages(`/projects/${projectId}/issues?scope=all${iidParams}${updatedAfterParam}`);
+};
+
+// GitLab award emoji names for the reactions we offer
+const AWARD_EMOJI_BY_REACTION: Record<ReactionContent, string> = {
+  '+1': 'thumbsup',
+  '-1': 'thumbsdown',
+  laugh: 'smile',
+  hooray: 'tada',
+  confused: 'confused',
+  heart: 'heart',
+  rocket: 'rocket',
+  eyes: 'eyes',
+};
+
+const toCommentReaction = (award: any): CommentReaction | null => {
+  const content = (Object.keys(AWARD_EMOJI_BY_REACTION) as ReactionContent[]).find(
+    (key) => AWARD_EMOJI_BY_REACTION[key] === award?.name,
+  );
+  return content ? { id: award.id, content, user: award?.user?.username || '' } : null;
+};
+
+// Listed once per session for @mention suggestions
+let mentionableUsersPromise: Promise<ProviderUser[]> | null = null;
+
+const fetchMentionableUsersOnce = (): Promise<ProviderUser[]> => {
+  if (!mentionableUsersPromise) {
+    // members/all includes people who get access through the project's group(s)
+    mentionableUsersPromise = gitlabFetchAllPages(`/projects/${getProjectId()}/members/all`).then((members) =>
+      members
+        .filter((m: any) => m?.username && m.state !== 'blocked')
+        .map((m: any): ProviderUser => ({ login: m.username, avatar: m.avatar_url || '', name: m.name || undefined })),
+    );
+    mentionableUsersPromise.catch(() => {
+      mentionableUsersPromise = null;
+    });
+  }
+  return mentionableUsersPromise;
+};
+
 /**
  * GitLab implementation of the IssueProviderAdapter interface
  */
@@ -171,6 +324,11 @@ export class GitLabAdapter implements IssueProviderAdapter {
         params.version ? `- Version: \`${params.version}\`` : null,
         params.cssSelector ? `- Target Component: \`${params.elementDescription || 'unknown'}\`` : null,
         params.cssSelector ? `- CSS Selector: \`${params.cssSelector}\`` : null,
+        params.fingerprint ? `- Element Fingerprint: \`${serializeFingerprint(params.fingerprint)}\`` : null,
+        params.textAnchor ? `- Text Quote: \`${serializeTextAnchor(params.textAnchor)}\`` : null,
+        params.region ? `- Region: \`${formatRegion(params.region)}\`` : null,
+        params.annotations?.length ? `- Annotations: \`${serializeAnnotations(params.annotations)}\`` : null,
+        params.viewport ? `- Viewport: \`${formatViewport(params.viewport)}\`` : null,
         `- Fallback Position: \`(${params.xPercent.toFixed(1)}%, ${params.yPercent.toFixed(1)}%)\``,
       ]
         .filter(Boolean)
@@ -206,42 +364,71 @@ export class GitLabAdapter implements IssueProviderAdapter {
         }
       };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to create issue' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to create issue' };
     }
   }
 
-  async createComment(issueNumber: number, body: string): Promise<ProviderResult> {
+  supportsNativeReplies(): boolean {
+    return true;
+  }
+
+  async createComment(issueNumber: number, body: string, replyTo?: number): Promise<ProviderResult> {
     if (!isGitLabConfigured()) return { success: false, error: 'Please sign in with GitLab' };
     const projectId = getProjectId();
 
     try {
+      if (replyTo) {
+        // The parent may have been posted by someone else since we last read the discussions
+        if (!discussionIdByNoteId.has(replyTo)) await this.fetchIssueComments(issueNumber);
+        const discussionId = discussionIdByNoteId.get(replyTo);
+        if (discussionId) {
+          // Replying to a standalone comment turns it into a thread, like "Reply" in the GitLab UI
+          const data = await gitlabProxyRequest(
+            'POST',
+            `/projects/${projectId}/issues/${issueNumber}/discussions/${discussionId}/notes`,
+            { body },
+          );
+          discussionIdByNoteId.set(data.id, discussionId);
+          return { success: true, data };
+        }
+        console.warn(`⚠️ GitLab: no discussion found for note ${replyTo}, posting the reply as a new comment`);
+      }
+
       // GitLab uses 'notes' instead of 'comments'
       const data = await gitlabProxyRequest('POST', `/projects/${projectId}/issues/${issueNumber}/notes`, { body });
+      if (data?.discussion_id) discussionIdByNoteId.set(data.id, data.discussion_id);
       return { success: true, data };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to create comment' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to create comment' };
     }
   }
 
-  async fetchIssuesForRouteAndVersion(route: string, version?: string): Promise<ProviderResult<any[]>> {
+  async fetchIssuesForRouteAndVersion(
+    route: string,
+    version?: string,
+    options?: FetchIssuesOptions,
+  ): Promise<ProviderResult<any[]>> {
     if (!isGitLabConfigured()) return { success: false, error: 'Please sign in with GitLab' };
     const projectId = getProjectId();
     try {
-      // GitLab API uses 'scope=all' to get all issues (open and closed)
-      const data = await gitlabProxyRequest(
-        'GET',
-        `/projects/${projectId}/issues?scope=all&per_page=100`,
+      const cursorKey = getSyncCursorKey('gitlab', route, version);
+      const updatedAfter = options?.incremental ? getSyncCursor(cursorKey) : undefined;
+      const updatedAfterParam = updatedAfter ? `&updated_after=${encodeURIComponent(updatedAfter)}` : '';
+
+      // GitLab API uses 'scope=all' to get all issues (open and closed); filter server-side by route label
+      const labeled = await gitlabFetchAllPages(
+        `/projects/${projectId}/issues?scope=all&labels=${encodeURIComponent(`route:${route}`)}${updatedAfterParam}`,
+        options,
       );
-
-      // Filter by metadata OR labels (route:${route}), and optionally by version
-      const filtered = (Array.isArray(data) ? data : [])
-        .filter((issue: any) => {
-          const body: string = issue?.description || '';
-          const labels = getLabelNames(issue);
-          const bodyMatch = body.includes(`Route: \`${route}\``);
-          const labelMatch = labels.includes(`route:${route}`);
-          return bodyMatch || labelMatch;
-        })
+      // Fallback: legacy issues that only carry route metadata in the description
+      const legacy = await fetchLegacyIssuesForRoute(route, updatedAfter);
+      const labeledIids = new Set(labeled.map((issue: any) => issue?.iid));
+      const data = [...labeled, ...legacy.filter((issue: any) => !labeledIids.has(issue?.iid))];
+      setSyncCursor(cursorKey, getLatestUpdatedAt(data));
+      if (updatedAfter) console.log(`🟠 GitLab: incremental fetch since ${updatedAfter} returned ${data.length} issue(s)`);
+
+      // Filter by version (issues without any version metadata count as "1")
+      const filtered = data
         .filter((issue: any) => {
           if (!version) return true;
 
@@ -266,22 +453,32 @@ export class GitLabAdapter implements IssueProviderAdapter {
 
       return { success: true, data: normalized };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to fetch issues' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch issues' };
     }
   }
 
-  async fetchIssueComments(issueNumber: number): Promise<ProviderResult<any[]>> {
+  resetIncrementalSync(route?: string, version?: string): void {
+    clearSyncCursors('gitlab', route !== undefined ? getSyncCursorKey('gitlab', route, version) : undefined);
+  }
+
+  async fetchIssueComments(issueNumber: number, options?: PaginationOptions): Promise<ProviderResult<any[]>> {
     if (!isGitLabConfigured()) return { success: false, error: 'Please sign in with GitLab' };
     const projectId = getProjectId();
     try {
-      // GitLab uses 'notes' instead of 'comments'
-      const data = await gitlabProxyRequest(
-        'GET',
-        `/projects/${projectId}/issues/${issueNumber}/notes?per_page=100`,
-      );
-      return { success: true, data };
+      // Read notes through their discussions so replies keep their thread
+      const discussions = await gitlabFetchAllPages(`/projects/${projectId}/issues/${issueNumber}/discussions`, options);
+      return { success: true, data: flattenDiscussions(discussions) };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to fetch issue comments' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch issue comments' };
+    }
+  }
+
+  async fetchMentionableUsers(): Promise<ProviderResult<ProviderUser[]>> {
+    if (!isGitLabConfigured()) return { success: false, error: 'Please sign in with GitLab' };
+    try {
+      return { success: true, data: await fetchMentionableUsersOnce() };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch project members' };
     }
   }
 
@@ -299,7 +496,7 @@ export class GitLabAdapter implements IssueProviderAdapter {
       const data = await gitlabProxyRequest('PUT', `/projects/${projectId}/issues/${issueNumber}/notes/${commentId}`, { body });
       return { success: true, data };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to update comment' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to update comment' };
     }
   }
 
@@ -316,7 +513,54 @@ export class GitLabAdapter implements IssueProviderAdapter {
       await gitlabProxyRequest('DELETE', `/projects/${projectId}/issues/${issueNumber}/notes/${commentId}`);
       return { success: true, data: {} };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to delete comment' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to delete comment' };
+    }
+  }
+
+  supportsReactions(): boolean {
+    return true;
+  }
+
+  async fetchCommentReactions(commentId: number, issueNumber?: number): Promise<ProviderResult<CommentReaction[]>> {
+    if (!isGitLabConfigured()) return { success: false, error: 'Please sign in with GitLab' };
+    if (!issueNumber) return { success: false, error: 'Issue number is required for GitLab award emoji' };
+
+    const projectId = getProjectId();
+    try {
+      const data = await gitlabFetchAllPages(`/projects/${projectId}/issues/${issueNumber}/notes/${commentId}/award_emoji`);
+      // Emoji without a matching reaction (awarded in GitLab itself) are left out
+      return { success: true, data: data.map(toCommentReaction).filter((r): r is CommentReaction => r !== null) };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch reactions' };
+    }
+  }
+
+  async addCommentReaction(commentId: number, content: ReactionContent, issueNumber?: number): Promise<ProviderResult<CommentReaction>> {
+    if (!isGitLabConfigured()) return { success: false, error: 'Please sign in with GitLab' };
+    if (!issueNumber) return { success: false, error: 'Issue number is required for GitLab award emoji' };
+
+    const projectId = getProjectId();
+    try {
+      const data = await gitlabProxyRequest('POST', `/projects/${projectId}/issues/${issueNumber}/notes/${commentId}/award_emoji`, {
+        name: AWARD_EMOJI_BY_REACTION[content],
+      });
+      return { success: true, data: { id: data?.id, content, user: data?.user?.username || '' } };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to add reaction' };
+    }
+  }
+
+  async removeCommentReaction(commentId: number, reaction: CommentReaction, issueNumber?: number): Promise<ProviderResult> {
+    if (!isGitLabConfigured()) return { success: false, error: 'Please sign in with GitLab' };
+    if (!issueNumber) return { success: false, error: 'Issue number is required for GitLab award emoji' };
+    if (!reaction.id) return { success: false, error: 'Award emoji id is required to remove a GitLab reaction' };
+
+    const projectId = getProjectId();
+    try {
+      await gitlabProxyRequest('DELETE', `/projects/${projectId}/issues/${issueNumber}/notes/${commentId}/award_emoji/${reaction.id}`);
+      return { success: true, data: {} };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to remove reaction' };
     }
   }
 
@@ -328,7 +572,7 @@ export class GitLabAdapter implements IssueProviderAdapter {
       const data = await gitlabProxyRequest('PUT', `/projects/${projectId}/issues/${issueNumber}`, { state_event: 'close' });
       return { success: true, data };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to close issue' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to close issue' };
     }
   }
 
@@ -340,7 +584,7 @@ export class GitLabAdapter implements IssueProviderAdapter {
       const data = await gitlabProxyRequest('PUT', `/projects/${projectId}/issues/${issueNumber}`, { state_event: 'reopen' });
       return { success: true, data };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to reopen issue' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to reopen issue' };
     }
   }
 
@@ -361,11 +605,11 @@ export class GitLabAdapter implements IssueProviderAdapter {
           String(e?.message || '').toLowerCase().includes('file not found')) {
         return { success: true, data: null };
       }
-      return { success: false, error: e?.message || 'Failed to read repo file' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to read repo file' };
     }
   }
 
-  async putRepoFile(params: PutRepoFileParams): Promise<ProviderResult<{ sha: string }>> {
+  async putRepoFile(params: PutRepoFileParams): Promise<ProviderResult<{ sha: string; url?: string }>> {
     if (!isGitLabConfigured()) return { success: false, error: 'Please sign in with GitLab' };
     const projectId = getProjectId();
     try {
@@ -389,9 +633,26 @@ export class GitLabAdapter implements IssueProviderAdapter {
 
       // GitLab returns commit info, not the blob SHA directly
       const newSha = data?.file_path ? 'updated' : params.sha || 'created';
-      return { success: true, data: { sha: newSha } };
+      const baseUrl = (getEnv('VITE_GITLAB_BASE_URL') || '').replace(/\/+$/, '');
+      const url = `${baseUrl}/${getEnv('VITE_GITLAB_PROJECT_PATH')}/-/raw/main/${params.path.split('/').map(encodeURIComponent).join('/')}`;
+      return { success: true, data: { sha: newSha, url } };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to write repo file' };
+    }
+  }
+
+  async uploadAttachment(params: UploadAttachmentParams): Promise<ProviderResult<AttachmentData>> {
+    if (!isGitLabConfigured()) return { success: false, error: 'Please sign in with GitLab' };
+    const projectId = getProjectId();
+    try {
+      const { payload } = await gitlabProxyFetch('POST', `/projects/${projectId}/uploads`, undefined, params);
+      // `full_path` is absolute on the instance (newer GitLab); older versions only return a project-relative `url`
+      const baseUrl = (getEnv('VITE_GITLAB_BASE_URL') || '').replace(/\/+$/, '');
+      const path = payload?.full_path || (payload?.url ? `/${getEnv('VITE_GITLAB_PROJECT_PATH')}${payload.url}` : '');
+      if (!path) return { success: false, error: 'GitLab did not return a link to the uploaded file' };
+      return { success: true, data: { url: `${baseUrl}${path}` } };
     } catch (e: any) {
-      return { success: false, error: e?.message || 'Failed to write repo file' };
+      return { success: false, status: e?.status, error: e?.message || 'Failed to upload attachment' };
     }
   }
 }
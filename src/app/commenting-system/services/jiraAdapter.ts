@@ -0,0 +1,438 @@
+import { getEnv } from '../utils/env';
+import { rateLimitedFetch } from './rateLimiter';
+import { ProviderRequestError } from './providerRequestError';
+import { collectPages } from '../utils/pagination';
+import {
+  CreateIssueParams,
+  FetchIssuesOptions,
+  IssueData,
+  IssueProviderAdapter,
+  PaginationOptions,
+  ProviderResult,
+  ProviderUser,
+  PutRepoFileParams,
+  CommentReaction,
+  ReactionContent,
+} from '../types/provider';
+import { serializeAnnotations } from '../utils/annotations';
+import { serializeFingerprint } from '../utils/fingerprint';
+import { formatRegion } from '../utils/region';
+import { serializeTextAnchor } from '../utils/textAnchor';
+import { formatViewport } from '../utils/viewport';
+
+export const JIRA_TOKEN_STORAGE_KEY = 'jira_access_token';
+export const JIRA_USER_STORAGE_KEY = 'jira_user';
+
+// Jira requests are authenticated by the dev server (JIRA_EMAIL / JIRA_API_TOKEN in .env.server),
+// so the browser only stores a marker saying the user has signed in.
+export const JIRA_SERVER_AUTH_MARKER = 'server-credentials';
+
+export const storeJiraAuth = (user: ProviderUser) => {
+  localStorage.setItem(JIRA_TOKEN_STORAGE_KEY, JIRA_SERVER_AUTH_MARKER);
+  localStorage.setItem(JIRA_USER_STORAGE_KEY, JSON.stringify(user));
+};
+
+export const clearJiraAuth = () => {
+  localStorage.removeItem(JIRA_TOKEN_STORAGE_KEY);
+  localStorage.removeItem(JIRA_USER_STORAGE_KEY);
+};
+
+export const getStoredToken = (): string | null => {
+  return localStorage.getItem(JIRA_TOKEN_STORAGE_KEY);
+};
+
+export const getStoredUser = (): ProviderUser | null => {
+  const raw = localStorage.getItem(JIRA_USER_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ProviderUser;
+  } catch {
+    return null;
+  }
+};
+
+const getJiraBaseUrl = (): string =>
+  (getEnv('VITE_JIRA_BASE_URL') || 'https://issues.redhat.com').replace(/\/+$/, '');
+
+const getProjectKey = (): string => getEnv('VITE_JIRA_PROJECT_KEY') || '';
+
+export const isJiraConfigured = (): boolean => {
+  return Boolean(getStoredToken() && getProjectKey());
+};
+
+async function jiraProxyRequest(method: string, endpoint: string, data?: any): Promise<any> {
+  console.log(`🔷 Jira API Request:`, { method, endpoint, hasData: !!data });
+
+  const resp = await rateLimitedFetch('jira', () =>
+    fetch('/api/jira-api', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ method, endpoint, data }),
+    }),
+  );
+
+  const text = await resp.text();
+  const payload = (() => {
+    try {
+      return text ? JSON.parse(text) : {};
+    } catch {
+      return { message: text };
+    }
+  })();
+
+  console.log(`🔷 Jira API Response:`, {
+    status: resp.status,
+    ok: resp.ok,
+    payload
+  });
+
+  if (!resp.ok) {
+    // Jira reports validation problems as { errorMessages: [], errors: { field: msg } }
+    const fieldErrors = payload?.errors && typeof payload.errors === 'object' ? Object.values(payload.errors) : [];
+    const message =
+      (Array.isArray(payload?.errorMessages) && payload.errorMessages[0]) ||
+      fieldErrors[0] ||
+      payload?.message ||
+      `Jira API error (${resp.status})`;
+    throw new ProviderRequestError(String(message), resp.status);
+  }
+  return payload;
+}
+
+/**
+ * Sign in to Jira by resolving the account behind the dev server's configured credentials
+ */
+export async function signInToJira(): Promise<ProviderResult<ProviderUser>> {
+  try {
+    const me = await jiraProxyRequest('GET', '/myself');
+    const user: ProviderUser = {
+      login: me?.name || me?.displayName || me?.emailAddress || 'jira-user',
+      avatar: me?.avatarUrls?.['48x48'] || '',
+    };
+    storeJiraAuth(user);
+    return { success: true, data: user };
+  } catch (e: any) {
+    return { success: false, status: e?.status, error: e?.message || 'Failed to sign in to Jira' };
+  }
+}
+
+const SEARCH_FIELDS = ['summary', 'description', 'labels', 'status', 'created', 'updated'];
+
+// Set once Jira Cloud reports the classic `/search` endpoint as gone
+let useEnhancedSearch = false;
+
+/**
+ * Run a JQL search across all pages. Uses `/search` (Server/DC) and switches to the
+ * token-paginated `/search/jql` when Jira Cloud reports the classic endpoint as gone.
+ */
+async function jiraSearchAll(jql: string, options?: PaginationOptions): Promise<any[]> {
+  let nextStartAt = 0;
+  let nextPageToken: string | undefined;
+
+  return collectPages(async (_page, perPage) => {
+    if (!useEnhancedSearch) {
+      try {
+        const data = await jiraProxyRequest('POST', '/search', {
+          jql,
+          startAt: nextStartAt,
+          maxResults: perPage,
+          fields: SEARCH_FIELDS,
+        });
+        const items = Array.isArray(data?.issues) ? data.issues : [];
+        nextStartAt += items.length;
+        return { items, hasNext: nextStartAt < (data?.total ?? 0) };
+      } catch (e: any) {
+        if (!(e instanceof ProviderRequestError) || (e.status !== 410 && e.status !== 404)) throw e;
+        console.warn('⚠️ Jira /search unavailable, switching to /search/jql');
+        useEnhancedSearch = true;
+      }
+    }
+
+    const data = await jiraProxyRequest('POST', '/search/jql', {
+      jql,
+      maxResults: perPage,
+      fields: SEARCH_FIELDS,
+      ...(nextPageToken ? { nextPageToken } : {}),
+    });
+    const items = Array.isArray(data?.issues) ? data.issues : [];
+    nextPageToken = data?.nextPageToken;
+    return { items, hasNext: Boolean(nextPageToken) && !data?.isLast };
+  }, options);
+}
+
+// JQL string literal
+const jqlQuote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Jira labels cannot contain whitespace
+const toJiraLabel = (label: string): string => label.replace(/\s+/g, '_');
+
+const getLabelNames = (issue: any): string[] => {
+  const labels = issue?.labels;
+  if (!Array.isArray(labels)) return [];
+  return labels.filter((n: any) => typeof n === 'string');
+};
+
+const issueHasAnyVersion = (issue: any): boolean => {
+  const labelNames = getLabelNames(issue);
+  if (labelNames.some((n) => n.startsWith('version:'))) return true;
+  const body: string = issue?.body || '';
+  return body.includes('Version:');
+};
+
+// Normalize Jira issues/comments to the GitHub-shaped objects CommentContext consumes
+const normalizeIssue = (issue: any) => {
+  const fields = issue?.fields || {};
+  return {
+    ...issue,
+    number: Number(issue?.id), // Jira accepts the numeric id anywhere an issue key is accepted
+    html_url: `${getJiraBaseUrl()}/browse/${issue?.key}`,
+    title: fields.summary || '',
+    body: typeof fields.description === 'string' ? fields.description : '',
+    state: fields.status?.statusCategory?.key === 'done' ? 'closed' : 'open',
+    labels: Array.isArray(fields.labels) ? fields.labels : [],
+    created_at: fields.created,
+    updated_at: fields.updated,
+  };
+};
+
+const normalizeComment = (comment: any) => ({
+  ...comment,
+  id: Number(comment?.id),
+  body: comment?.body || '',
+  user: { login: comment?.author?.name || comment?.author?.displayName },
+  created_at: comment?.created,
+  updated_at: comment?.updated,
+});
+
+/**
+ * Jira implementation of the IssueProviderAdapter interface
+ */
+export class JiraAdapter implements IssueProviderAdapter {
+  isConfigured(): boolean {
+    return isJiraConfigured();
+  }
+
+  async createIssue(params: CreateIssueParams): Promise<ProviderResult<IssueData>> {
+    if (!isJiraConfigured()) return { success: false, error: 'Please sign in with Jira' };
+
+    try {
+      const metadata = [
+        `- Route: \`${params.route}\``,
+        params.version ? `- Version: \`${params.version}\`` : null,
+        params.cssSelector ? `- Target Component: \`${params.elementDescription || 'unknown'}\`` : null,
+        params.cssSelector ? `- CSS Selector: \`${params.cssSelector}\`` : null,
+        params.fingerprint ? `- Element Fingerprint: \`${serializeFingerprint(params.fingerprint)}\`` : null,
+        params.textAnchor ? `- Text Quote: \`${serializeTextAnchor(params.textAnchor)}\`` : null,
+        params.region ? `- Region: \`${formatRegion(params.region)}\`` : null,
+        params.annotations?.length ? `- Annotations: \`${serializeAnnotations(params.annotations)}\`` : null,
+        params.viewport ? `- Viewport: \`${formatViewport(params.viewport)}\`` : null,
+        `- Fallback Position: \`(${params.xPercent.toFixed(1)}%, ${params.yPercent.toFixed(1)}%)\``,
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+      const labels: string[] = [
+        'hale-comment',
+        `route:${params.route}`,
+      ];
+      if (params.cssSelector && params.elementDescription) {
+        labels.push(`component:${params.elementDescription}`);
+      }
+      labels.push(`coords:${Math.round(params.xPercent)},${Math.round(params.yPercent)}`);
+      if (params.version) labels.push(`version:${params.version}`);
+
+      const data = await jiraProxyRequest('POST', '/issue', {
+        fields: {
+          project: { key: getProjectKey() },
+          issuetype: { name: getEnv('VITE_JIRA_ISSUE_TYPE') || 'Task' },
+          summary: params.title,
+          description: `${params.body}\n\n---\n**Metadata:**\n${metadata}`,
+          labels: labels.map(toJiraLabel),
+        },
+      });
+
+      return {
+        success: true,
+        data: {
+          number: Number(data.id),
+          html_url: `${getJiraBaseUrl()}/browse/${data.key}`,
+        },
+      };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to create issue' };
+    }
+  }
+
+  supportsNativeReplies(): boolean {
+    return false;
+  }
+
+  async createComment(issueNumber: number, body: string): Promise<ProviderResult> {
+    if (!isJiraConfigured()) return { success: false, error: 'Please sign in with Jira' };
+    try {
+      const data = await jiraProxyRequest('POST', `/issue/${issueNumber}/comment`, { body });
+      return { success: true, data: normalizeComment(data) };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to create comment' };
+    }
+  }
+
+  async fetchIssuesForRouteAndVersion(
+    route: string,
+    version?: string,
+    options?: FetchIssuesOptions,
+  ): Promise<ProviderResult<any[]>> {
+    if (!isJiraConfigured()) return { success: false, error: 'Please sign in with Jira' };
+    try {
+      // Jira issues are always created with labels, so no legacy body scan is needed.
+      // `incremental` is ignored: JQL date filters are minute-granular and in the user's timezone.
+      const jql = `project = ${jqlQuote(getProjectKey())} AND labels = ${jqlQuote(toJiraLabel(`route:${route}`))} ORDER BY created ASC`;
+      const data = (await jiraSearchAll(jql, options)).map(normalizeIssue);
+
+      const filtered = data.filter((issue: any) => {
+        if (!version) return true;
+
+        const labels = getLabelNames(issue);
+        const body: string = issue?.body || '';
+        const versionLabelMatch = labels.includes(toJiraLabel(`version:${version}`));
+        const bodyVersionMatch = body.includes(`Version: \`${version}\``);
+
+        // Back-compat: if an issue has no version metadata at all, treat it as default "1"
+        if (!issueHasAnyVersion(issue) && version === '1') return true;
+
+        return versionLabelMatch || bodyVersionMatch;
+      });
+      return { success: true, data: filtered };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch issues' };
+    }
+  }
+
+  resetIncrementalSync(_route?: string, _version?: string): void {
+    // Jira syncs are always full (see fetchIssuesForRouteAndVersion)
+  }
+
+  async fetchIssueComments(issueNumber: number, options?: PaginationOptions): Promise<ProviderResult<any[]>> {
+    if (!isJiraConfigured()) return { success: false, error: 'Please sign in with Jira' };
+    try {
+      let nextStartAt = 0;
+      const data = await collectPages(async (_page, perPage) => {
+        const res = await jiraProxyRequest(
+          'GET',
+          `/issue/${issueNumber}/comment?startAt=${nextStartAt}&maxResults=${perPage}&orderBy=created`,
+        );
+        const items = Array.isArray(res?.comments) ? res.comments : [];
+        nextStartAt += items.length;
+        return { items, hasNext: nextStartAt < (res?.total ?? 0) };
+      }, options);
+      return { success: true, data: data.map(normalizeComment) };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch issue comments' };
+    }
+  }
+
+  async updateComment(commentId: number, body: string, issueNumber?: number): Promise<ProviderResult> {
+    if (!isJiraConfigured()) return { success: false, error: 'Please sign in with Jira' };
+
+    // Jira addresses comments through their issue
+    if (!issueNumber) {
+      return { success: false, error: 'Issue number is required for Jira comment updates' };
+    }
+
+    try {
+      const data = await jiraProxyRequest('PUT', `/issue/${issueNumber}/comment/${commentId}`, { body });
+      return { success: true, data: normalizeComment(data) };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to update comment' };
+    }
+  }
+
+  async deleteComment(commentId: number, issueNumber?: number): Promise<ProviderResult> {
+    if (!isJiraConfigured()) return { success: false, error: 'Please sign in with Jira' };
+
+    // Jira addresses comments through their issue
+    if (!issueNumber) {
+      return { success: false, error: 'Issue number is required for Jira comment deletion' };
+    }
+
+    try {
+      await jiraProxyRequest('DELETE', `/issue/${issueNumber}/comment/${commentId}`);
+      return { success: true, data: {} };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to delete comment' };
+    }
+  }
+
+  supportsReactions(): boolean {
+    return false;
+  }
+
+  async fetchCommentReactions(_commentId: number, _issueNumber?: number): Promise<ProviderResult<CommentReaction[]>> {
+    return { success: false, error: 'Reactions are not supported by the Jira provider' };
+  }
+
+  async addCommentReaction(_commentId: number, _content: ReactionContent, _issueNumber?: number): Promise<ProviderResult<CommentReaction>> {
+    return { success: false, error: 'Reactions are not supported by the Jira provider' };
+  }
+
+  async removeCommentReaction(_commentId: number, _reaction: CommentReaction, _issueNumber?: number): Promise<ProviderResult> {
+    return { success: false, error: 'Reactions are not supported by the Jira provider' };
+  }
+
+  /**
+   * Jira has no open/closed flag; move the issue through a workflow transition instead.
+   * A transition named in env wins, otherwise the first one landing in the wanted status category.
+   */
+  private async transition(issueNumber: number, target: 'done' | 'open', preferredName?: string): Promise<any> {
+    const data = await jiraProxyRequest('GET', `/issue/${issueNumber}/transitions`);
+    const transitions: any[] = Array.isArray(data?.transitions) ? data.transitions : [];
+
+    const wanted = preferredName?.trim().toLowerCase();
+    const byName = wanted
+      ? transitions.find((t) => t?.name?.toLowerCase() === wanted || t?.to?.name?.toLowerCase() === wanted)
+      : undefined;
+    const byCategory = transitions.find((t) => {
+      const category = t?.to?.statusCategory?.key;
+      return target === 'done' ? category === 'done' : category === 'new';
+    }) ?? transitions.find((t) => target === 'open' && t?.to?.statusCategory?.key === 'indeterminate');
+
+    const chosen = byName ?? byCategory;
+    if (!chosen) {
+      throw new Error(`No Jira transition available to ${target === 'done' ? 'close' : 'reopen'} this issue`);
+    }
+
+    await jiraProxyRequest('POST', `/issue/${issueNumber}/transitions`, { transition: { id: chosen.id } });
+    return { transition: chosen.name };
+  }
+
+  async closeIssue(issueNumber: number): Promise<ProviderResult> {
+    if (!isJiraConfigured()) return { success: false, error: 'Please sign in with Jira' };
+    try {
+      const data = await this.transition(issueNumber, 'done', getEnv('VITE_JIRA_CLOSE_TRANSITION'));
+      return { success: true, data };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to close issue' };
+    }
+  }
+
+  async reopenIssue(issueNumber: number): Promise<ProviderResult> {
+    if (!isJiraConfigured()) return { success: false, error: 'Please sign in with Jira' };
+    try {
+      const data = await this.transition(issueNumber, 'open', getEnv('VITE_JIRA_REOPEN_TRANSITION'));
+      return { success: true, data };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to reopen issue' };
+    }
+  }
+
+  async getRepoFile(_path: string): Promise<ProviderResult<{ text: string; sha: string } | null>> {
+    return { success: false, error: 'Repository files are not supported by the Jira provider' };
+  }
+
+  async putRepoFile(_params: PutRepoFileParams): Promise<ProviderResult<{ sha: string }>> {
+    return { success: false, error: 'Repository files are not supported by the Jira provider' };
+  }
+}
+
+// Export singleton instance
+export const jiraAdapter = new JiraAdapter();
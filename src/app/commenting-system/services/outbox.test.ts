@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  MAX_ATTEMPTS,
+  OutboxOperation,
+  enqueueOperation,
+  getNextRetryAt,
+  getRetryDelayMs,
+  nextReadyEntry,
+  readOutbox,
+  recordFailedAttempt,
+  resetRetries,
+} from './outbox';
+
+const createIssue = (threadId: string): OutboxOperation => ({ type: 'createIssue', threadId, route: '/' });
+const createComment = (threadId: string, commentId: string): OutboxOperation => ({ type: 'createComment', threadId, route: '/', commentId });
+const updateComment = (threadId: string, commentId: string): OutboxOperation => ({ type: 'updateComment', threadId, route: '/', commentId });
+const deleteComment = (threadId: string, commentId: string): OutboxOperation => ({
+  type: 'deleteComment',
+  threadId,
+  route: '/',
+  commentId,
+  githubCommentId: 7,
+});
+
+const queuedOps = () => readOutbox().map((e) => e.op);
+
+describe('outbox', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  describe('enqueueOperation', () => {
+    it('keeps one createIssue per thread and one createComment per comment', () => {
+      enqueueOperation(createIssue('t1'), 'github');
+      enqueueOperation(createIssue('t1'), 'github');
+      enqueueOperation(createComment('t1', 'c1'), 'github');
+      enqueueOperation(createComment('t1', 'c1'), 'github');
+
+      expect(queuedOps()).toEqual([createIssue('t1'), createComment('t1', 'c1')]);
+    });
+
+    it('drops edits while the create is queued and keeps a single edit otherwise', () => {
+      enqueueOperation(createComment('t1', 'c1'), 'github');
+      enqueueOperation(updateComment('t1', 'c1'), 'github');
+      enqueueOperation(updateComment('t1', 'c2'), 'github');
+      enqueueOperation(updateComment('t1', 'c2'), 'github');
+
+      expect(queuedOps()).toEqual([createComment('t1', 'c1'), updateComment('t1', 'c2')]);
+    });
+
+    it('lets a delete cancel the comment’s queued create and edits', () => {
+      enqueueOperation(createComment('t1', 'c1'), 'github');
+      enqueueOperation(updateComment('t1', 'c2'), 'github');
+      enqueueOperation(deleteComment('t1', 'c1'), 'github');
+      enqueueOperation(deleteComment('t1', 'c2'), 'github');
+
+      expect(queuedOps()).toEqual([deleteComment('t1', 'c1'), deleteComment('t1', 'c2')]);
+    });
+
+    it('replaces a queued close/reopen of the same thread, keeping the latest at the end', () => {
+      enqueueOperation({ type: 'closeIssue', threadId: 't1', route: '/' }, 'github');
+      enqueueOperation(createComment('t1', 'c1'), 'github');
+      enqueueOperation({ type: 'reopenIssue', threadId: 't1', route: '/' }, 'github');
+
+      expect(queuedOps()).toEqual([createComment('t1', 'c1'), { type: 'reopenIssue', threadId: 't1', route: '/' }]);
+    });
+
+    it('only collapses entries queued for the same provider', () => {
+      enqueueOperation(createIssue('t1'), 'gitlab');
+      enqueueOperation(createIssue('t1'), 'github');
+
+      expect(readOutbox().map((e) => e.provider)).toEqual(['gitlab', 'github']);
+    });
+  });
+
+  describe('replay order', () => {
+    it('replays in queue order, skipping other providers’ entries', () => {
+      enqueueOperation(createIssue('t1'), 'gitlab');
+      enqueueOperation(createIssue('t2'), 'github');
+      enqueueOperation(createComment('t2', 'c1'), 'github');
+
+      expect(nextReadyEntry(readOutbox(), 'github')?.op).toEqual(createIssue('t2'));
+    });
+
+    it('holds back a thread behind its backing-off entry without blocking other threads', () => {
+      enqueueOperation(createIssue('t1'), 'github');
+      enqueueOperation(createComment('t1', 'c1'), 'github');
+      enqueueOperation(createIssue('t2'), 'github');
+      const [first] = readOutbox();
+
+      recordFailedAttempt(first.id, 'Server error', 1000);
+
+      expect(nextReadyEntry(readOutbox(), 'github', 2000)?.op).toEqual(createIssue('t2'));
+      // Due again once the backoff has passed
+      expect(nextReadyEntry(readOutbox(), 'github', 1000 + getRetryDelayMs(1))?.op).toEqual(createIssue('t1'));
+    });
+
+    it('backs off exponentially up to a cap', () => {
+      expect([1, 2, 3].map(getRetryDelayMs)).toEqual([5000, 10000, 20000]);
+      expect(getRetryDelayMs(20)).toBe(5 * 60 * 1000);
+    });
+
+    it('marks an entry failed after MAX_ATTEMPTS until retries are reset', () => {
+      enqueueOperation(createIssue('t1'), 'github');
+      const [entry] = readOutbox();
+
+      let updated = entry;
+      for (let i = 0; i < MAX_ATTEMPTS; i++) updated = recordFailedAttempt(entry.id, 'Server error', 0) ?? updated;
+
+      expect(updated).toMatchObject({ attempts: MAX_ATTEMPTS, failed: true, lastError: 'Server error' });
+      expect(nextReadyEntry(readOutbox(), 'github', Number.MAX_SAFE_INTEGER)).toBeUndefined();
+      expect(getNextRetryAt(readOutbox(), 'github')).toBeNull();
+
+      resetRetries('github');
+      expect(nextReadyEntry(readOutbox(), 'github')).toMatchObject({ attempts: 0, failed: false });
+    });
+
+    it('reports when the earliest backed-off entry becomes due', () => {
+      enqueueOperation(createIssue('t1'), 'github');
+      enqueueOperation(createIssue('t2'), 'github');
+      const [first, second] = readOutbox();
+
+      recordFailedAttempt(first.id, 'Server error', 10000);
+      recordFailedAttempt(second.id, 'Server error', 5000);
+
+      expect(getNextRetryAt(readOutbox(), 'github')).toBe(5000 + getRetryDelayMs(1));
+      expect(getNextRetryAt(readOutbox(), 'gitlab')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Persisted log of provider mutations that still have to be replayed (creates, edits, deletes, closes, reopens).
+ * Entries only reference threads/comments by local id; the current text/state is read when they are replayed,
+ * so repeated edits collapse into one request. Stored in localStorage so every tab sees the same queue.
+ *
+ * Operations on one thread are replayed in order; a failing entry only holds up its own thread. Failures are
+ * retried with exponential backoff, and after MAX_ATTEMPTS the entry is marked failed until the user retries.
+ */
+
+export type OutboxOperation =
+  | { type: 'createIssue'; threadId: string; route: string }
+  | { type: 'createComment'; threadId: string; route: string; commentId: string }
+  | { type: 'updateComment'; threadId: string; route: string; commentId: string }
+  | { type: 'deleteComment'; threadId: string; route: string; commentId: string; githubCommentId: number; issueNumber?: number }
+  // issueNumber is captured up front when the thread itself is gone (removed pins)
+  | { type: 'closeIssue' | 'reopenIssue'; threadId: string; route: string; issueNumber?: number };
+
+export interface OutboxEntry {
+  id: string;
+  op: OutboxOperation;
+  provider?: string; // Provider it was queued for; issue/comment numbers mean nothing to another one
+  enqueuedAt: string;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: number; // epoch ms; backoff after a failed attempt
+  failed?: boolean; // gave up after MAX_ATTEMPTS; replayed again only on a manual retry
+}
+
+export type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const OUTBOX_STORAGE_KEY = 'hale_outbox_v1';
+
+export const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+const listeners = new Set<OutboxListener>();
+let entrySeq = 0;
+
+export function readOutbox(): OutboxEntry[] {
+  try {
+    const raw = window.localStorage.getItem(OUTBOX_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as OutboxEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+const writeOutbox = (entries: OutboxEntry[]) => {
+  try {
+    if (entries.length) {
+      window.localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+    } else {
+      window.localStorage.removeItem(OUTBOX_STORAGE_KEY);
+    }
+  } catch (e) {
+    console.warn('⚠️ Could not persist the sync outbox; pending changes may be lost on reload:', e);
+  }
+  listeners.forEach((listener) => listener(entries));
+};
+
+export function subscribeOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === OUTBOX_STORAGE_KEY) listener(readOutbox());
+  };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+// Entries queued before the provider was recorded belong to whichever provider is active
+const isForProvider = (entry: OutboxEntry, provider: string) => !entry.provider || entry.provider === provider;
+
+/**
+ * Wait before attempt `attempts + 1`: 5s, 10s, 20s, … capped at 5 minutes
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+}
+
+const isCommentOp = (op: OutboxOperation, commentId: string) =>
+  (op.type === 'createComment' || op.type === 'updateComment' || op.type === 'deleteComment') && op.commentId === commentId;
+
+/**
+ * Append an operation, collapsing it with what is already queued:
+ * - one createIssue per thread, one createComment per comment
+ * - an edit is dropped while the comment's create is still queued (the create sends the latest text),
+ *   and repeated edits keep a single entry
+ * - a delete cancels the comment's queued create/edits (nothing is sent if it never reached the provider)
+ * - close/reopen replace any queued close/reopen of the same thread
+ * Only entries queued for the same provider are collapsed.
+ */
+export function enqueueOperation(op: OutboxOperation, provider: string): void {
+  let entries = readOutbox();
+  const queued = (e: OutboxEntry) => isForProvider(e, provider);
+
+  switch (op.type) {
+    case 'createIssue':
+      if (entries.some((e) => queued(e) && e.op.type === 'createIssue' && e.op.threadId === op.threadId)) return;
+      break;
+    case 'createComment':
+    case 'updateComment':
+      if (
+        entries.some(
+          (e) => queued(e) && (e.op.type === 'createComment' || e.op.type === op.type) && isCommentOp(e.op, op.commentId),
+        )
+      ) {
+        return;
+      }
+      break;
+    case 'deleteComment':
+      entries = entries.filter((e) => !(queued(e) && isCommentOp(e.op, op.commentId)));
+      break;
+    case 'closeIssue':
+    case 'reopenIssue':
+      entries = entries.filter(
+        (e) => !(queued(e) && (e.op.type === 'closeIssue' || e.op.type === 'reopenIssue') && e.op.threadId === op.threadId),
+      );
+      break;
+    default:
+      break;
+  }
+
+  entries.push({
+    id: `op-${Date.now()}-${entrySeq++}`,
+    op,
+    provider,
+    enqueuedAt: new Date().toISOString(),
+    attempts: 0,
+  });
+  writeOutbox(entries);
+}
+
+/**
+ * Drop queued operations matching the predicate (e.g. everything for a removed thread)
+ */
+export function discardOperations(predicate: (op: OutboxOperation) => boolean): OutboxOperation[] {
+  const entries = readOutbox();
+  const discarded = entries.filter((e) => predicate(e.op)).map((e) => e.op);
+  if (discarded.length) writeOutbox(entries.filter((e) => !predicate(e.op)));
+  return discarded;
+}
+
+export function completeEntry(entryId: string): void {
+  writeOutbox(readOutbox().filter((e) => e.id !== entryId));
+}
+
+/**
+ * Count a failed attempt and schedule the next one; returns the updated entry (`failed` once it gives up)
+ */
+export function recordFailedAttempt(entryId: string, error: string, now: number = Date.now()): OutboxEntry | undefined {
+  let updated: OutboxEntry | undefined;
+  writeOutbox(
+    readOutbox().map((e) => {
+      if (e.id !== entryId) return e;
+      const attempts = e.attempts + 1;
+      updated = { ...e, attempts, lastError: error, nextAttemptAt: now + getRetryDelayMs(attempts), failed: attempts >= MAX_ATTEMPTS };
+      return updated;
+    }),
+  );
+  return updated;
+}
+
+/**
+ * Make failed and backed-off entries of the provider eligible again right away (manual retry)
+ */
+export function resetRetries(provider: string): void {
+  const entries = readOutbox();
+  if (!entries.some((e) => isForProvider(e, provider) && (e.failed || e.nextAttemptAt))) return;
+  writeOutbox(
+    entries.map((e) =>
+      isForProvider(e, provider) ? { ...e, attempts: 0, failed: false, nextAttemptAt: undefined } : e,
+    ),
+  );
+}
+
+/**
+ * The next entry to replay for the provider: the first one in queue order whose thread has no earlier entry that
+ * is failed or still backing off. Operations on one thread stay in order; other threads aren't held up.
+ */
+export function nextReadyEntry(entries: OutboxEntry[], provider: string, now: number = Date.now()): OutboxEntry | undefined {
+  const heldThreads = new Set<string>();
+  for (const entry of entries) {
+    if (!isForProvider(entry, provider) || heldThreads.has(entry.op.threadId)) continue;
+    if (entry.failed || (entry.nextAttemptAt && entry.nextAttemptAt > now)) {
+      heldThreads.add(entry.op.threadId);
+      continue;
+    }
+    return entry;
+  }
+  return undefined;
+}
+
+/**
+ * When the earliest backed-off entry of the provider becomes due (null if none is waiting)
+ */
+export function getNextRetryAt(entries: OutboxEntry[], provider: string): number | null {
+  return entries.reduce<number | null>((earliest, e) => {
+    if (!isForProvider(e, provider) || e.failed || !e.nextAttemptAt) return earliest;
+    return earliest === null ? e.nextAttemptAt : Math.min(earliest, e.nextAttemptAt);
+  }, null);
+}
+
+export function hasQueuedOperations(threadId: string): boolean {
+  return readOutbox().some((e) => e.op.threadId === threadId);
+}
+
+/**
+ * Run `fn` while holding the outbox lock, so two tabs never replay the same entries.
+ * Falls back to running directly where the Web Locks API is unavailable.
+ */
+export async function withOutboxLock(fn: () => Promise<void>): Promise<void> {
+  const locks = typeof navigator !== 'undefined' ? (navigator as Navigator & { locks?: LockManager }).locks : undefined;
+  if (!locks) return fn();
+  await locks.request(OUTBOX_STORAGE_KEY, fn);
+}
+
+/**
+ * The provider answered "not found"/"gone". A 404 also comes back for a repository the token can't see or a wrong
+ * owner/repo, so this alone never justifies dropping an operation: callers confirm the target is really gone first.
+ */
+export function isNotFoundStatus(status: number | undefined): boolean {
+  return status === 404 || status === 410;
+}
@@ -2,13 +2,18 @@ import { getEnv } from '../utils/env';
 import { ProviderType, IssueProviderAdapter } from '../types/provider';
 import { GitHubAdapter } from './githubAdapter';
 import { GitLabAdapter } from './gitlabAdapter';
+import { GiteaAdapter } from './giteaAdapter';
+import { JiraAdapter } from './jiraAdapter';
+import { RestAdapter } from './restAdapter';
+import { getRegisteredProvider, resolveOAuthUrl } from './providerRegistry';
 
 const PROVIDER_TYPE_STORAGE_KEY = 'commenting_provider_type';
 
 export function getStoredProviderType(): ProviderType | undefined {
   try {
     const stored = localStorage.getItem(PROVIDER_TYPE_STORAGE_KEY);
-    if (stored === 'github' || stored === 'gitlab') return stored;
+    if (stored === 'github' || stored === 'gitlab' || stored === 'gitea' || stored === 'jira' || stored === 'rest') return stored;
+    if (getRegisteredProvider(stored)) return stored as ProviderType;
   } catch {
     // Ignore storage access issues
   }
@@ -34,16 +39,35 @@ export function setStoredProviderType(providerType: ProviderType | null): void {
 export function getProviderType(): ProviderType {
   const explicitProvider = getEnv('VITE_PROVIDER_TYPE') as ProviderType | undefined;
 
-  if (explicitProvider === 'github' || explicitProvider === 'gitlab') {
-    return explicitProvider;
+  if (
+    explicitProvider === 'github' ||
+    explicitProvider === 'gitlab' ||
+    explicitProvider === 'gitea' ||
+    explicitProvider === 'jira' ||
+    explicitProvider === 'rest' ||
+    getRegisteredProvider(explicitProvider)
+  ) {
+    return explicitProvider as ProviderType;
   }
 
   const storedProvider = getStoredProviderType();
+  // Custom providers are only stored once the user picked them, so they are always usable
+  if (storedProvider && getRegisteredProvider(storedProvider)) {
+    return storedProvider;
+  }
   if (storedProvider) {
-    const hasStoredClientId = Boolean(
-      getEnv(storedProvider === 'gitlab' ? 'VITE_GITLAB_CLIENT_ID' : 'VITE_GITHUB_CLIENT_ID'),
-    );
-    if (hasStoredClientId) {
+    // Jira has no OAuth client; it is usable whenever a target project is configured
+    const storedConfigKey =
+      storedProvider === 'jira'
+        ? 'VITE_JIRA_PROJECT_KEY'
+        : storedProvider === 'gitlab'
+          ? 'VITE_GITLAB_CLIENT_ID'
+          : storedProvider === 'gitea'
+            ? 'VITE_GITEA_CLIENT_ID'
+            : storedProvider === 'rest'
+              ? 'VITE_REST_API_URL'
+              : 'VITE_GITHUB_CLIENT_ID';
+    if (getEnv(storedConfigKey)) {
       return storedProvider;
     }
   }
@@ -51,6 +75,7 @@ export function getProviderType(): ProviderType {
   // Auto-detect from credentials (GitLab preferred for Red Hat workflows)
   const hasGitHubClientId = Boolean(getEnv('VITE_GITHUB_CLIENT_ID'));
   const hasGitLabClientId = Boolean(getEnv('VITE_GITLAB_CLIENT_ID'));
+  const hasGiteaClientId = Boolean(getEnv('VITE_GITEA_CLIENT_ID'));
 
   if (hasGitLabClientId) {
     return 'gitlab';
@@ -61,6 +86,16 @@ export function getProviderType(): ProviderType {
     return 'github';
   }
 
+  // Self-hosted Gitea/Forgejo
+  if (hasGiteaClientId) {
+    return 'gitea';
+  }
+
+  // Bundled comment store (no third-party accounts)
+  if (getEnv('VITE_REST_API_URL')) {
+    return 'rest';
+  }
+
   // Default to GitLab (Red Hat's primary platform)
   return 'gitlab';
 }
@@ -71,9 +106,18 @@ export function getProviderType(): ProviderType {
 export function getProviderAdapter(): IssueProviderAdapter {
   const providerType = getProviderType();
 
+  const registered = getRegisteredProvider(providerType);
+  if (registered) return registered.factory();
+
   switch (providerType) {
     case 'gitlab':
       return new GitLabAdapter();
+    case 'gitea':
+      return new GiteaAdapter();
+    case 'jira':
+      return new JiraAdapter();
+    case 'rest':
+      return new RestAdapter();
     case 'github':
     default:
       return new GitHubAdapter();
@@ -86,9 +130,18 @@ export function getProviderAdapter(): IssueProviderAdapter {
 export function getProviderDisplayName(providerOverride?: ProviderType): string {
   const providerType = providerOverride ?? getProviderType();
 
+  const registered = getRegisteredProvider(providerType);
+  if (registered) return registered.displayName;
+
   switch (providerType) {
     case 'gitlab':
       return 'GitLab';
+    case 'gitea':
+      return 'Gitea';
+    case 'jira':
+      return 'Jira';
+    case 'rest':
+      return 'Comment Store';
     case 'github':
     default:
       return 'GitHub';
@@ -101,6 +154,9 @@ export function getProviderDisplayName(providerOverride?: ProviderType): string
 export function getOAuthAuthorizeUrl(providerOverride?: ProviderType): string {
   const providerType = providerOverride ?? getProviderType();
 
+  const registered = getRegisteredProvider(providerType);
+  if (registered) return resolveOAuthUrl(registered);
+
   switch (providerType) {
     case 'gitlab': {
       const baseUrl = getEnv('VITE_GITLAB_BASE_URL') || 'https://gitlab.cee.redhat.com';
@@ -108,6 +164,18 @@ export function getOAuthAuthorizeUrl(providerOverride?: ProviderType): string {
       const redirectUri = `${window.location.origin}/api/gitlab-oauth-callback`;
       return `${baseUrl}/oauth/authorize?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=api`;
     }
+    case 'gitea': {
+      const baseUrl = (getEnv('VITE_GITEA_BASE_URL') || '').replace(/\/+$/, '');
+      const clientId = getEnv('VITE_GITEA_CLIENT_ID');
+      const redirectUri = `${window.location.origin}/api/gitea-oauth-callback`;
+      return `${baseUrl}/login/oauth/authorize?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code`;
+    }
+    case 'jira':
+      // Jira uses the dev server's credentials (see /api/jira-api); there is no browser OAuth flow
+      return '';
+    case 'rest':
+      // The bundled store has no accounts; sign-in only asks for a display name
+      return '';
     case 'github':
     default: {
       const clientId = getEnv('VITE_GITHUB_CLIENT_ID');
@@ -123,9 +191,18 @@ export function getOAuthAuthorizeUrl(providerOverride?: ProviderType): string {
 export function getTokenStorageKey(providerOverride?: ProviderType): string {
   const providerType = providerOverride ?? getProviderType();
 
+  const registered = getRegisteredProvider(providerType);
+  if (registered) return registered.storageKeys.token;
+
   switch (providerType) {
     case 'gitlab':
       return 'gitlab_access_token';
+    case 'gitea':
+      return 'gitea_access_token';
+    case 'jira':
+      return 'jira_access_token';
+    case 'rest':
+      return 'rest_access_token';
     case 'github':
     default:
       return 'github_access_token';
@@ -138,9 +215,18 @@ export function getTokenStorageKey(providerOverride?: ProviderType): string {
 export function getUserStorageKey(providerOverride?: ProviderType): string {
   const providerType = providerOverride ?? getProviderType();
 
+  const registered = getRegisteredProvider(providerType);
+  if (registered) return registered.storageKeys.user;
+
   switch (providerType) {
     case 'gitlab':
       return 'gitlab_user';
+    case 'gitea':
+      return 'gitea_user';
+    case 'jira':
+      return 'jira_user';
+    case 'rest':
+      return 'rest_user';
     case 'github':
     default:
       return 'github_user';
@@ -0,0 +1,62 @@
+import { IssueProviderAdapter, ProviderType } from '../types/provider';
+
+/**
+ * Registry for custom issue providers (internal trackers etc.), so teams don't have to fork
+ * the package to add one. Built-in providers (GitHub, GitLab, Gitea, Jira) are handled by
+ * providerFactory; a registration with a built-in name overrides it.
+ */
+
+export type ProviderAdapterFactory = () => IssueProviderAdapter;
+
+export interface ProviderRegistrationOptions {
+  displayName: string;
+  /**
+   * OAuth authorize URL (or a function building it at sign-in time). The provider's callback must
+   * redirect back to `/#/auth-callback?token=...&login=...&avatar=...`, like the built-in ones.
+   * Omit it for providers that authenticate server-side.
+   */
+  oauthUrl?: string | (() => string);
+  storageKeys: {
+    token: string; // localStorage key for the access token
+    user: string; // localStorage key for the signed-in ProviderUser
+  };
+}
+
+export interface ProviderRegistration extends ProviderRegistrationOptions {
+  type: ProviderType;
+  factory: ProviderAdapterFactory;
+}
+
+const registry = new Map<string, ProviderRegistration>();
+
+/**
+ * Register (or replace) a provider under the given type name
+ */
+export function registerProvider(
+  type: ProviderType,
+  factory: ProviderAdapterFactory,
+  options: ProviderRegistrationOptions,
+): void {
+  if (!type) throw new Error('registerProvider: a provider type is required');
+  registry.set(type, { ...options, type, factory });
+}
+
+/**
+ * Remove a previously registered provider
+ */
+export function unregisterProvider(type: ProviderType): void {
+  registry.delete(type);
+}
+
+export function getRegisteredProvider(type: ProviderType | undefined | null): ProviderRegistration | undefined {
+  return type ? registry.get(type) : undefined;
+}
+
+export function getRegisteredProviderTypes(): ProviderType[] {
+  return Array.from(registry.keys());
+}
+
+export function resolveOAuthUrl(registration: ProviderRegistration): string {
+  const { oauthUrl } = registration;
+  return typeof oauthUrl === 'function' ? oauthUrl() : oauthUrl || '';
+}
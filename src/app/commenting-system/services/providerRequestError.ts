@@ -0,0 +1,15 @@
+/**
+ * Thrown by the provider proxy helpers when the API answers with an error status. Keeps the HTTP status so
+ * callers can tell e.g. "not found" apart from other failures without matching on the message text.
+ */
+export class ProviderRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = status;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ProviderRequestError.prototype);
+  }
+}
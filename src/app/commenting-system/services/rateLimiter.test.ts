@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitError, getRateLimitState, rateLimitedFetch } from './rateLimiter';
+
+const respond = (status: number, headers: Record<string, string> = {}) => new Response('{}', { status, headers });
+
+// Limits are kept per provider for the whole module, so each test uses its own provider name
+let providerCount = 0;
+const nextProvider = () => `test-provider-${++providerCount}`;
+
+describe('rateLimitedFetch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('passes responses through and records the remaining quota', async () => {
+    const provider = nextProvider();
+    const send = vi.fn(async () => respond(200, { 'x-ratelimit-remaining': '41', 'x-ratelimit-limit': '60' }));
+
+    const resp = await rateLimitedFetch(provider, send);
+
+    expect(resp.status).toBe(200);
+    expect(getRateLimitState(provider)).toEqual({ provider, remaining: 41, limit: 60, limitedUntil: null });
+  });
+
+  it('waits out a short Retry-After and retries', async () => {
+    const provider = nextProvider();
+    const send = vi.fn().mockResolvedValueOnce(respond(429, { 'retry-after': '2' })).mockResolvedValueOnce(respond(200));
+
+    const result = rateLimitedFetch(provider, send);
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(result).resolves.toMatchObject({ status: 200 });
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(getRateLimitState(provider).limitedUntil).toBeNull();
+  });
+
+  it('treats a 403 with an exhausted quota as a limit, but not a plain 403', async () => {
+    const provider = nextProvider();
+    const resetAt = Math.ceil((Date.now() + 5000) / 1000);
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce(respond(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(resetAt) }))
+      .mockResolvedValueOnce(respond(403));
+
+    const result = rateLimitedFetch(provider, send);
+    await vi.advanceTimersByTimeAsync(6000);
+
+    await expect(result).resolves.toMatchObject({ status: 403 });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails fast with a RateLimitError when the wait is too long to absorb', async () => {
+    const provider = nextProvider();
+    const send = vi.fn(async () => respond(429, { 'retry-after': '600' }));
+
+    const first = rateLimitedFetch(provider, send);
+    await expect(first).rejects.toBeInstanceOf(RateLimitError);
+    await expect(first).rejects.toMatchObject({ provider, resetAt: Date.now() + 600 * 1000 });
+
+    // Later requests don't reach the provider until the window reopens
+    await expect(rateLimitedFetch(provider, send)).rejects.toBeInstanceOf(RateLimitError);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds the next request until an exhausted window resets', async () => {
+    const provider = nextProvider();
+    const resetAt = Math.ceil((Date.now() + 3000) / 1000);
+    await rateLimitedFetch(provider, async () =>
+      respond(200, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(resetAt) }),
+    );
+    expect(getRateLimitState(provider).limitedUntil).toBe(resetAt * 1000);
+
+    const send = vi.fn(async () => respond(200));
+    const next = rateLimitedFetch(provider, send);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(3000);
+    await next;
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends one request at a time per provider', async () => {
+    const provider = nextProvider();
+    let finishFirst: (resp: Response) => void = () => undefined;
+    const first = vi.fn(() => new Promise<Response>((resolve) => (finishFirst = resolve)));
+    const second = vi.fn(async () => respond(200));
+
+    const firstResult = rateLimitedFetch(provider, first);
+    const secondResult = rateLimitedFetch(provider, second);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).not.toHaveBeenCalled();
+
+    finishFirst(respond(200));
+    await Promise.all([firstResult, secondResult]);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
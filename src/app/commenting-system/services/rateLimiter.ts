@@ -0,0 +1,168 @@
+/**
+ * Shared rate-limit aware request layer for provider API proxies.
+ *
+ * Reads GitHub (`X-RateLimit-*`) and GitLab (`RateLimit-*`) headers plus `Retry-After`,
+ * queues requests while a provider is limited, and backs off/retries short waits automatically.
+ * Long waits fail fast with a RateLimitError so the UI can show "Rate limited until HH:MM".
+ */
+
+export interface RateLimitState {
+  provider: string;
+  remaining?: number; // requests left in the current window, if the provider reported it
+  limit?: number; // window size, if reported
+  limitedUntil: number | null; // epoch ms; null when requests are flowing normally
+}
+
+export class RateLimitError extends Error {
+  readonly provider: string;
+  readonly resetAt: number;
+
+  constructor(provider: string, resetAt: number) {
+    super(`Rate limited until ${formatRateLimitReset(resetAt)}`);
+    this.name = 'RateLimitError';
+    this.provider = provider;
+    this.resetAt = resetAt;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, RateLimitError.prototype);
+  }
+}
+
+// Waits up to this long are absorbed transparently; longer ones surface as RateLimitError
+const MAX_AUTO_WAIT_MS = 60 * 1000;
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+
+const states = new Map<string, RateLimitState>();
+const queues = new Map<string, Promise<void>>();
+const listeners = new Set<(state: RateLimitState) => void>();
+
+export const formatRateLimitReset = (resetAt: number): string => {
+  const d = new Date(resetAt);
+  const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export const getRateLimitState = (provider: string): RateLimitState =>
+  states.get(provider) ?? { provider, limitedUntil: null };
+
+/**
+ * Subscribe to rate-limit state changes for any provider. Returns an unsubscribe function.
+ */
+export const subscribeRateLimit = (listener: (state: RateLimitState) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setState = (next: RateLimitState): void => {
+  const prev = states.get(next.provider);
+  states.set(next.provider, next);
+  if (prev?.limitedUntil !== next.limitedUntil || prev?.remaining !== next.remaining) {
+    listeners.forEach((l) => l(next));
+  }
+};
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const readNumberHeader = (headers: Headers, names: string[]): number | undefined => {
+  for (const name of names) {
+    const raw = headers.get(name);
+    if (raw === null || raw.trim() === '') continue;
+    const n = Number(raw);
+    if (!Number.isNaN(n)) return n;
+  }
+  return undefined;
+};
+
+interface ParsedRateLimit {
+  remaining?: number;
+  limit?: number;
+  resetAt?: number; // epoch ms
+  limited: boolean;
+}
+
+const parseRateLimit = (resp: Response, attempt: number): ParsedRateLimit => {
+  const { headers, status } = resp;
+  const remaining = readNumberHeader(headers, ['x-ratelimit-remaining', 'ratelimit-remaining']);
+  const limit = readNumberHeader(headers, ['x-ratelimit-limit', 'ratelimit-limit']);
+  const resetEpochSeconds = readNumberHeader(headers, ['x-ratelimit-reset', 'ratelimit-reset']);
+  const retryAfterSeconds = readNumberHeader(headers, ['retry-after']);
+
+  // 429 is always a rate limit; GitHub signals primary/secondary limits with 403 + headers
+  const limited =
+    status === 429 || (status === 403 && (remaining === 0 || retryAfterSeconds !== undefined));
+
+  let resetAt: number | undefined;
+  if (retryAfterSeconds !== undefined) {
+    resetAt = Date.now() + retryAfterSeconds * 1000;
+  } else if (resetEpochSeconds !== undefined && (limited || remaining === 0)) {
+    resetAt = resetEpochSeconds * 1000;
+  } else if (limited) {
+    // No hint from the server: exponential backoff
+    resetAt = Date.now() + BASE_BACKOFF_MS * Math.pow(2, attempt);
+  }
+
+  return { remaining, limit, resetAt, limited };
+};
+
+/**
+ * Wait for the provider's window to reopen, or throw if the wait is too long to absorb
+ */
+const waitForWindow = async (provider: string): Promise<void> => {
+  const { limitedUntil } = getRateLimitState(provider);
+  if (!limitedUntil) return;
+
+  const waitMs = limitedUntil - Date.now();
+  if (waitMs <= 0) {
+    setState({ ...getRateLimitState(provider), limitedUntil: null });
+    return;
+  }
+  if (waitMs > MAX_AUTO_WAIT_MS) {
+    throw new RateLimitError(provider, limitedUntil);
+  }
+
+  console.warn(`⏳ ${provider} rate limited, waiting ${Math.ceil(waitMs / 1000)}s before next request`);
+  await sleep(waitMs);
+  setState({ ...getRateLimitState(provider), limitedUntil: null });
+};
+
+/**
+ * Run a proxy request through the provider's queue. Requests are sent one at a time per provider
+ * so a limit detected on one response holds back everything queued behind it.
+ */
+export async function rateLimitedFetch(provider: string, send: () => Promise<Response>): Promise<Response> {
+  const previous = queues.get(provider) ?? Promise.resolve();
+
+  const run = previous.then(async () => {
+    for (let attempt = 0; ; attempt++) {
+      await waitForWindow(provider);
+
+      const resp = await send();
+      const parsed = parseRateLimit(resp, attempt);
+      const exhausted = parsed.remaining === 0 && parsed.resetAt !== undefined;
+
+      setState({
+        provider,
+        remaining: parsed.remaining,
+        limit: parsed.limit,
+        limitedUntil: parsed.limited || exhausted ? parsed.resetAt ?? null : null,
+      });
+
+      if (!parsed.limited) return resp;
+      if (attempt >= MAX_RETRIES || !parsed.resetAt || parsed.resetAt - Date.now() > MAX_AUTO_WAIT_MS) {
+        throw new RateLimitError(provider, parsed.resetAt ?? Date.now() + MAX_AUTO_WAIT_MS);
+      }
+    }
+  });
+
+  // Keep the queue alive regardless of this request's outcome
+  queues.set(
+    provider,
+    run.then(
+      () => undefined,
+      () => undefined,
+    ),
+  );
+  return run;
+}
@@ -0,0 +1,298 @@
+import { getEnv } from '../utils/env';
+import { ProviderRequestError } from './providerRequestError';
+import { clearSyncCursors, getLatestUpdatedAt, getSyncCursor, getSyncCursorKey, setSyncCursor } from '../utils/syncCursors';
+import {
+  CreateIssueParams,
+  FetchIssuesOptions,
+  IssueData,
+  IssueProviderAdapter,
+  PaginationOptions,
+  ProviderResult,
+  ProviderUser,
+  PutRepoFileParams,
+  CommentReaction,
+  ReactionContent,
+} from '../types/provider';
+import { serializeAnnotations } from '../utils/annotations';
+import { serializeFingerprint } from '../utils/fingerprint';
+import { formatRegion } from '../utils/region';
+import { serializeTextAnchor } from '../utils/textAnchor';
+import { formatViewport } from '../utils/viewport';
+
+/**
+ * Adapter for the bundled comment store (scripts/rest-server.js), mounted in the dev server at
+ * VITE_REST_API_URL. There are no third-party accounts: "signing in" only records a display name.
+ */
+
+export const REST_TOKEN_STORAGE_KEY = 'rest_access_token';
+export const REST_USER_STORAGE_KEY = 'rest_user';
+
+// The store trusts whoever can reach the dev server; the token only marks that a name was chosen
+const LOCAL_TOKEN_MARKER = 'local';
+
+export const storeRestAuth = (user: ProviderUser) => {
+  localStorage.setItem(REST_TOKEN_STORAGE_KEY, LOCAL_TOKEN_MARKER);
+  localStorage.setItem(REST_USER_STORAGE_KEY, JSON.stringify(user));
+};
+
+export const clearRestAuth = () => {
+  localStorage.removeItem(REST_TOKEN_STORAGE_KEY);
+  localStorage.removeItem(REST_USER_STORAGE_KEY);
+};
+
+export const getStoredUser = (): ProviderUser | null => {
+  const raw = localStorage.getItem(REST_USER_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ProviderUser;
+  } catch {
+    return null;
+  }
+};
+
+export const getRestApiUrl = (): string => (getEnv('VITE_REST_API_URL') || '/api/hale-comments').replace(/\/+$/, '');
+
+export const isRestConfigured = (): boolean => {
+  return Boolean(localStorage.getItem(REST_TOKEN_STORAGE_KEY) && getStoredUser());
+};
+
+/**
+ * Record the display name used as the author of new threads and replies
+ */
+export const signInToRest = (name: string): ProviderResult<ProviderUser> => {
+  const login = name.trim();
+  if (!login) return { success: false, error: 'A display name is required' };
+  const user: ProviderUser = { login, avatar: '' };
+  storeRestAuth(user);
+  return { success: true, data: user };
+};
+
+async function restRequest(method: string, endpoint: string, data?: any): Promise<any> {
+  console.log(`🗄️ Comment store request:`, { method, endpoint, hasData: !!data });
+
+  const resp = await fetch(`${getRestApiUrl()}${endpoint}`, {
+    method,
+    headers: data ? { 'Content-Type': 'application/json' } : undefined,
+    body: data ? JSON.stringify(data) : undefined,
+  });
+
+  if (resp.status === 204) return {};
+  const text = await resp.text();
+  const payload = (() => {
+    try {
+      return text ? JSON.parse(text) : {};
+    } catch {
+      return { message: text };
+    }
+  })();
+
+  if (!resp.ok) {
+    if (resp.status === 404 && !payload?.message) {
+      throw new ProviderRequestError(
+        `Comment store not found at ${getRestApiUrl()} (is the dev server middleware installed?)`,
+        resp.status,
+      );
+    }
+    throw new ProviderRequestError((payload && payload.message) || `Comment store error (${resp.status})`, resp.status);
+  }
+  return payload;
+}
+
+const getAuthor = (): ProviderUser | undefined => getStoredUser() ?? undefined;
+
+const getLabelNames = (issue: any): string[] => {
+  const labels = issue?.labels;
+  if (!Array.isArray(labels)) return [];
+  return labels
+    .map((l: any) => (typeof l === 'string' ? l : l?.name))
+    .filter((n: any) => typeof n === 'string');
+};
+
+/**
+ * Bundled comment store implementation of the IssueProviderAdapter interface
+ */
+export class RestAdapter implements IssueProviderAdapter {
+  isConfigured(): boolean {
+    return isRestConfigured();
+  }
+
+  async createIssue(params: CreateIssueParams): Promise<ProviderResult<IssueData>> {
+    if (!isRestConfigured()) return { success: false, error: 'Please choose a display name first' };
+
+    try {
+      const metadata = [
+        `- Route: \`${params.route}\``,
+        params.version ? `- Version: \`${params.version}\`` : null,
+        params.cssSelector ? `- Target Component: \`${params.elementDescription || 'unknown'}\`` : null,
+        params.cssSelector ? `- CSS Selector: \`${params.cssSelector}\`` : null,
+        params.fingerprint ? `- Element Fingerprint: \`${serializeFingerprint(params.fingerprint)}\`` : null,
+        params.textAnchor ? `- Text Quote: \`${serializeTextAnchor(params.textAnchor)}\`` : null,
+        params.region ? `- Region: \`${formatRegion(params.region)}\`` : null,
+        params.annotations?.length ? `- Annotations: \`${serializeAnnotations(params.annotations)}\`` : null,
+        params.viewport ? `- Viewport: \`${formatViewport(params.viewport)}\`` : null,
+        `- Fallback Position: \`(${params.xPercent.toFixed(1)}%, ${params.yPercent.toFixed(1)}%)\``,
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+      const labels: string[] = ['hale-comment', `route:${params.route}`];
+      if (params.cssSelector && params.elementDescription) {
+        labels.push(`component:${params.elementDescription}`);
+      }
+      labels.push(`coords:${Math.round(params.xPercent)},${Math.round(params.yPercent)}`);
+      if (params.version) labels.push(`version:${params.version}`);
+
+      const data = await restRequest('POST', '/issues', {
+        title: params.title,
+        body: `${params.body}\n\n---\n**Metadata:**\n${metadata}`,
+        labels,
+        author: getAuthor(),
+      });
+      return { success: true, data: { number: data.number, html_url: data.html_url } };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to create issue' };
+    }
+  }
+
+  supportsNativeReplies(): boolean {
+    return false;
+  }
+
+  async createComment(issueNumber: number, body: string): Promise<ProviderResult> {
+    if (!isRestConfigured()) return { success: false, error: 'Please choose a display name first' };
+    try {
+      const data = await restRequest('POST', `/issues/${issueNumber}/comments`, { body, author: getAuthor() });
+      return { success: true, data };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to create comment' };
+    }
+  }
+
+  async fetchIssuesForRouteAndVersion(
+    route: string,
+    version?: string,
+    options?: FetchIssuesOptions,
+  ): Promise<ProviderResult<any[]>> {
+    if (!isRestConfigured()) return { success: false, error: 'Please choose a display name first' };
+    try {
+      const cursorKey = getSyncCursorKey('rest', route, version);
+      const since = options?.incremental ? getSyncCursor(cursorKey) : undefined;
+      const sinceParam = since ? `&since=${encodeURIComponent(since)}` : '';
+
+      // The store returns every match in one response, so there is a single "page"
+      const payload = await restRequest('GET', `/issues?label=${encodeURIComponent(`route:${route}`)}${sinceParam}`);
+      const data = Array.isArray(payload) ? payload : [];
+      options?.onProgress?.({ page: 1, loaded: data.length, hasMore: false });
+      setSyncCursor(cursorKey, getLatestUpdatedAt(data));
+
+      const filtered = data.filter((issue: any) => {
+        if (!version) return true;
+        const labels = getLabelNames(issue);
+        // Back-compat with the other adapters: issues without version metadata belong to version "1"
+        if (!labels.some((n) => n.startsWith('version:')) && version === '1') return true;
+        return labels.includes(`version:${version}`);
+      });
+      return { success: true, data: filtered };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch issues' };
+    }
+  }
+
+  resetIncrementalSync(route?: string, version?: string): void {
+    clearSyncCursors('rest', route !== undefined ? getSyncCursorKey('rest', route, version) : undefined);
+  }
+
+  async fetchIssueComments(issueNumber: number, _options?: PaginationOptions): Promise<ProviderResult<any[]>> {
+    if (!isRestConfigured()) return { success: false, error: 'Please choose a display name first' };
+    try {
+      const data = await restRequest('GET', `/issues/${issueNumber}/comments`);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to fetch issue comments' };
+    }
+  }
+
+  async updateComment(commentId: number, body: string, _issueNumber?: number): Promise<ProviderResult> {
+    if (!isRestConfigured()) return { success: false, error: 'Please choose a display name first' };
+    try {
+      const data = await restRequest('PATCH', `/comments/${commentId}`, { body });
+      return { success: true, data };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to update comment' };
+    }
+  }
+
+  async deleteComment(commentId: number, _issueNumber?: number): Promise<ProviderResult> {
+    if (!isRestConfigured()) return { success: false, error: 'Please choose a display name first' };
+    try {
+      await restRequest('DELETE', `/comments/${commentId}`);
+      return { success: true, data: {} };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to delete comment' };
+    }
+  }
+
+  supportsReactions(): boolean {
+    return false;
+  }
+
+  async fetchCommentReactions(_commentId: number, _issueNumber?: number): Promise<ProviderResult<CommentReaction[]>> {
+    return { success: false, error: 'Reactions are not supported by the REST provider' };
+  }
+
+  async addCommentReaction(_commentId: number, _content: ReactionContent, _issueNumber?: number): Promise<ProviderResult<CommentReaction>> {
+    return { success: false, error: 'Reactions are not supported by the REST provider' };
+  }
+
+  async removeCommentReaction(_commentId: number, _reaction: CommentReaction, _issueNumber?: number): Promise<ProviderResult> {
+    return { success: false, error: 'Reactions are not supported by the REST provider' };
+  }
+
+  async closeIssue(issueNumber: number): Promise<ProviderResult> {
+    if (!isRestConfigured()) return { success: false, error: 'Please choose a display name first' };
+    try {
+      const data = await restRequest('PATCH', `/issues/${issueNumber}`, { state: 'closed' });
+      return { success: true, data };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to close issue' };
+    }
+  }
+
+  async reopenIssue(issueNumber: number): Promise<ProviderResult> {
+    if (!isRestConfigured()) return { success: false, error: 'Please choose a display name first' };
+    try {
+      const data = await restRequest('PATCH', `/issues/${issueNumber}`, { state: 'open' });
+      return { success: true, data };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to reopen issue' };
+    }
+  }
+
+  async getRepoFile(path: string): Promise<ProviderResult<{ text: string; sha: string } | null>> {
+    if (!isRestConfigured()) return { success: false, error: 'Please choose a display name first' };
+    try {
+      const data = await restRequest('GET', `/files?path=${encodeURIComponent(path)}`);
+      if (typeof data?.text !== 'string' || !data?.sha) return { success: true, data: null };
+      return { success: true, data: { text: data.text, sha: data.sha } };
+    } catch (e: any) {
+      // If file doesn't exist yet, treat as empty
+      if (String(e?.message || '').toLowerCase().includes('not found')) {
+        return { success: true, data: null };
+      }
+      return { success: false, status: e?.status, error: e?.message || 'Failed to read repo file' };
+    }
+  }
+
+  async putRepoFile(params: PutRepoFileParams): Promise<ProviderResult<{ sha: string }>> {
+    if (!isRestConfigured()) return { success: false, error: 'Please choose a display name first' };
+    try {
+      const data = await restRequest('PUT', '/files', { path: params.path, text: params.text, sha: params.sha });
+      return { success: true, data: { sha: data?.sha || '' } };
+    } catch (e: any) {
+      return { success: false, status: e?.status, error: e?.message || 'Failed to write repo file' };
+    }
+  }
+}
+
+// Export singleton instance
+export const restAdapter = new RestAdapter();
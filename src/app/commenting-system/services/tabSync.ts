@@ -0,0 +1,100 @@
+import { Comment, Thread } from '../types';
+
+/**
+ * Messages between tabs of the same app, so each tab's CommentProvider can merge what the others changed.
+ * Uses BroadcastChannel where available and falls back to `storage` events on a scratch localStorage key.
+ */
+export type TabSyncMessage = {
+  type: 'threads';
+  threads: Thread[]; // inserted or updated threads (already written to the thread store by the sender)
+  removedIds: string[];
+  removedCommentIds: string[]; // comments the sender deleted from threads it still has
+};
+
+type TabSyncEnvelope = TabSyncMessage & { tabId: string; sentAt: number };
+
+export type TabSyncListener = (message: TabSyncMessage, sentAt: number) => void;
+
+const CHANNEL_NAME = 'hale_commenting_v1';
+const FALLBACK_STORAGE_KEY = 'hale_tab_sync_v1';
+
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+const listeners = new Set<TabSyncListener>();
+let channel: BroadcastChannel | null = null;
+let isListening = false;
+
+const deliver = (envelope: TabSyncEnvelope | null) => {
+  if (!envelope || envelope.tabId === tabId) return;
+  const { tabId: _sender, sentAt, ...message } = envelope;
+  listeners.forEach((listener) => listener(message, sentAt));
+};
+
+const startListening = () => {
+  if (isListening || typeof window === 'undefined') return;
+  isListening = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabSyncEnvelope>) => deliver(event.data);
+    return;
+  }
+
+  window.addEventListener('storage', (event) => {
+    if (event.key !== FALLBACK_STORAGE_KEY || !event.newValue) return;
+    try {
+      deliver(JSON.parse(event.newValue) as TabSyncEnvelope);
+    } catch {
+      // ignore malformed messages
+    }
+  });
+};
+
+export function subscribeTabSync(listener: TabSyncListener): () => void {
+  startListening();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function broadcastTabSync(message: TabSyncMessage): void {
+  if (typeof window === 'undefined') return;
+  startListening();
+  const envelope: TabSyncEnvelope = { ...message, tabId, sentAt: Date.now() };
+
+  if (channel) {
+    channel.postMessage(envelope);
+    return;
+  }
+
+  try {
+    // sentAt makes every write a change, so identical consecutive messages still fire `storage`
+    window.localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(envelope));
+  } catch {
+    // Storage full or unavailable: other tabs catch up on their next load
+  }
+}
+
+const byCreatedAt = (a: Comment, b: Comment) =>
+  a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+
+/**
+ * Merges another tab's copy of a thread into this tab's, comment by comment: both tabs' comments are kept (so
+ * neither loses comments the other hasn't seen yet) except those either tab deleted, and where both have a
+ * comment the newer copy wins, as it does for the thread's own fields. Returns `remote` or `local` itself when
+ * the merge matches it, so unchanged copies aren't written back and broadcast again.
+ */
+export function mergeThreadCopies(local: Thread, remote: Thread, isRemoteNewer: boolean, removedCommentIds: Set<string>): Thread {
+  const [newer, older] = isRemoteNewer ? [remote, local] : [local, remote];
+  const newerIds = new Set(newer.comments.map((c) => c.id));
+  const comments = newer.comments
+    .concat(older.comments.filter((c) => !newerIds.has(c.id)))
+    .filter((c) => !removedCommentIds.has(c.id))
+    .sort(byCreatedAt);
+  const merged: Thread = { ...newer, comments };
+
+  const json = JSON.stringify(merged);
+  if (json === JSON.stringify(remote)) return remote;
+  if (json === JSON.stringify(local)) return local;
+  return merged;
+}
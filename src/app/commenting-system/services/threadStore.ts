@@ -0,0 +1,217 @@
+import { Thread } from '../types';
+
+/**
+ * Local persistence for threads. IndexedDB keeps each thread as its own record (indexed by route),
+ * so saving touches only what changed and routes are loaded on demand instead of parsing every
+ * thread of the project on startup.
+ */
+export interface ThreadStore {
+  /** Threads of one route (all versions) */
+  loadRoute(route: string): Promise<Thread[]>;
+  /** Insert or replace threads by id */
+  putThreads(threads: Thread[]): Promise<void>;
+  deleteThreads(threadIds: string[]): Promise<void>;
+}
+
+// Called with a message when a write fails, and with null once writes succeed again
+export type ThreadStoreWarningListener = (message: string | null) => void;
+
+// Pre-IndexedDB storage: every thread in a single JSON array
+export const LEGACY_THREADS_STORAGE_KEY = 'hale_comment_threads_v1';
+
+const DB_NAME = 'hale_commenting';
+const DB_VERSION = 1;
+const THREADS_STORE = 'threads';
+const ROUTE_INDEX = 'route';
+
+const warningListeners = new Set<ThreadStoreWarningListener>();
+let hasWriteWarning = false;
+
+export function subscribeThreadStoreWarnings(listener: ThreadStoreWarningListener): () => void {
+  warningListeners.add(listener);
+  return () => {
+    warningListeners.delete(listener);
+  };
+}
+
+const isQuotaExceededError = (e: unknown): boolean => {
+  const err = e as { name?: string; code?: number } | null;
+  // Firefox used a different name before standardizing on QuotaExceededError
+  return !!err && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err.code === 22);
+};
+
+const reportWriteError = (e: unknown) => {
+  const message = isQuotaExceededError(e)
+    ? 'Browser storage is full: recent comment changes are not saved locally. Sync them to your provider or remove old pins.'
+    : `Could not save comments locally: ${(e as Error)?.message || e}`;
+  console.warn(`⚠️ ${message}`);
+  hasWriteWarning = true;
+  warningListeners.forEach((listener) => listener(message));
+};
+
+const reportWriteSuccess = () => {
+  if (!hasWriteWarning) return;
+  hasWriteWarning = false;
+  warningListeners.forEach((listener) => listener(null));
+};
+
+const readLegacyThreads = (): Thread[] => {
+  const raw = window.localStorage.getItem(LEGACY_THREADS_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as Thread[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * IndexedDB-backed store. On first open, threads from the legacy localStorage key are copied in
+ * and the key is removed once the copy has committed. When the database can't be opened at all
+ * (private modes that refuse it, an upgrade blocked by another tab), the session falls back to
+ * the localStorage store.
+ */
+export class IndexedDBThreadStore implements ThreadStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private readonly fallback = new LocalStorageThreadStore();
+
+  // Resolves to null once IndexedDB turned out to be unusable; callers then use the fallback
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(THREADS_STORE, { keyPath: 'id' });
+          store.createIndex(ROUTE_INDEX, 'route', { unique: false });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('database upgrade blocked by another open tab'));
+      })
+        .then(async (db) => {
+          await this.migrateLegacyThreads(db);
+          return db;
+        })
+        .catch((e) => {
+          console.warn('⚠️ IndexedDB is unavailable, keeping comments in localStorage instead:', (e as Error)?.message || e);
+          return null;
+        });
+    }
+    return this.dbPromise;
+  }
+
+  private async migrateLegacyThreads(db: IDBDatabase): Promise<void> {
+    const legacy = readLegacyThreads();
+    if (!legacy.length) return;
+
+    try {
+      // Don't clobber anything newer that another tab already wrote
+      const existingIds = new Set(
+        await requestToPromise(db.transaction(THREADS_STORE, 'readonly').objectStore(THREADS_STORE).getAllKeys()),
+      );
+      const tx = db.transaction(THREADS_STORE, 'readwrite');
+      const store = tx.objectStore(THREADS_STORE);
+      legacy.filter((t) => t?.id && !existingIds.has(t.id)).forEach((t) => store.put(t));
+      await transactionDone(tx);
+      window.localStorage.removeItem(LEGACY_THREADS_STORAGE_KEY);
+      console.log(`📦 Migrated ${legacy.length} thread(s) from localStorage to IndexedDB`);
+    } catch (e) {
+      // Keep the legacy key so the next load retries
+      reportWriteError(e);
+    }
+  }
+
+  async loadRoute(route: string): Promise<Thread[]> {
+    const db = await this.open();
+    if (!db) return this.fallback.loadRoute(route);
+    const tx = db.transaction(THREADS_STORE, 'readonly');
+    const index = tx.objectStore(THREADS_STORE).index(ROUTE_INDEX);
+    return requestToPromise(index.getAll(IDBKeyRange.only(route)) as IDBRequest<Thread[]>);
+  }
+
+  async putThreads(threads: Thread[]): Promise<void> {
+    if (!threads.length) return;
+    try {
+      const db = await this.open();
+      if (!db) return this.fallback.putThreads(threads);
+      const tx = db.transaction(THREADS_STORE, 'readwrite');
+      const store = tx.objectStore(THREADS_STORE);
+      threads.forEach((thread) => store.put(thread));
+      await transactionDone(tx);
+      reportWriteSuccess();
+    } catch (e) {
+      reportWriteError(e);
+    }
+  }
+
+  async deleteThreads(threadIds: string[]): Promise<void> {
+    if (!threadIds.length) return;
+    try {
+      const db = await this.open();
+      if (!db) return this.fallback.deleteThreads(threadIds);
+      const tx = db.transaction(THREADS_STORE, 'readwrite');
+      const store = tx.objectStore(THREADS_STORE);
+      threadIds.forEach((id) => store.delete(id));
+      await transactionDone(tx);
+      reportWriteSuccess();
+    } catch (e) {
+      reportWriteError(e);
+    }
+  }
+}
+
+/**
+ * Fallback for environments without IndexedDB (old browsers, private modes that disable it, jsdom).
+ * Keeps the legacy single-key format.
+ */
+export class LocalStorageThreadStore implements ThreadStore {
+  async loadRoute(route: string): Promise<Thread[]> {
+    return readLegacyThreads().filter((t) => t.route === route);
+  }
+
+  async putThreads(threads: Thread[]): Promise<void> {
+    if (!threads.length) return;
+    const byId = new Map(readLegacyThreads().map((t) => [t.id, t] as [string, Thread]));
+    threads.forEach((t) => byId.set(t.id, t));
+    this.write(Array.from(byId.values()));
+  }
+
+  async deleteThreads(threadIds: string[]): Promise<void> {
+    if (!threadIds.length) return;
+    const ids = new Set(threadIds);
+    this.write(readLegacyThreads().filter((t) => !ids.has(t.id)));
+  }
+
+  private write(threads: Thread[]) {
+    try {
+      window.localStorage.setItem(LEGACY_THREADS_STORAGE_KEY, JSON.stringify(threads));
+      reportWriteSuccess();
+    } catch (e) {
+      reportWriteError(e);
+    }
+  }
+}
+
+let threadStore: ThreadStore | null = null;
+
+export function getThreadStore(): ThreadStore {
+  if (!threadStore) {
+    threadStore =
+      typeof window !== 'undefined' && window.indexedDB ? new IndexedDBThreadStore() : new LocalStorageThreadStore();
+  }
+  return threadStore;
+}
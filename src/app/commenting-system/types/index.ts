@@ -1,3 +1,5 @@
+import { CommentReaction, ProviderType } from './provider';
+
 export interface Comment {
   id: string;
   author?: string;
@@ -7,8 +9,18 @@ export interface Comment {
   parentCommentId?: string; // local id of parent comment
   parentGitHubCommentId?: number; // GitHub comment id of parent (if known)
   issueNumber?: number; // Required for GitLab comment updates/deletes
+  remoteUpdatedAt?: string; // Provider `updated_at` of the version the local text is based on
+  conflict?: CommentConflict; // Set when someone else edited the comment while a local edit was unsent
+  reactions?: CommentReaction[]; // Everyone's reactions, loaded with the comments during sync
+}
+
+export interface CommentConflict {
+  remoteText: string; // Their version (reply markers stripped)
+  remoteUpdatedAt?: string;
 }
 
+export type ConflictResolution = 'mine' | 'theirs' | { text: string };
+
 export type SyncStatus = 'synced' | 'local' | 'pending' | 'syncing' | 'error';
 export type ThreadStatus = 'open' | 'closed';
 
@@ -21,9 +33,88 @@ export interface ComponentMetadata {
   componentPath?: string[]; // Component tree path (e.g., ["App", "Dashboard", "Button"])
 }
 
+/**
+ * Independent ways to recognize a pinned element again (see utils/fingerprint.ts)
+ */
+export interface ElementFingerprint {
+  tagName: string;
+  testId?: string; // data-testid / data-id
+  id?: string;
+  role?: string; // explicit or implicit ARIA role
+  accessibleName?: string;
+  textHash?: string; // hash of the normalized text content
+  componentPath?: string[];
+  nthChildPath?: string;
+}
+
+// How well the element a pin is shown on matches its fingerprint ('lost' = not found, fallback position)
+export type AnchorConfidence = 'high' | 'medium' | 'low' | 'lost';
+
+/**
+ * A comment on a range of text (see utils/textAnchor.ts): the quoted text with some context around it,
+ * plus its character offsets within the anchor element's text
+ */
+export interface TextAnchor {
+  quote: {
+    exact: string;
+    prefix?: string; // Text right before the quote
+    suffix?: string; // Text right after the quote
+  };
+  position: {
+    start: number;
+    end: number;
+  };
+}
+
+/**
+ * A rectangle drawn on the page, in percent of its container element's box (so it follows the container
+ * when the page scrolls, resizes or reflows)
+ */
+export interface RegionAnchor {
+  xPercent: number;
+  yPercent: number;
+  widthPercent: number;
+  heightPercent: number;
+}
+
+/**
+ * Markup drawn over the page (see utils/annotations.ts). Coordinates are in percent of the thread's anchor
+ * element box and may fall outside 0-100 when a shape reaches past the element.
+ */
+export type AnnotationShape =
+  | { kind: 'arrow'; from: [number, number]; to: [number, number]; color?: string }
+  | { kind: 'box'; x: number; y: number; width: number; height: number; color?: string }
+  | { kind: 'freehand'; points: Array<[number, number]>; color?: string };
+
+export type AnnotationKind = AnnotationShape['kind'];
+
+// PatternFly breakpoint names; 'default' is below sm
+export type Breakpoint = 'default' | 'sm' | 'md' | 'lg' | 'xl' | '2xl';
+
+/**
+ * Browser viewport when a thread was created, so responsive feedback can be seen in the layout it was about
+ */
+export interface ViewportContext {
+  width: number; // CSS pixels
+  height: number;
+  devicePixelRatio: number;
+  breakpoint: Breakpoint;
+}
+
+// What a click/drag does in comment mode: drop a pin on an element, draw a region, or draw markup
+export type CommentTool = 'pin' | 'region' | AnnotationKind;
+
 export interface Thread {
   id: string;
   cssSelector?: string; // CSS selector for target element
+  fingerprint?: ElementFingerprint; // Used to re-anchor the pin when the selector no longer matches
+  textAnchor?: TextAnchor; // Set for comments on selected text; the element above is the text's container
+  region?: RegionAnchor; // Set for comments on a drawn rectangle; the element above is its container
+  annotations?: AnnotationShape[]; // Arrows, boxes and freehand strokes drawn for this thread
+  annotationsUrl?: string; // Uploaded image of the markup, embedded in the issue body
+  screenshot?: string; // PNG data URL of the element taken when the thread was created, kept until it's uploaded
+  screenshotUrl?: string; // Uploaded screenshot, embedded in the issue body
+  viewport?: ViewportContext; // Viewport the thread was created in (missing on older threads)
   elementDescription?: string; // Simplified element name for display (e.g., "button.pf-c-button")
   componentMetadata?: ComponentMetadata; // React component information (component-based)
   xPercent: number; // Percentage from left (0-100) - used as fallback when element is deleted
@@ -33,9 +124,18 @@ export interface Thread {
   comments: Comment[];
   issueNumber?: number;
   issueUrl?: string;
-  provider?: 'github' | 'gitlab';
+  provider?: ProviderType;
   syncStatus?: SyncStatus;
   syncError?: string;
   status?: ThreadStatus; // open or closed (mirrors GitHub issue state)
   isTemporary?: boolean; // If true, thread is not persisted until first comment is added
 }
+
+export interface SyncProgress {
+  route: string;
+  version?: string;
+  phase: 'issues' | 'comments';
+  issuesLoaded: number; // Issues fetched so far (across pages)
+  commentsLoadedFor: number; // Issues whose comment pages have been fetched
+  page?: number; // Current page within the active list request
+}
@@ -1,8 +1,16 @@
+import { AnnotationShape, ElementFingerprint, RegionAnchor, TextAnchor, ViewportContext } from './index';
+
 /**
- * Provider abstraction layer for issue tracking platforms (GitHub, GitLab, etc.)
+ * Provider abstraction layer for issue tracking platforms (GitHub, GitLab, Gitea, Jira, the bundled REST store, etc.)
  */
 
-export type ProviderType = 'github' | 'gitlab';
+export type BuiltInProviderType = 'github' | 'gitlab' | 'gitea' | 'jira' | 'rest';
+
+/**
+ * Built-in provider names plus any name passed to registerProvider()
+ * (`string & {}` keeps editor autocompletion for the built-in names)
+ */
+export type ProviderType = BuiltInProviderType | (string & {});
 
 /**
  * Generic user interface that works across providers
@@ -10,6 +18,22 @@ export type ProviderType = 'github' | 'gitlab';
 export interface ProviderUser {
   login: string;
   avatar: string;
+  /** Display name, when the provider returns one */
+  name?: string;
+}
+
+/**
+ * Reactions offered on comments, by GitHub's names (GitLab award emoji are mapped to these)
+ */
+export type ReactionContent = '+1' | '-1' | 'laugh' | 'hooray' | 'confused' | 'heart' | 'rocket' | 'eyes';
+
+/**
+ * One person's reaction to a comment
+ */
+export interface CommentReaction {
+  id?: number; // Provider id, needed to remove it (Gitea removes reactions by content instead)
+  content: ReactionContent;
+  user: string; // login of the person who reacted
 }
 
 /**
@@ -19,6 +43,7 @@ export interface ProviderResult<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  status?: number; // HTTP status of the failed request, when the provider answered with one
 }
 
 /**
@@ -30,6 +55,11 @@ export interface CreateIssueParams {
   route: string;
   cssSelector?: string;
   elementDescription?: string;
+  fingerprint?: ElementFingerprint;
+  textAnchor?: TextAnchor;
+  region?: RegionAnchor;
+  annotations?: AnnotationShape[];
+  viewport?: ViewportContext;
   xPercent: number;
   yPercent: number;
   version?: string;
@@ -43,6 +73,35 @@ export interface IssueData {
   html_url: string; // GitHub uses 'html_url', GitLab uses 'web_url', normalized to 'html_url'
 }
 
+/**
+ * Progress reported while walking a paginated list endpoint
+ */
+export interface PaginationProgress {
+  page: number; // 1-based page that was just loaded
+  loaded: number; // total items loaded so far
+  hasMore: boolean; // true if another page will be requested
+}
+
+/**
+ * Options for list endpoints that follow pagination (Link headers / page cursors)
+ */
+export interface PaginationOptions {
+  maxPages?: number; // defaults to VITE_SYNC_MAX_PAGES or DEFAULT_MAX_PAGES
+  perPage?: number; // defaults to 100 (the maximum both GitHub and GitLab allow)
+  onProgress?: (progress: PaginationProgress) => void;
+}
+
+/**
+ * Options for fetching the issues of a route
+ */
+export interface FetchIssuesOptions extends PaginationOptions {
+  /**
+   * Only return issues updated since the last successful fetch for this route/version
+   * (GitHub `since`, GitLab `updated_after`). The first fetch of a session is always full.
+   */
+  incremental?: boolean;
+}
+
 /**
  * Parameters for updating/creating a file in the repository
  */
@@ -53,6 +112,24 @@ export interface PutRepoFileParams {
   sha?: string;
 }
 
+/**
+ * A binary file (screenshot, pasted image) to reference from an issue or comment body
+ */
+export interface UploadAttachmentParams {
+  filename: string;
+  contentBase64: string;
+  contentType: string;
+  /** Commit message, for providers that store attachments in the repository */
+  message?: string;
+}
+
+/**
+ * Uploaded attachment, linkable from Markdown
+ */
+export interface AttachmentData {
+  url: string;
+}
+
 /**
  * Core adapter interface that all providers must implement
  * This allows the commenting system to work with GitHub, GitLab, or any other provider
@@ -79,19 +156,44 @@ export interface IssueProviderAdapter {
   reopenIssue(issueNumber: number): Promise<ProviderResult>;
 
   /**
-   * Fetch all issues for a specific route and optional version
+   * Fetch all issues for a specific route and optional version (follows pagination up to the configured cap).
+   * Queries by the `route:` label server-side; legacy issues with route metadata only in the body are found
+   * via a one-off body scan.
    */
-  fetchIssuesForRouteAndVersion(route: string, version?: string): Promise<ProviderResult<any[]>>;
+  fetchIssuesForRouteAndVersion(
+    route: string,
+    version?: string,
+    options?: FetchIssuesOptions,
+  ): Promise<ProviderResult<any[]>>;
 
   /**
-   * Create a new comment on an issue
+   * Forget the incremental sync cursor for a route/version (or all routes), forcing the next fetch to be full
    */
-  createComment(issueNumber: number, body: string): Promise<ProviderResult>;
+  resetIncrementalSync(route?: string, version?: string): void;
 
   /**
-   * Fetch all comments for an issue
+   * Whether comments can be replies to other comments in the provider itself (GitLab discussions). Without it,
+   * threading is kept in hidden markers in the comment body. Optional: providers without it use the markers.
    */
-  fetchIssueComments(issueNumber: number): Promise<ProviderResult<any[]>>;
+  supportsNativeReplies?(): boolean;
+
+  /**
+   * Create a new comment on an issue. With native replies, `replyTo` (the provider id of the comment being
+   * answered) puts it in that comment's thread; other providers ignore it.
+   */
+  createComment(issueNumber: number, body: string, replyTo?: number): Promise<ProviderResult>;
+
+  /**
+   * Fetch all comments for an issue (follows pagination up to the configured cap). With native replies,
+   * replies carry the provider id of the comment they answer as `parent_id`.
+   */
+  fetchIssueComments(issueNumber: number, options?: PaginationOptions): Promise<ProviderResult<any[]>>;
+
+  /**
+   * People who can be @mentioned in comments (repository collaborators / project members). Fetched once per
+   * session; a failed fetch is retried on the next call. Optional: without it, the composer offers no suggestions.
+   */
+  fetchMentionableUsers?(): Promise<ProviderResult<ProviderUser[]>>;
 
   /**
    * Update an existing comment
@@ -105,13 +207,43 @@ export interface IssueProviderAdapter {
    */
   deleteComment(commentId: number, issueNumber?: number): Promise<ProviderResult>;
 
+  /**
+   * Whether comments support emoji reactions (GitHub/Gitea reactions, GitLab award emoji). Optional, like the
+   * three reaction methods below: without them, comments show no reactions.
+   */
+  supportsReactions?(): boolean;
+
+  /**
+   * Fetch everyone's reactions to a comment
+   * Note: GitLab requires both issueNumber and commentId in the path
+   */
+  fetchCommentReactions?(commentId: number, issueNumber?: number): Promise<ProviderResult<CommentReaction[]>>;
+
+  /**
+   * React to a comment as the signed-in user
+   */
+  addCommentReaction?(commentId: number, content: ReactionContent, issueNumber?: number): Promise<ProviderResult<CommentReaction>>;
+
+  /**
+   * Remove one of the signed-in user's reactions from a comment
+   */
+  removeCommentReaction?(commentId: number, reaction: CommentReaction, issueNumber?: number): Promise<ProviderResult>;
+
   /**
    * Get a file from the repository
    */
   getRepoFile(path: string): Promise<ProviderResult<{ text: string; sha: string } | null>>;
 
   /**
-   * Create or update a file in the repository
+   * Create or update a file in the repository. `url` is a raw link to the file (usable as an image in issue
+   * bodies) when the provider has one.
+   */
+  putRepoFile(params: PutRepoFileParams): Promise<ProviderResult<{ sha: string; url?: string }>>;
+
+  /**
+   * Upload a file so it can be embedded in issue/comment bodies (GitLab project uploads, or a commit under
+   * `.hale/attachments/` for repository-backed providers). Optional: without it, issues are created without
+   * the element screenshot.
    */
-  putRepoFile(params: PutRepoFileParams): Promise<ProviderResult<{ sha: string }>>;
+  uploadAttachment?(params: UploadAttachmentParams): Promise<ProviderResult<AttachmentData>>;
 }
@@ -0,0 +1,168 @@
+/**
+ * Markup shapes (arrows, boxes, freehand strokes) drawn over the page for a thread. Shapes are stored in
+ * percent of the thread's anchor element box, drawn as SVG paths in the overlay, and exported as a standalone
+ * SVG for the issue body.
+ */
+
+import { AnnotationShape } from '../types';
+
+export interface AnnotationBox {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_ANNOTATION_COLOR = '#C9190B';
+export const ANNOTATION_STROKE_WIDTH = 3;
+
+const ARROW_HEAD_LENGTH = 14;
+const ARROW_HEAD_ANGLE = Math.PI / 7;
+// Freehand points closer than this (in percent) add nothing visible but bloat the issue metadata
+const MIN_POINT_DISTANCE = 0.4;
+// Size used for the exported image when the anchor element can't be measured
+const FALLBACK_BOX: AnnotationBox = { width: 800, height: 600 };
+const EXPORT_PADDING = 16;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Drop points that are too close to the previous one (and round the rest) to keep strokes small
+ */
+export function simplifyStroke(points: Array<[number, number]>): Array<[number, number]> {
+  const result: Array<[number, number]> = [];
+  points.forEach(([x, y], i) => {
+    const last = result[result.length - 1];
+    if (last && i < points.length - 1 && Math.hypot(x - last[0], y - last[1]) < MIN_POINT_DISTANCE) return;
+    result.push([round(x), round(y)]);
+  });
+  return result;
+}
+
+/**
+ * SVG path data for a shape inside a box of the given pixel size
+ */
+export function getShapePath(shape: AnnotationShape, box: AnnotationBox): string {
+  const px = ([x, y]: [number, number]): [number, number] => [(x / 100) * box.width, (y / 100) * box.height];
+  const fmt = ([x, y]: [number, number]) => `${x.toFixed(1)} ${y.toFixed(1)}`;
+
+  switch (shape.kind) {
+    case 'arrow': {
+      const from = px(shape.from);
+      const to = px(shape.to);
+      const angle = Math.atan2(to[1] - from[1], to[0] - from[0]);
+      const wing = (offset: number): [number, number] => [
+        to[0] - ARROW_HEAD_LENGTH * Math.cos(angle + offset),
+        to[1] - ARROW_HEAD_LENGTH * Math.sin(angle + offset),
+      ];
+      return `M ${fmt(from)} L ${fmt(to)} M ${fmt(wing(ARROW_HEAD_ANGLE))} L ${fmt(to)} L ${fmt(wing(-ARROW_HEAD_ANGLE))}`;
+    }
+    case 'box': {
+      const [x, y] = px([shape.x, shape.y]);
+      const [x2, y2] = px([shape.x + shape.width, shape.y + shape.height]);
+      return `M ${fmt([x, y])} L ${fmt([x2, y])} L ${fmt([x2, y2])} L ${fmt([x, y2])} Z`;
+    }
+    case 'freehand':
+      return shape.points.map((p, i) => `${i ? 'L' : 'M'} ${fmt(px(p))}`).join(' ');
+    default:
+      return '';
+  }
+}
+
+const shapePoints = (shape: AnnotationShape): Array<[number, number]> => {
+  switch (shape.kind) {
+    case 'arrow':
+      return [shape.from, shape.to];
+    case 'box':
+      return [
+        [shape.x, shape.y],
+        [shape.x + shape.width, shape.y + shape.height],
+      ];
+    case 'freehand':
+      return shape.points;
+    default:
+      return [];
+  }
+};
+
+/**
+ * Same shape with every point transformed (e.g. from viewport pixels to percent of an element box)
+ */
+export function mapShapePoints(shape: AnnotationShape, map: (point: [number, number]) => [number, number]): AnnotationShape {
+  switch (shape.kind) {
+    case 'arrow':
+      return { ...shape, from: map(shape.from), to: map(shape.to) };
+    case 'box': {
+      const [x, y] = map([shape.x, shape.y]);
+      const [x2, y2] = map([shape.x + shape.width, shape.y + shape.height]);
+      return { ...shape, x: Math.min(x, x2), y: Math.min(y, y2), width: Math.abs(x2 - x), height: Math.abs(y2 - y) };
+    }
+    case 'freehand':
+      return { ...shape, points: shape.points.map(map) };
+    default:
+      return shape;
+  }
+}
+
+/**
+ * Bounding box of the shapes, in their own units
+ */
+export function getShapeBounds(shapes: AnnotationShape[]): { left: number; top: number; width: number; height: number } {
+  const points = ([] as Array<[number, number]>).concat(...shapes.map(shapePoints));
+  if (!points.length) return { left: 0, top: 0, width: 0, height: 0 };
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+}
+
+const escapeAttribute = (value: string) => value.replace(/[^#\w]/g, '');
+
+/**
+ * Standalone SVG of the markup over a dashed outline of the anchor element, for embedding in the issue body
+ */
+export function renderAnnotationsSvg(shapes: AnnotationShape[], box: AnnotationBox | null): string {
+  const size = box && box.width > 0 && box.height > 0 ? box : FALLBACK_BOX;
+
+  // Shapes may reach past the element; grow the canvas to include them
+  const bounds = getShapeBounds(shapes.map((shape) => mapShapePoints(shape, ([x, y]) => [(x / 100) * size.width, (y / 100) * size.height])));
+  const minX = Math.min(0, bounds.left) - EXPORT_PADDING;
+  const minY = Math.min(0, bounds.top) - EXPORT_PADDING;
+  const width = Math.ceil(Math.max(size.width, bounds.left + bounds.width) + EXPORT_PADDING - minX);
+  const height = Math.ceil(Math.max(size.height, bounds.top + bounds.height) + EXPORT_PADDING - minY);
+
+  const paths = shapes
+    .map(
+      (shape) =>
+        `<path d="${getShapePath(shape, size)}" fill="none" stroke="${escapeAttribute(shape.color || DEFAULT_ANNOTATION_COLOR)}" ` +
+        `stroke-width="${ANNOTATION_STROKE_WIDTH}" stroke-linecap="round" stroke-linejoin="round"/>`,
+    )
+    .join('\n  ');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX.toFixed(0)} ${minY.toFixed(0)} ${width} ${height}">`,
+    `  <rect x="${minX.toFixed(0)}" y="${minY.toFixed(0)}" width="${width}" height="${height}" fill="#ffffff"/>`,
+    `  <rect x="0" y="0" width="${size.width.toFixed(0)}" height="${size.height.toFixed(0)}" fill="#f0f0f0" stroke="#6a6e73" stroke-dasharray="6 4"/>`,
+    `  ${paths}`,
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Shapes travel in the issue body's metadata list as inline-code JSON (see serializeFingerprint)
+ */
+export function serializeAnnotations(shapes: AnnotationShape[]): string {
+  return JSON.stringify(shapes).replace(/`/g, '\\u0060');
+}
+
+export function parseAnnotations(raw: string | undefined): AnnotationShape[] | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return undefined;
+    const shapes = parsed.filter((s) => s && (s.kind === 'arrow' || s.kind === 'box' || s.kind === 'freehand')) as AnnotationShape[];
+    return shapes.length ? shapes : undefined;
+  } catch {
+    return undefined;
+  }
+}
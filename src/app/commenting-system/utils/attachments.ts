@@ -0,0 +1,66 @@
+/**
+ * Helpers for files attached to issues and comments (see IssueProviderAdapter.uploadAttachment)
+ */
+
+// Where repository-backed providers commit attachments
+export const ATTACHMENTS_DIR = '.hale/attachments';
+
+/**
+ * Unique repository path for an attachment; the timestamp keeps same-named uploads apart
+ */
+export function getAttachmentPath(filename: string): string {
+  const safeName = filename.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'attachment';
+  return `${ATTACHMENTS_DIR}/${Date.now()}-${safeName}`;
+}
+
+/**
+ * Split a base64 data URL into its content type and payload
+ */
+export function parseDataUrl(dataUrl: string): { contentType: string; contentBase64: string } | null {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { contentType: match[1], contentBase64: match[2] } : null;
+}
+
+// The dev proxy accepts 10 MB JSON bodies and base64 adds a third
+export const MAX_ATTACHMENT_BYTES = 7 * 1024 * 1024;
+
+/**
+ * Read a file (e.g. one dropped or pasted into a comment box) as a base64 data URL
+ */
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result || ''));
+    reader.onerror = () => reject(reader.error || new Error('Could not read the file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+// File names go into Markdown link text
+const escapeLinkText = (text: string): string => text.replace(/[[\]\\]/g, '\\$&');
+
+/**
+ * Text put into a comment while its attachment uploads; replaced by the link once it's done
+ */
+export function getUploadPlaceholder(filename: string, isImage: boolean): string {
+  return `${isImage ? '!' : ''}[Uploading ${escapeLinkText(filename)}…]()`;
+}
+
+/**
+ * Whether the text still has attachments being uploaded (so it shouldn't be posted yet)
+ */
+export function hasPendingUploads(text: string): boolean {
+  return /\[Uploading (?:[^\]\\]|\\.)*…\]\(\)/.test(text);
+}
+
+/**
+ * Markdown for an uploaded attachment: images are embedded, other files linked
+ */
+export function formatAttachmentMarkdown(filename: string, url: string, isImage: boolean): string {
+  // encodeURIComponent leaves parentheses alone, but they would end the Markdown link
+  const safeUrl = url
+    .replace(/\s/g, (c) => encodeURIComponent(c))
+    .replace(/\(/g, '%28')
+    .replace(/\)/g, '%29');
+  return `${isImage ? '!' : ''}[${escapeLinkText(filename)}](${safeUrl})`;
+}
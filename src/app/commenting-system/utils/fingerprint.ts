@@ -0,0 +1,260 @@
+/**
+ * Element fingerprints: several independent ways to recognize the element a pin was placed on,
+ * so a pin survives DOM changes that break its single CSS selector.
+ */
+
+import { AnchorConfidence, ElementFingerprint } from '../types';
+import { getComponentPath } from './componentUtils';
+import { findElementBySelector, getNthChildPath } from './selectorUtils';
+
+export interface AnchorMatch {
+  element: Element | null;
+  confidence: AnchorConfidence;
+  score: number; // 0-1, share of the fingerprint's signals the element matched
+}
+
+// Points per matching signal; a candidate's score is divided by the points its fingerprint could earn
+const WEIGHTS = {
+  testId: 40,
+  id: 25,
+  roleName: 20,
+  role: 5, // role without an accessible name
+  text: 15,
+  componentPath: 10,
+  nthChildPath: 10,
+};
+
+const HIGH_CONFIDENCE = 0.75;
+const MEDIUM_CONFIDENCE = 0.45;
+const LOW_CONFIDENCE = 0.25;
+
+// Scoring every element of a large page on each resolve would be too slow
+const MAX_TAG_CANDIDATES = 1500;
+// Component paths need a fiber walk per ancestor, so they're only compared for the best few
+const COMPONENT_PATH_CANDIDATES = 5;
+
+const MAX_NAME_LENGTH = 80;
+const MAX_HASHED_TEXT_LENGTH = 500;
+// Raw text read from an element before collapsing whitespace; a container's textContent can be the whole page
+const MAX_RAW_TEXT_LENGTH = MAX_HASHED_TEXT_LENGTH * 4;
+
+const IMPLICIT_ROLES: Record<string, string> = {
+  button: 'button',
+  select: 'combobox',
+  textarea: 'textbox',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  img: 'img',
+  nav: 'navigation',
+  main: 'main',
+  header: 'banner',
+  footer: 'contentinfo',
+  form: 'form',
+  dialog: 'dialog',
+  table: 'table',
+  ul: 'list',
+  ol: 'list',
+  li: 'listitem',
+};
+
+// Roles whose accessible name comes from their text content
+const NAME_FROM_CONTENT_ROLES = new Set(['button', 'link', 'heading', 'tab', 'menuitem', 'option', 'checkbox', 'radio', 'listitem']);
+
+const normalizeText = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+const normalizeLeadingText = (text: string | null | undefined) => normalizeText((text || '').slice(0, MAX_RAW_TEXT_LENGTH));
+
+/**
+ * FNV-1a hash of the normalized text (not cryptographic; only used to compare copies of the same text)
+ */
+export function hashText(text: string): string {
+  const normalized = normalizeLeadingText(text).toLowerCase().slice(0, MAX_HASHED_TEXT_LENGTH);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `00000000${(hash >>> 0).toString(16)}`.slice(-8);
+}
+
+const getTestId = (element: Element) => element.getAttribute('data-testid') || element.getAttribute('data-id') || undefined;
+
+export function getElementRole(element: Element): string | undefined {
+  const explicit = element.getAttribute('role');
+  if (explicit) return explicit.split(/\s+/)[0];
+
+  const tagName = element.tagName.toLowerCase();
+  if (tagName === 'a') return element.hasAttribute('href') ? 'link' : undefined;
+  if (tagName === 'input') {
+    const type = (element.getAttribute('type') || 'text').toLowerCase();
+    if (type === 'checkbox' || type === 'radio') return type;
+    if (type === 'button' || type === 'submit' || type === 'reset') return 'button';
+    return type === 'hidden' ? undefined : 'textbox';
+  }
+  return IMPLICIT_ROLES[tagName];
+}
+
+/**
+ * Simplified accessible name: aria-label, aria-labelledby, alt/title, then text for roles named by content
+ */
+export function getAccessibleName(element: Element, role = getElementRole(element)): string | undefined {
+  const ariaLabel = normalizeText(element.getAttribute('aria-label'));
+  if (ariaLabel) return ariaLabel.slice(0, MAX_NAME_LENGTH);
+
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const label = normalizeText(
+      labelledBy
+        .split(/\s+/)
+        .map((id) => document.getElementById(id)?.textContent || '')
+        .join(' '),
+    );
+    if (label) return label.slice(0, MAX_NAME_LENGTH);
+  }
+
+  const attrName = normalizeText(element.getAttribute('alt') || element.getAttribute('title'));
+  if (attrName) return attrName.slice(0, MAX_NAME_LENGTH);
+
+  if (role && NAME_FROM_CONTENT_ROLES.has(role)) {
+    const text = normalizeLeadingText(element.textContent);
+    if (text) return text.slice(0, MAX_NAME_LENGTH);
+  }
+  return undefined;
+}
+
+/**
+ * Capture everything we can use later to find this element again
+ */
+export function createElementFingerprint(element: Element): ElementFingerprint {
+  const role = getElementRole(element);
+  const text = normalizeLeadingText(element.textContent);
+  const componentPath = getComponentPath(element);
+
+  return {
+    tagName: element.tagName.toLowerCase(),
+    testId: getTestId(element),
+    id: element.getAttribute('id') || undefined,
+    role,
+    accessibleName: getAccessibleName(element, role),
+    textHash: text ? hashText(text) : undefined,
+    componentPath: componentPath.length ? componentPath : undefined,
+    nthChildPath: getNthChildPath(element),
+  };
+}
+
+const possibleScore = (fp: ElementFingerprint) =>
+  (fp.testId ? WEIGHTS.testId : 0) +
+  (fp.id ? WEIGHTS.id : 0) +
+  (fp.role ? (fp.accessibleName ? WEIGHTS.roleName : WEIGHTS.role) : 0) +
+  (fp.textHash ? WEIGHTS.text : 0) +
+  (fp.componentPath?.length ? WEIGHTS.componentPath : 0) +
+  (fp.nthChildPath ? WEIGHTS.nthChildPath : 0);
+
+const sameStrings = (a: string[] = [], b: string[] = []) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+// Everything except the component path
+const scoreCandidate = (element: Element, fp: ElementFingerprint, nthChildMatch: Element | null): number => {
+  let score = 0;
+  if (fp.testId && getTestId(element) === fp.testId) score += WEIGHTS.testId;
+  if (fp.id && element.getAttribute('id') === fp.id) score += WEIGHTS.id;
+  if (fp.role) {
+    const role = getElementRole(element);
+    if (role === fp.role) {
+      if (!fp.accessibleName) score += WEIGHTS.role;
+      else if (getAccessibleName(element, role) === fp.accessibleName) score += WEIGHTS.roleName;
+    }
+  }
+  if (fp.textHash && hashText(element.textContent || '') === fp.textHash) score += WEIGHTS.text;
+  if (nthChildMatch === element) score += WEIGHTS.nthChildPath;
+  // A different tag is rarely the same element, even when some attributes carried over
+  return element.tagName.toLowerCase() === fp.tagName ? score : score / 2;
+};
+
+const queryAll = (selector: string): Element[] => {
+  try {
+    return Array.from(document.querySelectorAll(selector));
+  } catch {
+    return [];
+  }
+};
+
+const collectCandidates = (fp: ElementFingerprint, cssSelector: string | undefined, nthChildMatch: Element | null) => {
+  const candidates = new Set<Element>();
+  const add = (el: Element | null | undefined) => {
+    // Never anchor to our own pins/overlay
+    if (el && !el.closest('[data-comment-overlay]')) candidates.add(el);
+  };
+
+  if (fp.testId) {
+    const escaped = CSS.escape(fp.testId);
+    queryAll(`[data-testid="${escaped}"], [data-id="${escaped}"]`).forEach(add);
+  }
+  if (fp.id) add(document.getElementById(fp.id));
+  add(findElementBySelector(cssSelector));
+  add(nthChildMatch);
+
+  // Same-tag elements carry the role/name/text signals when ids and paths changed
+  const sameTag = document.getElementsByTagName(fp.tagName);
+  for (let i = 0; i < sameTag.length && i < MAX_TAG_CANDIDATES; i++) add(sameTag[i]);
+
+  return Array.from(candidates);
+};
+
+const toConfidence = (score: number): AnchorConfidence =>
+  score >= HIGH_CONFIDENCE ? 'high' : score >= MEDIUM_CONFIDENCE ? 'medium' : score >= LOW_CONFIDENCE ? 'low' : 'lost';
+
+/**
+ * Find the element a thread is anchored to. With a fingerprint every plausible element is scored and the best
+ * match wins (if it clears the low-confidence bar); without one, only the stored CSS selector is tried.
+ */
+export function resolveElementAnchor(anchor: { cssSelector?: string; fingerprint?: ElementFingerprint }): AnchorMatch {
+  const { cssSelector, fingerprint } = anchor;
+
+  if (!fingerprint) {
+    const element = findElementBySelector(cssSelector);
+    return element ? { element, confidence: 'high', score: 1 } : { element: null, confidence: 'lost', score: 0 };
+  }
+
+  const possible = possibleScore(fingerprint);
+  if (!possible) return { element: null, confidence: 'lost', score: 0 };
+
+  const nthChildMatch = findElementBySelector(fingerprint.nthChildPath);
+  const scored = collectCandidates(fingerprint, cssSelector, nthChildMatch)
+    .map((element) => ({ element, points: scoreCandidate(element, fingerprint, nthChildMatch) }))
+    .filter((c) => c.points > 0)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, COMPONENT_PATH_CANDIDATES);
+
+  if (fingerprint.componentPath?.length) {
+    scored.forEach((c) => {
+      if (sameStrings(getComponentPath(c.element), fingerprint.componentPath)) c.points += WEIGHTS.componentPath;
+    });
+    scored.sort((a, b) => b.points - a.points);
+  }
+
+  const best = scored[0];
+  const score = best ? Math.min(1, best.points / possible) : 0;
+  const confidence = toConfidence(score);
+  return confidence === 'lost' ? { element: null, confidence, score } : { element: best.element, confidence, score };
+}
+
+/**
+ * Fingerprints travel in the issue body's metadata list as inline-code JSON; backticks are escaped so they can't
+ * end the code span
+ */
+export function serializeFingerprint(fingerprint: ElementFingerprint): string {
+  return JSON.stringify(fingerprint).replace(/`/g, '\\u0060');
+}
+
+export function parseFingerprint(raw: string | undefined): ElementFingerprint | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw) as ElementFingerprint;
+    return parsed && typeof parsed.tagName === 'string' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkdown, sanitizeUrl } from './markdown';
+
+const paragraphOf = (text: string) => [{ type: 'paragraph', children: [{ type: 'text', text }] }];
+
+describe('sanitizeUrl', () => {
+  it('keeps http(s), mailto and relative URLs', () => {
+    expect(sanitizeUrl('https://example.com/a?b=c')).toBe('https://example.com/a?b=c');
+    expect(sanitizeUrl(' HTTP://example.com ')).toBe('HTTP://example.com');
+    expect(sanitizeUrl('mailto:someone@example.com')).toBe('mailto:someone@example.com');
+    expect(sanitizeUrl('/docs/page#section')).toBe('/docs/page#section');
+    expect(sanitizeUrl('page?time=10:30')).toBe('page?time=10:30');
+  });
+
+  it('rejects script, data and other schemes', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeUndefined();
+    expect(sanitizeUrl('  JaVaScRiPt:alert(1)')).toBeUndefined();
+    expect(sanitizeUrl('data:text/html;base64,PHNjcmlwdD4=')).toBeUndefined();
+    expect(sanitizeUrl('vbscript:msgbox(1)')).toBeUndefined();
+    expect(sanitizeUrl('')).toBeUndefined();
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('renders links, bare URLs and emphasis', () => {
+    expect(parseMarkdown('See [the docs](https://x.test/a) or https://y.test/b. **Now** _please_ `npm ci`')).toEqual([
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', text: 'See ' },
+          { type: 'link', href: 'https://x.test/a', children: [{ type: 'text', text: 'the docs' }] },
+          { type: 'text', text: ' or ' },
+          { type: 'link', href: 'https://y.test/b', children: [{ type: 'text', text: 'https://y.test/b' }] },
+          { type: 'text', text: '. ' },
+          { type: 'strong', children: [{ type: 'text', text: 'Now' }] },
+          { type: 'text', text: ' ' },
+          { type: 'em', children: [{ type: 'text', text: 'please' }] },
+          { type: 'text', text: ' ' },
+          { type: 'code', text: 'npm ci' },
+        ],
+      },
+    ]);
+  });
+
+  it('leaves javascript: links and data: images as plain text', () => {
+    expect(parseMarkdown('[click](javascript:alert(1))')).toEqual(paragraphOf('[click](javascript:alert(1))'));
+    expect(parseMarkdown('![pixel](data:image/png;base64,AAAA)')).toEqual(paragraphOf('![pixel](data:image/png;base64,AAAA)'));
+  });
+
+  it('keeps raw HTML as text and drops HTML comments', () => {
+    expect(parseMarkdown('<script>alert(1)</script>')).toEqual(paragraphOf('<script>alert(1)</script>'));
+    expect(parseMarkdown('<img src=x onerror=alert(1)>')).toEqual(paragraphOf('<img src=x onerror=alert(1)>'));
+    expect(parseMarkdown('Thanks <b>a lot</b><!-- hale-reply-to:42 -->')).toEqual(paragraphOf('Thanks <b>a lot</b>'));
+  });
+
+  it('parses task lists and keeps fenced code verbatim', () => {
+    expect(parseMarkdown('- [x] done\n- [ ] todo')).toEqual([
+      {
+        type: 'list',
+        ordered: false,
+        items: [
+          { checked: true, blocks: paragraphOf('done') },
+          { checked: false, blocks: paragraphOf('todo') },
+        ],
+      },
+    ]);
+    expect(parseMarkdown('```html\n<b>*not bold*</b>\n```')).toEqual([{ type: 'code', lang: 'html', text: '<b>*not bold*</b>' }]);
+  });
+});
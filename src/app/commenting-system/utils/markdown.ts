@@ -0,0 +1,456 @@
+/**
+ * Markdown parser for comment bodies: the GitHub-flavored subset people use in issue comments (paragraphs with
+ * hard line breaks, headings, quotes, lists and task lists, fenced code, tables, links, images, emphasis).
+ *
+ * It produces a tree that components/Markdown.tsx renders as React elements, so nothing from a comment is ever
+ * injected as HTML: raw HTML shows up as text, HTML comments (our reply markers) are dropped, and link/image
+ * URLs go through sanitizeUrl.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string; title?: string }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+  checked?: boolean; // Set for task list items
+  blocks: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'code'; lang?: string; text: string }
+  | { type: 'quote'; blocks: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start?: number; items: MarkdownListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}>[ ]?(.*)$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const TASK = /^\[([ xX])\][ \t]+(.*)$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+
+const indentOf = (line: string) => line.length - line.replace(/^ +/, '').length;
+
+/**
+ * Link/image targets we are willing to render: http(s), mailto and relative URLs. Anything else
+ * (javascript:, data:, ...) is rejected.
+ */
+export function sanitizeUrl(url: string): string | undefined {
+  const trimmed = url.trim();
+  if (!trimmed) return undefined;
+  if (/^(https?:|mailto:)/i.test(trimmed)) return trimmed;
+  // No scheme: a ':' before any '/', '?' or '#' would make it one
+  const firstSpecial = trimmed.search(/[/?#]/);
+  const colon = trimmed.indexOf(':');
+  if (colon === -1 || (firstSpecial !== -1 && colon > firstSpecial)) return trimmed;
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------------------------------------------
+// Inline
+
+// `[label](destination "title")` starting at `start` (the '['), or null
+const parseLinkAt = (text: string, start: number): { label: string; href: string; title?: string; end: number } | null => {
+  let depth = 0;
+  let i = start;
+  for (; i < text.length; i++) {
+    const c = text[i];
+    if (c === '\\') {
+      i++;
+    } else if (c === '[') {
+      depth++;
+    } else if (c === ']') {
+      depth--;
+      if (depth === 0) break;
+    }
+  }
+  if (depth !== 0 || text[i + 1] !== '(') return null;
+  const label = text.slice(start + 1, i);
+
+  const rest = text.slice(i + 2);
+  const match = rest.match(/^[ \t]*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:[ \t]+("[^"]*"|'[^']*'))?[ \t]*\)/);
+  if (!match) return null;
+  const href = (match[1] ?? match[2] ?? '').replace(/\\(.)/g, '$1');
+  const title = match[3] ? match[3].slice(1, -1) : undefined;
+  return { label, href, title, end: i + 2 + match[0].length };
+};
+
+// Closing delimiter for emphasis opened at `from`: not preceded by whitespace, and for '_' not inside a word
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1) {
+    const before = text[index - 1];
+    const after = text[index + delimiter.length];
+    const isFlanking = before !== undefined && !/\s/.test(before) && before !== '\\';
+    const isWordBoundary = delimiter[0] !== '_' || after === undefined || !/[A-Za-z0-9]/.test(after);
+    // A single '*' that is part of '**' closes nothing
+    const isPartOfRun = delimiter.length === 1 && (before === delimiter || after === delimiter);
+    if (index > from && isFlanking && isWordBoundary && !isPartOfRun) return index;
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+};
+
+const trimUrlEnd = (url: string): string => {
+  let end = url.length;
+  while (end > 0 && /[.,:;!?'"*_~]/.test(url[end - 1])) end--;
+  // Keep ')' only when it closes a '(' inside the URL, e.g. wiki links
+  let result = url.slice(0, end);
+  while (result.endsWith(')') && (result.match(/\(/g) || []).length < (result.match(/\)/g) || []).length) {
+    result = result.slice(0, -1);
+  }
+  return result;
+};
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    // Only sliced where a construct may start, so long comments stay linear
+    const rest = () => text.slice(i);
+
+    if (c === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (c === '\n') {
+      // Issue comments treat every newline as a line break
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (c === '`') {
+      const run = rest().match(/^`+/)?.[0] || '`';
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        let code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+        if (/^ .* $/.test(code) && code.trim()) code = code.slice(1, -1);
+        flush();
+        nodes.push({ type: 'code', text: code });
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (c === '!' && text[i + 1] === '[') {
+      const link = parseLinkAt(text, i + 1);
+      const src = link && sanitizeUrl(link.href);
+      if (link && src) {
+        flush();
+        nodes.push({ type: 'image', src, alt: link.label.replace(/\\(.)/g, '$1'), title: link.title });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (c === '[') {
+      const link = parseLinkAt(text, i);
+      const href = link && sanitizeUrl(link.href);
+      if (link && href) {
+        flush();
+        nodes.push({ type: 'link', href, children: parseInline(link.label) });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (c === '<') {
+      const comment = rest().match(/^<!--[\s\S]*?-->/);
+      if (comment) {
+        i += comment[0].length;
+        continue;
+      }
+      const autolink = rest().match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+      if (autolink) {
+        flush();
+        nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1].replace(/^mailto:/i, '') }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if ((c === 'h' || c === 'H') && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+      const bare = rest().match(/^https?:\/\/[^\s<]+/i);
+      if (bare) {
+        const url = trimUrlEnd(bare[0]);
+        if (url.length > 'https://'.length) {
+          flush();
+          nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+          i += url.length;
+          continue;
+        }
+      }
+    }
+
+    if (c === '~' && text[i + 1] === '~') {
+      const close = findClosing(text, '~~', i + 2);
+      if (close !== -1 && !/\s/.test(text[i + 2])) {
+        flush();
+        nodes.push({ type: 'del', children: parseInline(text.slice(i + 2, close)) });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (c === '*' || c === '_') {
+      const opensWord = c === '*' || i === 0 || !/[A-Za-z0-9]/.test(text[i - 1]);
+      const isStrong = text[i + 1] === c;
+      const delimiter = isStrong ? c + c : c;
+      const contentStart = i + delimiter.length;
+      if (opensWord && contentStart < text.length && !/\s/.test(text[contentStart])) {
+        const close = findClosing(text, delimiter, contentStart);
+        if (close !== -1) {
+          flush();
+          nodes.push({ type: isStrong ? 'strong' : 'em', children: parseInline(text.slice(contentStart, close)) });
+          i = close + delimiter.length;
+          continue;
+        }
+      }
+      // Unmatched: keep the whole run as text so '**' doesn't become an empty emphasis later
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    buffer += c;
+    i++;
+  }
+  flush();
+  return nodes;
+}
+
+// ---------------------------------------------------------------------------------------------------------------
+// Blocks
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const c = row[i];
+    if (c === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (c === '`') {
+      inCode = !inCode;
+      cell += c;
+    } else if (c === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') &&
+  i + 1 < lines.length &&
+  TABLE_DELIMITER.test(lines[i + 1]) &&
+  splitTableRow(lines[i]).length === splitTableRow(lines[i + 1]).length;
+
+// Lines that end a paragraph (and can't continue a list item lazily)
+const startsBlock = (lines: string[], i: number) => {
+  const line = lines[i];
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    isTableStart(lines, i)
+  );
+};
+
+const parseList = (lines: string[], start: number): { block: MarkdownBlock; next: number } => {
+  const first = lines[start].match(LIST_ITEM) as RegExpMatchArray;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownListItem[] = [];
+
+  let i = start;
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!match || match[1].length !== indent || /\d/.test(match[2]) !== ordered || RULE.test(lines[i])) break;
+
+    const content = match[3] || '';
+    const contentIndent = match[3] !== undefined ? lines[i].length - content.length : indent + match[2].length + 1;
+    const itemLines = [content];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        // A blank line continues the item only if the item goes on afterwards
+        let j = i + 1;
+        while (j < lines.length && !lines[j].trim()) j++;
+        if (j < lines.length && indentOf(lines[j]) >= contentIndent) {
+          itemLines.push('');
+          i++;
+          continue;
+        }
+        break;
+      }
+      const lineIndent = indentOf(line);
+      if (lineIndent >= contentIndent) {
+        itemLines.push(line.slice(contentIndent));
+      } else if (LIST_ITEM.test(line) && lineIndent > indent) {
+        // Nested list indented less than the parent's content
+        itemLines.push(line.slice(lineIndent));
+      } else if (!startsBlock(lines, i) && itemLines[itemLines.length - 1].trim()) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    const task = itemLines[0].match(TASK);
+    if (task) itemLines[0] = task[2];
+    items.push({ checked: task ? task[1] !== ' ' : undefined, blocks: parseBlocks(itemLines) });
+
+    // Blank lines between items belong to the list
+    let j = i;
+    while (j < lines.length && !lines[j].trim()) j++;
+    if (j < lines.length && lines[j].match(LIST_ITEM)?.[1].length === indent) i = j;
+  }
+
+  const startNumber = ordered ? parseInt(first[2], 10) : undefined;
+  return { block: { type: 'list', ordered, start: startNumber !== 1 ? startNumber : undefined, items }, next: i };
+};
+
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    const children = parseInline(paragraph.join('\n').trim());
+    // A paragraph holding only an HTML comment (e.g. a reply marker) renders nothing
+    if (children.length) blocks.push({ type: 'paragraph', children });
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      flush();
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flush();
+      const marker = fence[1];
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !closing.test(lines[i])) code.push(lines[i++]);
+      i++; // closing fence (or end of text)
+      blocks.push({ type: 'code', lang: fence[2] || undefined, text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flush();
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const quote = lines[i].match(QUOTE);
+        // Lines without '>' continue the quote's paragraph
+        if (!quote && startsBlock(lines, i)) break;
+        quoted.push(quote ? quote[1] : lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'quote', blocks: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      flush();
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlign);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] || '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: header.map((cell) => parseInline(cell)), rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flush();
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+  flush();
+  return blocks;
+};
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PageResult, collectPages, parseLinkHeader, withPageParams } from './pagination';
+
+const pages = <T>(...contents: T[][]) =>
+  vi.fn(async (page: number): Promise<PageResult<T>> => ({
+    items: contents[page - 1] ?? [],
+    hasNext: page < contents.length,
+  }));
+
+describe('parseLinkHeader', () => {
+  it('maps each rel to its url', () => {
+    const header =
+      '<https://api.github.com/repos/o/r/issues?page=2>; rel="next", <https://api.github.com/repos/o/r/issues?page=5>; rel="last"';
+
+    expect(parseLinkHeader(header)).toEqual({
+      next: 'https://api.github.com/repos/o/r/issues?page=2',
+      last: 'https://api.github.com/repos/o/r/issues?page=5',
+    });
+  });
+
+  it('splits space-separated rels and accepts unquoted ones', () => {
+    expect(parseLinkHeader('<https://x.test/?page=1>; rel="first prev", <https://x.test/?page=3>; rel=next')).toEqual({
+      first: 'https://x.test/?page=1',
+      prev: 'https://x.test/?page=1',
+      next: 'https://x.test/?page=3',
+    });
+  });
+
+  it('returns an empty map for missing or malformed headers', () => {
+    expect(parseLinkHeader(null)).toEqual({});
+    expect(parseLinkHeader('')).toEqual({});
+    expect(parseLinkHeader('https://x.test/?page=2; rel="next"')).toEqual({});
+  });
+});
+
+describe('withPageParams', () => {
+  it('appends to an existing query string', () => {
+    expect(withPageParams('/issues?state=all', 2, 50)).toBe('/issues?state=all&per_page=50&page=2');
+    expect(withPageParams('/issues', 1, 100, 'limit')).toBe('/issues?limit=100&page=1');
+  });
+});
+
+describe('collectPages', () => {
+  it('walks pages until the provider reports no next page', async () => {
+    const fetchPage = pages([1, 2], [3, 4], [5]);
+    const onProgress = vi.fn();
+
+    await expect(collectPages(fetchPage, { perPage: 2, maxPages: 10, onProgress })).resolves.toEqual([1, 2, 3, 4, 5]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(fetchPage).toHaveBeenLastCalledWith(3, 2);
+    expect(onProgress.mock.calls.map(([p]) => p)).toEqual([
+      { page: 1, loaded: 2, hasMore: true },
+      { page: 2, loaded: 4, hasMore: true },
+      { page: 3, loaded: 5, hasMore: false },
+    ]);
+  });
+
+  it('stops at an empty page even when the provider claims there is more', async () => {
+    const fetchPage = vi.fn(async (page: number) => ({ items: page === 1 ? ['a'] : [], hasNext: true }));
+
+    await expect(collectPages(fetchPage, { maxPages: 10 })).resolves.toEqual(['a']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at the page cap and warns that items were left behind', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const fetchPage = pages(['a'], ['b'], ['c']);
+
+    await expect(collectPages(fetchPage, { maxPages: 2 })).resolves.toEqual(['a', 'b']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Pagination cap reached'));
+    warn.mockRestore();
+  });
+});
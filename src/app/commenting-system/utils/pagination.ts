@@ -0,0 +1,81 @@
+/**
+ * Shared pagination helpers for provider list endpoints (GitHub Link headers, GitLab X-Next-Page cursors)
+ */
+
+import { PaginationOptions } from '../types/provider';
+import { getEnv } from './env';
+
+export const DEFAULT_PER_PAGE = 100;
+export const DEFAULT_MAX_PAGES = 10;
+
+export interface PageResult<T> {
+  items: T[];
+  hasNext: boolean;
+}
+
+/**
+ * Maximum number of pages to walk per list request.
+ * Configurable via VITE_SYNC_MAX_PAGES so very large trackers can't stall a sync indefinitely.
+ */
+export const getMaxPages = (): number => {
+  const raw = Number(getEnv('VITE_SYNC_MAX_PAGES'));
+  if (!Number.isNaN(raw) && raw > 0) return Math.floor(raw);
+  return DEFAULT_MAX_PAGES;
+};
+
+/**
+ * Parse an RFC 5988 Link header into a map of rel -> url.
+ * Example: `<https://api.github.com/...&page=2>; rel="next", <...&page=5>; rel="last"`
+ */
+export const parseLinkHeader = (header: string | null | undefined): Record<string, string> => {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  for (const part of header.split(',')) {
+    const m = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/);
+    if (m?.[1] && m?.[2]) {
+      for (const rel of m[2].split(/\s+/)) {
+        links[rel] = m[1];
+      }
+    }
+  }
+  return links;
+};
+
+/**
+ * Append page query params to an endpoint that may already have a query string.
+ * GitHub/GitLab call the page size `per_page`; Gitea/Forgejo call it `limit`.
+ */
+export const withPageParams = (endpoint: string, page: number, perPage: number, perPageParam = 'per_page'): string => {
+  const separator = endpoint.includes('?') ? '&' : '?';
+  return `${endpoint}${separator}${perPageParam}=${perPage}&page=${page}`;
+};
+
+/**
+ * Walk pages until the provider reports no next page, an empty page is returned, or the cap is reached.
+ */
+export async function collectPages<T>(
+  fetchPage: (page: number, perPage: number) => Promise<PageResult<T>>,
+  options: PaginationOptions = {},
+): Promise<T[]> {
+  const maxPages = options.maxPages ?? getMaxPages();
+  const perPage = options.perPage ?? DEFAULT_PER_PAGE;
+  const all: T[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    const { items, hasNext } = await fetchPage(page, perPage);
+    all.push(...items);
+
+    const hasMore = hasNext && items.length > 0 && page < maxPages;
+    options.onProgress?.({ page, loaded: all.length, hasMore });
+
+    if (!hasMore) {
+      if (hasNext && items.length > 0) {
+        console.warn(`⚠️ Pagination cap reached (${maxPages} pages, ${all.length} items). Raise VITE_SYNC_MAX_PAGES to load more.`);
+      }
+      break;
+    }
+  }
+
+  return all;
+}
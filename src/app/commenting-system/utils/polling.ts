@@ -0,0 +1,30 @@
+/**
+ * Settings for the background re-sync of the active route (see CommentProvider)
+ */
+
+import { getEnv } from './env';
+
+export const DEFAULT_SYNC_POLL_INTERVAL_MS = 60 * 1000;
+export const MIN_SYNC_POLL_INTERVAL_MS = 10 * 1000;
+export const MAX_SYNC_POLL_BACKOFF_MS = 15 * 60 * 1000;
+// Every Nth poll refetches the route in full instead of incrementally (see utils/syncCursors)
+export const FULL_RESYNC_EVERY_POLLS = 10;
+
+/**
+ * Polling interval in ms, configurable via VITE_SYNC_POLL_INTERVAL_MS. `0` turns polling off
+ * (e.g. when live updates come from the comment events stream instead).
+ */
+export const getSyncPollIntervalMs = (): number => {
+  const raw = getEnv('VITE_SYNC_POLL_INTERVAL_MS');
+  if (raw === undefined || raw === '') return DEFAULT_SYNC_POLL_INTERVAL_MS;
+  const value = Number(raw);
+  if (Number.isNaN(value) || value < 0) return DEFAULT_SYNC_POLL_INTERVAL_MS;
+  if (value === 0) return 0;
+  return Math.max(MIN_SYNC_POLL_INTERVAL_MS, Math.floor(value));
+};
+
+/**
+ * Delay before the next poll after `failures` consecutive failed syncs (doubles each time, capped)
+ */
+export const getPollDelayMs = (intervalMs: number, failures: number): number =>
+  Math.min(intervalMs * Math.pow(2, failures), Math.max(intervalMs, MAX_SYNC_POLL_BACKOFF_MS));
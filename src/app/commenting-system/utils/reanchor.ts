@@ -0,0 +1,48 @@
+/**
+ * Re-anchoring after DOM changes. Pins don't each watch the document: one MutationObserver collects the changes,
+ * waits for the burst to settle and then runs every pin's re-anchor callback in a single pass.
+ */
+
+// DOM changes come in bursts (renders, animations); re-resolve once they settle
+const REANCHOR_DEBOUNCE_MS = 250;
+
+type ReanchorCallback = () => void;
+
+const callbacks = new Set<ReanchorCallback>();
+let observer: MutationObserver | null = null;
+let timer: number | undefined;
+
+const runPass = () => {
+  timer = undefined;
+  callbacks.forEach((callback) => callback());
+};
+
+const startObserving = () => {
+  observer = new MutationObserver((mutations) => {
+    // Pins, highlights and previews re-render as they move; only the page itself matters
+    if (mutations.every((m) => (m.target as Element).closest?.('[data-comment-overlay]'))) return;
+    window.clearTimeout(timer);
+    timer = window.setTimeout(runPass, REANCHOR_DEBOUNCE_MS);
+  });
+  observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+};
+
+const stopObserving = () => {
+  observer?.disconnect();
+  observer = null;
+  window.clearTimeout(timer);
+  timer = undefined;
+};
+
+/**
+ * Run `callback` in the re-anchor pass after each settled burst of page changes. The observer is only attached
+ * while someone is subscribed.
+ */
+export function subscribeReanchor(callback: ReanchorCallback): () => void {
+  callbacks.add(callback);
+  if (!observer) startObserving();
+  return () => {
+    callbacks.delete(callback);
+    if (!callbacks.size) stopObserving();
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Region anchors: rectangles drawn on the page, stored relative to the element that contains them
+ */
+
+import { RegionAnchor } from '../types';
+
+export interface PixelRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Never anchor a region to our own pins/overlay/widget
+const COMMENT_UI = '[data-comment-overlay], [data-comment-pin], [data-comment-preview], [data-comment-controls], [data-floating-widget]';
+
+const contains = (outer: DOMRect, inner: PixelRect) =>
+  outer.left <= inner.left &&
+  outer.top <= inner.top &&
+  outer.right >= inner.left + inner.width &&
+  outer.bottom >= inner.top + inner.height;
+
+/**
+ * Smallest page element whose box contains the whole rectangle (viewport coordinates), falling back to <body>
+ */
+export function findRegionContainer(rect: PixelRect): Element {
+  const centerX = rect.left + rect.width / 2;
+  const centerY = rect.top + rect.height / 2;
+  const candidates = document.elementsFromPoint(centerX, centerY).filter((el) => !el.closest(COMMENT_UI));
+
+  for (let el: Element | null = candidates[0] || null; el && el !== document.documentElement; el = el.parentElement) {
+    if (contains(el.getBoundingClientRect(), rect)) return el;
+  }
+  return document.body;
+}
+
+/**
+ * Express a viewport rectangle in percent of the container's box
+ */
+export function toRegionAnchor(rect: PixelRect, container: Element): RegionAnchor {
+  const box = container.getBoundingClientRect();
+  const percent = (value: number, size: number) => (size ? (value / size) * 100 : 0);
+  return {
+    xPercent: percent(rect.left - box.left, box.width),
+    yPercent: percent(rect.top - box.top, box.height),
+    widthPercent: percent(rect.width, box.width),
+    heightPercent: percent(rect.height, box.height),
+  };
+}
+
+/**
+ * Viewport rectangle of a region inside its (current) container
+ */
+export function fromRegionAnchor(region: RegionAnchor, container: Element): PixelRect {
+  const box = container.getBoundingClientRect();
+  return {
+    left: box.left + (region.xPercent / 100) * box.width,
+    top: box.top + (region.yPercent / 100) * box.height,
+    width: (region.widthPercent / 100) * box.width,
+    height: (region.heightPercent / 100) * box.height,
+  };
+}
+
+/**
+ * Issue metadata format, next to "Fallback Position": `(x%, y%, width%, height%)`
+ */
+export function formatRegion(region: RegionAnchor): string {
+  return `(${region.xPercent.toFixed(2)}%, ${region.yPercent.toFixed(2)}%, ${region.widthPercent.toFixed(2)}%, ${region.heightPercent.toFixed(2)}%)`;
+}
+
+export function parseRegion(raw: string | undefined): RegionAnchor | undefined {
+  const match = raw?.match(/^\(\s*([\d.]+)%?,\s*([\d.]+)%?,\s*([\d.]+)%?,\s*([\d.]+)%?\s*\)$/);
+  if (!match) return undefined;
+  const [xPercent, yPercent, widthPercent, heightPercent] = match.slice(1).map(Number);
+  if ([xPercent, yPercent, widthPercent, heightPercent].some(Number.isNaN) || !widthPercent || !heightPercent) return undefined;
+  return { xPercent, yPercent, widthPercent, heightPercent };
+}
@@ -0,0 +1,206 @@
+/**
+ * DOM-to-canvas capture of a commented element (with some surrounding context and the pin), attached to new
+ * issues so readers can see what the element looked like.
+ *
+ * The element's nearest reasonably small ancestor is cloned with its computed styles inlined, rendered through an
+ * SVG <foreignObject> into a canvas and cropped. Pseudo-elements and web fonts are not reproduced, and images are
+ * dropped when one from another origin taints the canvas.
+ */
+
+import { getEnv } from './env';
+
+// Page area around the element included in the capture
+const CONTEXT_PADDING = 48;
+// Cloning inlines every computed style, so the cloned subtree has to stay small
+const MAX_CLONED_ELEMENTS = 1500;
+// Keeps the PNG (stored on the thread until it's uploaded) reasonably small
+const MAX_CAPTURE_WIDTH = 1200;
+const MAX_SCALE = 2;
+
+const PIN_RADIUS = 12;
+const PIN_COLOR = '#C9190B';
+const OUTLINE_COLOR = '#0066CC';
+
+// Our own UI is not part of the page being commented on
+const SKIPPED_ELEMENTS =
+  '[data-comment-overlay], [data-comment-pin], [data-comment-preview], [data-comment-controls], [data-floating-widget], script, noscript, template';
+
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ScreenshotOptions {
+  /** Where the pin goes (viewport coordinates) */
+  marker?: { x: number; y: number };
+  /** Part of the element that was commented on (selected text, drawn region); defaults to the whole element */
+  highlight?: Rect;
+}
+
+/**
+ * Screenshots are on by default; set VITE_ISSUE_SCREENSHOTS=false to turn them off
+ */
+export const isScreenshotCaptureEnabled = (): boolean => getEnv('VITE_ISSUE_SCREENSHOTS') !== 'false';
+
+const contains = (outer: DOMRect, inner: Rect) =>
+  outer.left <= inner.left &&
+  outer.top <= inner.top &&
+  outer.right >= inner.left + inner.width &&
+  outer.bottom >= inner.top + inner.height;
+
+const intersect = (a: Rect, b: DOMRect): Rect => {
+  const left = Math.max(a.left, b.left);
+  const top = Math.max(a.top, b.top);
+  return {
+    left,
+    top,
+    width: Math.max(0, Math.min(a.left + a.width, b.right) - left),
+    height: Math.max(0, Math.min(a.top + a.height, b.bottom) - top),
+  };
+};
+
+// Largest ancestor (up to the one covering the padded area) that is still cheap enough to clone
+const findCaptureRoot = (element: Element, area: Rect): Element => {
+  let root = element;
+  for (let el = element.parentElement; el && el !== document.documentElement; el = el.parentElement) {
+    if (el.getElementsByTagName('*').length > MAX_CLONED_ELEMENTS) break;
+    root = el;
+    if (contains(el.getBoundingClientRect(), area)) break;
+  }
+  return root;
+};
+
+const inlineStyles = (source: Element, target: HTMLElement) => {
+  const computed = window.getComputedStyle(source);
+  let cssText = '';
+  for (let i = 0; i < computed.length; i++) {
+    const name = computed[i];
+    cssText += `${name}:${computed.getPropertyValue(name)};`;
+  }
+  target.style.cssText = cssText;
+};
+
+const cloneWithStyles = (source: Node): Node | null => {
+  if (source.nodeType === Node.TEXT_NODE) return source.cloneNode(false);
+  if (source.nodeType !== Node.ELEMENT_NODE) return null;
+
+  const element = source as Element;
+  if (element.matches(SKIPPED_ELEMENTS)) return null;
+
+  let clone: Element;
+  if (element instanceof HTMLCanvasElement) {
+    // Canvases are copied as images of their current content
+    const img = document.createElement('img');
+    try {
+      img.src = element.toDataURL();
+    } catch {
+      // tainted canvas: leave an empty box
+    }
+    clone = img;
+  } else {
+    clone = element.cloneNode(false) as Element;
+    if (element instanceof HTMLImageElement) {
+      (clone as HTMLImageElement).src = element.currentSrc || element.src;
+      clone.removeAttribute('srcset');
+    }
+  }
+
+  if (clone instanceof HTMLElement) inlineStyles(element, clone);
+  // Form values live in properties, not attributes
+  if (element instanceof HTMLInputElement) clone.setAttribute('value', element.value);
+  if (element instanceof HTMLTextAreaElement) clone.textContent = element.value;
+
+  element.childNodes.forEach((child) => {
+    const childClone = cloneWithStyles(child);
+    if (childClone) clone.appendChild(childClone);
+  });
+  return clone;
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not render the page snapshot'));
+    img.src = src;
+  });
+
+const render = async (clone: HTMLElement, rootRect: DOMRect, crop: Rect, highlight: Rect, marker: ScreenshotOptions['marker']) => {
+  const markup = new XMLSerializer().serializeToString(clone);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(rootRect.width)}" height="${Math.ceil(rootRect.height)}">` +
+    `<foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`;
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+  const scale = Math.min(window.devicePixelRatio || 1, MAX_SCALE, MAX_CAPTURE_WIDTH / crop.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(crop.width * scale);
+  canvas.height = Math.ceil(crop.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.scale(scale, scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, crop.width, crop.height);
+  ctx.drawImage(image, rootRect.left - crop.left, rootRect.top - crop.top);
+
+  // Outline what was commented on and draw the pin where it was placed
+  ctx.strokeStyle = OUTLINE_COLOR;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(highlight.left - crop.left, highlight.top - crop.top, highlight.width, highlight.height);
+  if (marker) {
+    ctx.beginPath();
+    ctx.arc(marker.x - crop.left, marker.y - crop.top, PIN_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = PIN_COLOR;
+    ctx.fill();
+    ctx.strokeStyle = '#ffffff';
+    ctx.stroke();
+  }
+
+  // Throws if an image from another origin made it into the canvas
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * PNG data URL of the element with some context around it, or null when the capture isn't possible in this
+ * browser/page. Must be called before the layout changes (e.g. before the comment drawer opens): positions are
+ * read from the live page.
+ */
+export async function captureElementScreenshot(element: Element, options: ScreenshotOptions = {}): Promise<string | null> {
+  const { marker } = options;
+  const rect = options.highlight || element.getBoundingClientRect();
+  if (!rect.width || !rect.height) return null;
+
+  const area: Rect = {
+    left: rect.left - CONTEXT_PADDING,
+    top: rect.top - CONTEXT_PADDING,
+    width: rect.width + CONTEXT_PADDING * 2,
+    height: rect.height + CONTEXT_PADDING * 2,
+  };
+  const root = findCaptureRoot(element, area);
+  const rootRect = root.getBoundingClientRect();
+  const crop = intersect(area, rootRect);
+  if (!crop.width || !crop.height) return null;
+
+  // Clone right away, while the page still looks the way it did when the comment was placed
+  const clone = cloneWithStyles(root) as HTMLElement | null;
+  if (!clone) return null;
+  clone.style.margin = '0';
+  clone.style.width = `${rootRect.width}px`;
+  clone.style.height = `${rootRect.height}px`;
+
+  try {
+    return await render(clone, rootRect, crop, rect, marker);
+  } catch {
+    // Most likely an image from another origin tainted the canvas; try once more without images
+    try {
+      clone.querySelectorAll('img').forEach((img) => img.removeAttribute('src'));
+      return await render(clone, rootRect, crop, rect, marker);
+    } catch (e) {
+      console.warn('⚠️ Could not capture a screenshot of the element:', e);
+      return null;
+    }
+  }
+}
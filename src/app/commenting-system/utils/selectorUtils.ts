@@ -67,7 +67,7 @@ export function generateSelectorForElement(element: Element): string {
  * Generate nth-child based path from body to element
  * This is a fallback when other strategies don't provide uniqueness
  */
-function getNthChildPath(element: Element): string {
+export function getNthChildPath(element: Element): string {
   const path: string[] = [];
   let current: Element | null = element;
 
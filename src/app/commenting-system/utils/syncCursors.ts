@@ -0,0 +1,54 @@
+/**
+ * Per route/version "last synced" cursors used for incremental issue fetching.
+ *
+ * Cursors are kept in memory only: the first sync of a session is always a full fetch,
+ * so locally persisted threads can never drift behind an advanced cursor.
+ *
+ * Only changes that bump an issue's `updated_at` are seen by an incremental fetch. On GitHub, reactions
+ * (and some comment deletions) don't, so background polling drops the cursor every FULL_RESYNC_EVERY_POLLS
+ * polls (utils/polling) to refresh them with a full fetch.
+ */
+
+const cursors = new Map<string, string>();
+
+export const getSyncCursorKey = (provider: string, route: string, version?: string): string =>
+  `${provider}::${route}::${version ?? ''}`;
+
+export const getSyncCursor = (key: string): string | undefined => cursors.get(key);
+
+export const setSyncCursor = (key: string, updatedAt: string | undefined): void => {
+  if (!updatedAt) return;
+  const previous = cursors.get(key);
+  if (!previous || new Date(updatedAt).getTime() > new Date(previous).getTime()) {
+    cursors.set(key, updatedAt);
+  }
+};
+
+/**
+ * Clear one cursor, or every cursor for a provider when no key is given
+ */
+export const clearSyncCursors = (provider: string, key?: string): void => {
+  if (key) {
+    cursors.delete(key);
+    return;
+  }
+  Array.from(cursors.keys())
+    .filter((k) => k.startsWith(`${provider}::`))
+    .forEach((k) => cursors.delete(k));
+};
+
+/**
+ * Newest `updated_at` among the given issues. Using the server's timestamps (rather than the
+ * local clock) keeps the cursor correct even when the browser clock is skewed.
+ */
+export const getLatestUpdatedAt = (issues: any[]): string | undefined => {
+  let latest: string | undefined;
+  for (const issue of issues) {
+    const updatedAt: string | undefined = issue?.updated_at;
+    if (!updatedAt) continue;
+    if (!latest || new Date(updatedAt).getTime() > new Date(latest).getTime()) {
+      latest = updatedAt;
+    }
+  }
+  return latest;
+};
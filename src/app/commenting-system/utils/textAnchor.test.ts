@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createTextAnchor, isTextMatchCurrent, parseTextAnchor, resolveTextAnchor, serializeTextAnchor } from './textAnchor';
+
+const render = (html: string) => {
+  document.body.innerHTML = html;
+  return document.getElementById('root') as HTMLElement;
+};
+
+// Range over the first occurrence of `text` inside `root` (the text must sit in a single text node)
+const selectText = (root: Element, text: string) => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const index = (node as Text).data.indexOf(text);
+    if (index >= 0) {
+      const range = document.createRange();
+      range.setStart(node, index);
+      range.setEnd(node, index + text.length);
+      return range;
+    }
+  }
+  throw new Error(`"${text}" not found`);
+};
+
+const anchorFor = (root: Element, text: string) => {
+  const anchor = createTextAnchor(selectText(root, text), root);
+  if (!anchor) throw new Error(`No anchor for "${text}"`);
+  return anchor;
+};
+
+const PARAGRAPH = 'The quick brown fox jumps over the lazy dog while the cat watches from the fence.';
+
+describe('text anchors', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('describes a selection spanning elements with its context and offsets', () => {
+    const root = render('<p id="root">Save <strong>your work</strong> before leaving.</p>');
+    const range = document.createRange();
+    range.setStart(root.firstChild as Text, 2);
+    range.setEnd(root.querySelector('strong')?.firstChild as Text, 4);
+
+    expect(createTextAnchor(range, root)).toEqual({
+      quote: { exact: 've your', prefix: 'Sa', suffix: ' work before leaving.' },
+      position: { start: 2, end: 9 },
+    });
+  });
+
+  it('resolves an unchanged quote at its stored position', () => {
+    const root = render(`<p id="root">${PARAGRAPH}</p>`);
+    const anchor = anchorFor(root, 'lazy dog');
+
+    const match = resolveTextAnchor(anchor, root);
+
+    expect(match).toMatchObject({ confidence: 'high', text: 'lazy dog' });
+    expect(isTextMatchCurrent(match)).toBe(true);
+  });
+
+  it('follows a quote that moved within the same surroundings', () => {
+    const root = render(`<p id="root">${PARAGRAPH}</p>`);
+    const anchor = anchorFor(root, 'lazy dog');
+
+    root.textContent = `Update: ${PARAGRAPH}`;
+
+    expect(resolveTextAnchor(anchor, root)).toMatchObject({ confidence: 'high', text: 'lazy dog' });
+  });
+
+  it('only trusts a moved quote as "medium" when its surroundings changed', () => {
+    const root = render('<p id="root">Click the button to continue with the setup wizard.</p>');
+    const anchor = anchorFor(root, 'the button');
+
+    root.textContent = 'Nothing happens when you press the button, so try again later.';
+
+    expect(resolveTextAnchor(anchor, root)).toMatchObject({ confidence: 'medium', text: 'the button' });
+  });
+
+  it('finds a lightly edited quote by approximate matching', () => {
+    const root = render(`<p id="root">${PARAGRAPH}</p>`);
+    const anchor = anchorFor(root, 'jumps over the lazy dog');
+
+    root.textContent = PARAGRAPH.replace('jumps over the lazy dog', 'jumped over the lazy dogs');
+
+    const match = resolveTextAnchor(anchor, root);
+    expect(match.confidence).toBe('medium');
+    expect(match.text).toMatch(/^jumped over the lazy dog/);
+  });
+
+  it('gives up when the quote was rewritten beyond recognition', () => {
+    const root = render(`<p id="root">${PARAGRAPH}</p>`);
+    const anchor = anchorFor(root, 'jumps over the lazy dog');
+
+    root.textContent = 'This paragraph was replaced with entirely different copy.';
+
+    expect(resolveTextAnchor(anchor, root)).toEqual({ range: null, confidence: 'lost', text: '' });
+  });
+
+  it('falls back to the rest of the page at reduced confidence', () => {
+    const root = render(`<div><p id="root">${PARAGRAPH}</p><p id="other"></p></div>`);
+    const anchor = anchorFor(root, 'lazy dog');
+
+    (document.getElementById('other') as HTMLElement).textContent = PARAGRAPH;
+    root.textContent = 'Moved below.';
+
+    expect(resolveTextAnchor(anchor, root)).toMatchObject({ confidence: 'medium', text: 'lazy dog' });
+  });
+
+  it('ignores text inside the commenting UI', () => {
+    const root = render(`<div id="root"><span data-comment-preview>lazy dog</span><p>${PARAGRAPH}</p></div>`);
+    const anchor = createTextAnchor(selectText(root.querySelector('p') as Element, 'lazy dog'), root);
+
+    expect(anchor?.position.start).toBe(PARAGRAPH.indexOf('lazy dog'));
+  });
+
+  it('reports a match as stale once its text is edited', () => {
+    const root = render(`<p id="root">${PARAGRAPH}</p>`);
+    const match = resolveTextAnchor(anchorFor(root, 'lazy dog'), root);
+
+    (root.firstChild as Text).replaceData(PARAGRAPH.indexOf('lazy'), 4, 'sleepy');
+
+    expect(isTextMatchCurrent(match)).toBe(false);
+  });
+
+  it('round-trips through the issue-body serialization', () => {
+    const anchor = { quote: { exact: 'uses `npm ci`', suffix: ' here' }, position: { start: 3, end: 16 } };
+    const raw = serializeTextAnchor(anchor);
+
+    expect(raw).not.toContain('`');
+    expect(parseTextAnchor(raw)).toEqual(anchor);
+    expect(parseTextAnchor('{"quote":{}}')).toBeUndefined();
+    expect(parseTextAnchor('not json')).toBeUndefined();
+  });
+});
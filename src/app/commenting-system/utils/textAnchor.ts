@@ -0,0 +1,248 @@
+/**
+ * Text-range anchors for comments on selected copy, modelled on the W3C Web Annotation
+ * TextQuoteSelector (exact text + surrounding context) and TextPositionSelector (character offsets).
+ * Offsets are relative to the text of the thread's anchor element.
+ */
+
+import { AnchorConfidence, ElementFingerprint, TextAnchor } from '../types';
+import { resolveElementAnchor } from './fingerprint';
+
+export interface TextAnchorMatch {
+  range: Range | null;
+  confidence: AnchorConfidence;
+  text: string; // what the range covered when it was matched
+}
+
+const CONTEXT_LENGTH = 32;
+// Characters of prefix/suffix that must still line up for a moved quote to count as a confident match
+const MIN_CONTEXT_MATCH = 8;
+// Share of the quote that may differ (typos fixed, words changed) and still count as the same text
+const MAX_FUZZY_ERROR_RATE = 0.25;
+const MAX_FUZZY_QUOTE_LENGTH = 512;
+// Upper bound for the quote x text dynamic-programming table
+const MAX_FUZZY_CELLS = 4000000;
+
+// Texts an approximate search already came up empty in, per anchor; the search is only worth repeating once the
+// page text changed
+const fuzzyMisses = new WeakMap<TextAnchor, string[]>();
+
+// Text inside the commenting UI (pins, previews, the widget) is not part of the page's copy
+const IGNORED_TEXT_CONTAINERS = '[data-comment-overlay], [data-comment-preview], [data-floating-widget]';
+
+const collectTextNodes = (root: Element): Text[] => {
+  const nodes: Text[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest(IGNORED_TEXT_CONTAINERS) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+  });
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) nodes.push(node as Text);
+  return nodes;
+};
+
+const textOf = (nodes: Text[]) => nodes.map((n) => n.data).join('');
+
+/**
+ * Describe a selected range relative to `root` (usually the range's common ancestor element)
+ */
+export function createTextAnchor(range: Range, root: Element): TextAnchor | null {
+  const nodes = collectTextNodes(root);
+  let offset = 0;
+  let start = -1;
+  let end = -1;
+
+  nodes.forEach((node) => {
+    if (range.intersectsNode(node)) {
+      if (start < 0) start = offset + (node === range.startContainer ? range.startOffset : 0);
+      end = offset + (node === range.endContainer ? range.endOffset : node.length);
+    }
+    offset += node.length;
+  });
+  if (start < 0 || end <= start) return null;
+
+  const text = textOf(nodes);
+  return {
+    quote: {
+      exact: text.slice(start, end),
+      prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start) || undefined,
+      suffix: text.slice(end, end + CONTEXT_LENGTH) || undefined,
+    },
+    position: { start, end },
+  };
+}
+
+const toRange = (nodes: Text[], start: number, end: number): Range | null => {
+  const range = document.createRange();
+  let offset = 0;
+  let hasStart = false;
+  for (const node of nodes) {
+    const nodeEnd = offset + node.length;
+    if (!hasStart && start < nodeEnd) {
+      range.setStart(node, start - offset);
+      hasStart = true;
+    }
+    if (hasStart && end <= nodeEnd) {
+      range.setEnd(node, end - offset);
+      return range;
+    }
+    offset = nodeEnd;
+  }
+  return null;
+};
+
+// Number of matching characters at the end of `a` and start of `b` (how well the context lines up)
+const commonSuffixLength = (a: string, b: string) => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[a.length - 1 - i] === b[b.length - 1 - i]) i++;
+  return i;
+};
+const commonPrefixLength = (a: string, b: string) => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+};
+
+const contextScore = (text: string, start: number, end: number, anchor: TextAnchor) =>
+  commonSuffixLength(text.slice(Math.max(0, start - CONTEXT_LENGTH), start), anchor.quote.prefix || '') +
+  commonPrefixLength(text.slice(end, end + CONTEXT_LENGTH), anchor.quote.suffix || '');
+
+/**
+ * Approximate substring search (Sellers' edit-distance algorithm), tracking where each match starts.
+ * Returns the match with the fewest edits, preferring the one closest to `expectedStart`.
+ */
+const approximateSearch = (text: string, pattern: string, maxErrors: number, expectedStart: number) => {
+  const m = pattern.length;
+  let prev = new Int32Array(m + 1);
+  let prevStart = new Int32Array(m + 1);
+  let cur = new Int32Array(m + 1);
+  let curStart = new Int32Array(m + 1);
+  for (let i = 0; i <= m; i++) prev[i] = i;
+
+  let best: { errors: number; start: number; end: number } | null = null;
+  for (let j = 1; j <= text.length; j++) {
+    cur[0] = 0;
+    curStart[0] = j;
+    for (let i = 1; i <= m; i++) {
+      const diagonal = prev[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+      const skipPattern = cur[i - 1] + 1;
+      const skipText = prev[i] + 1;
+      if (diagonal <= skipPattern && diagonal <= skipText) {
+        cur[i] = diagonal;
+        curStart[i] = prevStart[i - 1];
+      } else if (skipPattern <= skipText) {
+        cur[i] = skipPattern;
+        curStart[i] = curStart[i - 1];
+      } else {
+        cur[i] = skipText;
+        curStart[i] = prevStart[i];
+      }
+    }
+
+    const errors = cur[m];
+    if (
+      errors <= maxErrors &&
+      (!best ||
+        errors < best.errors ||
+        (errors === best.errors && Math.abs(curStart[m] - expectedStart) < Math.abs(best.start - expectedStart)))
+    ) {
+      best = { errors, start: curStart[m], end: j };
+    }
+
+    [prev, cur] = [cur, prev];
+    [prevStart, curStart] = [curStart, prevStart];
+  }
+  return best;
+};
+
+const findInText = (text: string, anchor: TextAnchor): { start: number; end: number; confidence: AnchorConfidence } | null => {
+  const { exact } = anchor.quote;
+  const { start, end } = anchor.position;
+
+  // 1. Unchanged: the stored position still holds the quote
+  if (text.slice(start, end) === exact) return { start, end, confidence: 'high' };
+
+  // 2. Moved: pick the occurrence whose surroundings match best, then the nearest one
+  const occurrences: number[] = [];
+  for (let i = text.indexOf(exact); i >= 0; i = text.indexOf(exact, i + 1)) occurrences.push(i);
+  if (occurrences.length) {
+    const ranked = occurrences
+      .map((s) => ({ start: s, context: contextScore(text, s, s + exact.length, anchor) }))
+      .sort((a, b) => b.context - a.context || Math.abs(a.start - start) - Math.abs(b.start - start));
+    const isAmbiguous = ranked.length > 1 && ranked[0].context === ranked[1].context;
+    // Same words in different surroundings may well be a different sentence
+    const storedContext = (anchor.quote.prefix || '').length + (anchor.quote.suffix || '').length;
+    const isOutOfContext = ranked[0].context < Math.min(MIN_CONTEXT_MATCH, storedContext);
+    return {
+      start: ranked[0].start,
+      end: ranked[0].start + exact.length,
+      confidence: isAmbiguous || isOutOfContext ? 'medium' : 'high',
+    };
+  }
+
+  // 3. Edited: closest approximate match
+  if (exact.length > MAX_FUZZY_QUOTE_LENGTH || exact.length * text.length > MAX_FUZZY_CELLS) return null;
+  const maxErrors = Math.floor(exact.length * MAX_FUZZY_ERROR_RATE);
+  const misses = fuzzyMisses.get(anchor) || [];
+  if (!maxErrors || misses.indexOf(text) >= 0) return null;
+  const match = approximateSearch(text, exact, maxErrors, start);
+  if (!match) {
+    // A resolve searches at most two texts: the anchor element's and the page's
+    fuzzyMisses.set(anchor, [text].concat(misses).slice(0, 2));
+    return null;
+  }
+  return { start: match.start, end: match.end, confidence: match.errors <= maxErrors / 2 ? 'medium' : 'low' };
+};
+
+/**
+ * Find the text a thread points at, inside `root` first and then anywhere on the page
+ */
+export function resolveTextAnchor(anchor: TextAnchor, root: Element | null): TextAnchorMatch {
+  const roots = root && root !== document.body ? [root, document.body] : [document.body];
+  for (const candidate of roots) {
+    const nodes = collectTextNodes(candidate);
+    const found = findInText(textOf(nodes), anchor);
+    if (!found) continue;
+    const range = toRange(nodes, found.start, found.end);
+    // Outside the anchor element the stored offsets mean nothing, so an exact hit is at best "medium"
+    const confidence = candidate === root || found.confidence !== 'high' ? found.confidence : 'medium';
+    if (range) return { range, confidence, text: range.toString() };
+  }
+  return { range: null, confidence: 'lost', text: '' };
+}
+
+/**
+ * Whether an earlier match still points at the text it matched. Ranges follow DOM edits, so a range whose text was
+ * edited, moved or removed no longer reads the same; only then does the anchor need to be looked for again.
+ */
+export function isTextMatchCurrent(match: TextAnchorMatch): boolean {
+  const { range, text } = match;
+  return Boolean(range && range.startContainer.isConnected && range.endContainer.isConnected && range.toString() === text);
+}
+
+/**
+ * Resolve a text thread: its anchor element via the fingerprint/selector, then the quoted text inside it
+ */
+export function resolveThreadTextRange(anchor: {
+  cssSelector?: string;
+  fingerprint?: ElementFingerprint;
+  textAnchor: TextAnchor;
+}): TextAnchorMatch {
+  const { element } = resolveElementAnchor(anchor);
+  return resolveTextAnchor(anchor.textAnchor, element);
+}
+
+/**
+ * Text anchors travel in the issue body's metadata list as inline-code JSON (see serializeFingerprint)
+ */
+export function serializeTextAnchor(anchor: TextAnchor): string {
+  return JSON.stringify(anchor).replace(/`/g, '\\u0060');
+}
+
+export function parseTextAnchor(raw: string | undefined): TextAnchor | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw) as TextAnchor;
+    return typeof parsed?.quote?.exact === 'string' && parsed.position ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Viewport/breakpoint context recorded with each thread, so feedback about one layout can be told apart
+ * from (and filtered out of) the others
+ */
+
+import { Breakpoint, ViewportContext } from '../types';
+
+// PatternFly's --pf-t--global--breakpoint--* tokens (36rem, 48rem, 62rem, 75rem, 90.625rem), in pixels
+const BREAKPOINTS: Array<[Exclude<Breakpoint, 'default'>, number]> = [
+  ['2xl', 1450],
+  ['xl', 1200],
+  ['lg', 992],
+  ['md', 768],
+  ['sm', 576],
+];
+
+const BREAKPOINT_NAMES: Breakpoint[] = ['default', 'sm', 'md', 'lg', 'xl', '2xl'];
+
+/**
+ * Breakpoint PatternFly's min-width media queries apply at this viewport width
+ */
+export function getBreakpoint(width: number): Breakpoint {
+  const match = BREAKPOINTS.find(([, min]) => width >= min);
+  return match ? match[0] : 'default';
+}
+
+export function getViewportContext(): ViewportContext {
+  const width = window.innerWidth;
+  return {
+    width,
+    height: window.innerHeight,
+    devicePixelRatio: Math.round((window.devicePixelRatio || 1) * 100) / 100,
+    breakpoint: getBreakpoint(width),
+  };
+}
+
+/**
+ * Issue metadata format, e.g. `1280x720 @2x (xl)`
+ */
+export function formatViewport(viewport: ViewportContext): string {
+  return `${viewport.width}x${viewport.height} @${viewport.devicePixelRatio}x (${viewport.breakpoint})`;
+}
+
+export function parseViewport(raw: string | undefined): ViewportContext | undefined {
+  const match = raw?.match(/^(\d+)x(\d+)\s*@([\d.]+)x\s*\(([\w]+)\)$/);
+  if (!match) return undefined;
+  const breakpoint = match[4] as Breakpoint;
+  if (!BREAKPOINT_NAMES.includes(breakpoint)) return undefined;
+  return { width: Number(match[1]), height: Number(match[2]), devicePixelRatio: Number(match[3]) || 1, breakpoint };
+}
+
+/**
+ * Pages can't resize their own window, so open the page in a popup with the recorded viewport size instead
+ */
+export function openAtViewport(viewport: ViewportContext, url: string): void {
+  window.open(url, 'hale-viewport-preview', `popup,width=${viewport.width},height=${viewport.height}`);
+}
@@ -0,0 +1,135 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+
+import { execFile } from 'child_process';
+import http from 'http';
+import { createRequire } from 'module';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const require = createRequire(import.meta.url);
+const express = require('express');
+const { DEFAULT_BASE_PATH, mountCommentsEvents } = require('../../scripts/comments-events');
+
+const SIMULATE_SCRIPT = path.join(__dirname, '../../scripts/simulate-webhook.js');
+const SECRETS = ['GITHUB_WEBHOOK_SECRET', 'GITLAB_WEBHOOK_SECRET'];
+
+// Run scripts/simulate-webhook.js against the test server, signing with the given secrets
+const simulate = (baseUrl, args, secrets = {}) => {
+  const env = { ...process.env, ...secrets };
+  SECRETS.filter((name) => !secrets[name]).forEach((name) => delete env[name]);
+  return new Promise((resolve) => {
+    // Run outside the repo so a local .env.server can't supply secrets
+    execFile(process.execPath, [SIMULATE_SCRIPT, ...args, '--url', baseUrl], { cwd: os.tmpdir(), env, timeout: 10000 }, (err, stdout) =>
+      resolve({ code: err ? err.code : 0, stdout }),
+    );
+  });
+};
+
+// Subscribe to the SSE stream and collect the parsed `comment-event` messages
+const subscribe = (baseUrl) =>
+  new Promise((resolve, reject) => {
+    const events = [];
+    let buffered = '';
+    const req = http.get(baseUrl, (res) => {
+      res.setEncoding('utf-8');
+      res.on('data', (chunk) => {
+        buffered += chunk;
+        const messages = buffered.split('\n\n');
+        buffered = messages.pop();
+        messages.forEach((message) => {
+          const data = message.split('\n').find((line) => line.startsWith('data: '));
+          if (message.includes('event: comment-event') && data) events.push(JSON.parse(data.slice('data: '.length)));
+        });
+      });
+      resolve({ events, close: () => req.destroy() });
+    });
+    req.on('error', reject);
+  });
+
+describe('comment events server', () => {
+  let server;
+  let baseUrl;
+  let stream;
+  const savedEnv = {};
+
+  beforeEach(async () => {
+    SECRETS.forEach((name) => {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const app = express();
+    mountCommentsEvents(app, express);
+    await new Promise((resolve) => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}${DEFAULT_BASE_PATH}`;
+    stream = await subscribe(baseUrl);
+  });
+
+  afterEach(async () => {
+    stream.close();
+    await new Promise((resolve) => server.close(resolve));
+    SECRETS.forEach((name) => {
+      if (savedEnv[name] === undefined) delete process.env[name];
+      else process.env[name] = savedEnv[name];
+    });
+    vi.restoreAllMocks();
+  });
+
+  it('publishes a signed GitHub comment webhook to subscribers', async () => {
+    process.env.GITHUB_WEBHOOK_SECRET = 'github-secret';
+
+    const result = await simulate(baseUrl, ['github', 'comment', '--issue', '12', '--route', '/dashboard', '--comment', '345'], {
+      GITHUB_WEBHOOK_SECRET: 'github-secret',
+    });
+
+    expect(result.code).toBe(0);
+    await vi.waitFor(() => expect(stream.events).toHaveLength(1));
+    expect(stream.events[0]).toMatchObject({
+      provider: 'github',
+      kind: 'comment',
+      action: 'created',
+      issueNumber: 12,
+      commentId: 345,
+      route: '/dashboard',
+    });
+  });
+
+  it('rejects a GitHub webhook signed with the wrong secret', async () => {
+    process.env.GITHUB_WEBHOOK_SECRET = 'github-secret';
+
+    const result = await simulate(baseUrl, ['github', 'issue', '--issue', '12'], { GITHUB_WEBHOOK_SECRET: 'guessed' });
+
+    expect(result.code).toBe(1);
+    expect(result.stdout).toContain('401');
+    expect(result.stdout).toContain('Invalid signature');
+    expect(stream.events).toEqual([]);
+  });
+
+  it('checks the GitLab token before publishing', async () => {
+    process.env.GITLAB_WEBHOOK_SECRET = 'gitlab-token';
+
+    const rejected = await simulate(baseUrl, ['gitlab', 'issue', '--issue', '4']);
+    expect(rejected.code).toBe(1);
+    expect(rejected.stdout).toContain('401');
+
+    const accepted = await simulate(baseUrl, ['gitlab', 'issue', '--issue', '4', '--action', 'close', '--route', '/settings'], {
+      GITLAB_WEBHOOK_SECRET: 'gitlab-token',
+    });
+    expect(accepted.code).toBe(0);
+    await vi.waitFor(() => expect(stream.events).toHaveLength(1));
+    expect(stream.events[0]).toMatchObject({ provider: 'gitlab', kind: 'issue', action: 'close', issueNumber: 4, route: '/settings' });
+  });
+
+  it('accepts unsigned webhooks when no secret is configured', async () => {
+    const result = await simulate(baseUrl, ['gitlab', 'comment', '--issue', '9', '--comment', '77']);
+
+    expect(result.code).toBe(0);
+    await vi.waitFor(() => expect(stream.events).toHaveLength(1));
+    expect(stream.events[0]).toMatchObject({ provider: 'gitlab', kind: 'comment', issueNumber: 9, commentId: 77 });
+  });
+});
@@ -46,7 +46,22 @@ module.exports = merge(common('development'), {
 
       // eslint-disable-next-line global-require
       const express = require('express');
-      devServer.app.use(express.json());
+
+      // Live updates (SSE) fed by provider webhooks; mounted before express.json() so webhook signatures see the raw body
+      // eslint-disable-next-line global-require
+      const { mountCommentsEvents } = require('./scripts/comments-events');
+      const commentsEvents = mountCommentsEvents(devServer.app, express);
+
+      // Large enough for screenshots and attachments sent through the provider proxies
+      devServer.app.use(express.json({ limit: '10mb' }));
+
+      // Bundled comment store for VITE_PROVIDER_TYPE=rest (JSON file, no third-party accounts)
+      // eslint-disable-next-line global-require
+      const { mountCommentsServer } = require('./scripts/rest-server');
+      mountCommentsServer(devServer.app, {
+        dataFile: path.resolve(__dirname, '.hale', 'comments.json'),
+        onChange: commentsEvents.publish,
+      });
 
       devServer.app.get('/api/github-oauth-callback', async (req, res) => {
         try {
@@ -121,7 +136,7 @@ module.exports = merge(common('development'), {
 
       devServer.app.post('/api/github-api', async (req, res) => {
         try {
-          const { token, method, endpoint, data } = req.body || {};
+          const { token, method, endpoint, data, ifNoneMatch } = req.body || {};
           if (!token) return res.status(401).json({ message: 'Missing token' });
           if (!method || !endpoint) return res.status(400).json({ message: 'Missing method or endpoint' });
 
@@ -133,10 +148,16 @@ module.exports = merge(common('development'), {
               'Authorization': `token ${token}`,
               'User-Agent': 'pfseed-commenting-system',
               ...(data ? { 'Content-Type': 'application/json' } : {}),
+              ...(ifNoneMatch ? { 'If-None-Match': ifNoneMatch } : {}),
             },
             body: data ? JSON.stringify(data) : undefined,
           });
 
+          // Conditional request hit: the client serves its cached copy (and GitHub doesn't bill the request)
+          if (resp.status === 304) {
+            return res.status(304).end();
+          }
+
           const text = await resp.text();
           const maybeJson = (() => {
             try {
@@ -146,6 +167,18 @@ module.exports = merge(common('development'), {
             }
           })();
 
+          // Forward pagination headers so the client can follow rel="next"
+          const link = resp.headers.get('link');
+          if (link) res.set('Link', link);
+          // Forward rate-limit headers so the client can back off instead of failing
+          ['x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset', 'retry-after'].forEach((name) => {
+            const value = resp.headers.get(name);
+            if (value !== null) res.set(name, value);
+          });
+          // Expose the upstream ETag under its own name so it can't be confused with Express's response ETag
+          const etag = resp.headers.get('etag');
+          if (etag) res.set('X-GitHub-ETag', etag);
+
           return res.status(resp.status).json(maybeJson);
         } catch (err) {
           // eslint-disable-next-line no-console
@@ -232,16 +265,162 @@ module.exports = merge(common('development'), {
       // GitLab API proxy
       devServer.app.post('/api/gitlab-api', async (req, res) => {
         try {
-          const { token, method, endpoint, data } = req.body || {};
+          const { token, method, endpoint, data, upload } = req.body || {};
           if (!token) return res.status(401).json({ message: 'Missing token' });
           if (!method || !endpoint) return res.status(400).json({ message: 'Missing method or endpoint' });
 
           const baseUrl = (process.env.VITE_GITLAB_BASE_URL || 'https://gitlab.com').replace(/\/+$/, '');
           const url = `${baseUrl}/api/v4${endpoint}`;
 
+          // File uploads (project uploads API) arrive as base64 and are sent on as multipart form data
+          let body = data ? JSON.stringify(data) : undefined;
+          if (upload) {
+            body = new FormData();
+            body.append(
+              'file',
+              new Blob([Buffer.from(upload.contentBase64 || '', 'base64')], { type: upload.contentType }),
+              upload.filename,
+            );
+          }
+
+          const resp = await fetch(url, {
+            method,
+            headers: {
+              'Authorization': `Bearer ${token}`,
+              'User-Agent': 'pfseed-commenting-system',
+              ...(data && !upload ? { 'Content-Type': 'application/json' } : {}),
+            },
+            body,
+          });
+
+          const text = await resp.text();
+          const maybeJson = (() => {
+            try {
+              return JSON.parse(text);
+            } catch {
+              return text;
+            }
+          })();
+
+          // Forward pagination and rate-limit headers (X-Next-Page / rel="next", RateLimit-*, Retry-After)
+          [
+            'link',
+            'x-next-page',
+            'x-page',
+            'x-per-page',
+            'x-total',
+            'x-total-pages',
+            'ratelimit-limit',
+            'ratelimit-remaining',
+            'ratelimit-reset',
+            'retry-after',
+          ].forEach((name) => {
+            const value = resp.headers.get(name);
+            if (value !== null) res.set(name, value);
+          });
+
+          return res.status(resp.status).json(maybeJson);
+        } catch (err) {
+          // eslint-disable-next-line no-console
+          console.error(err);
+          return res.status(500).json({ message: 'Unhandled gitlab-api proxy error. See dev server logs.' });
+        }
+      });
+
+      devServer.app.get('/api/gitea-oauth-callback', async (req, res) => {
+        try {
+          const code = req.query.code;
+          if (!code) {
+            return res.status(400).send('Missing ?code from Gitea OAuth callback.');
+          }
+
+          const clientId = process.env.VITE_GITEA_CLIENT_ID;
+          const clientSecret = process.env.GITEA_CLIENT_SECRET;
+          const baseUrl = (process.env.VITE_GITEA_BASE_URL || '').replace(/\/+$/, '');
+
+          if (!baseUrl) {
+            return res.status(500).send('Missing VITE_GITEA_BASE_URL (e.g. https://gitea.example.com).');
+          }
+          if (!clientId) {
+            return res.status(500).send('Missing VITE_GITEA_CLIENT_ID (client id).');
+          }
+          if (!clientSecret) {
+            return res.status(500).send(
+              'Missing GITEA_CLIENT_SECRET. For local dev, put it in .env.server (gitignored).'
+            );
+          }
+
+          const redirectUri = `${req.protocol}://${req.get('host')}/api/gitea-oauth-callback`;
+
+          // Exchange code -> access token
+          const tokenResp = await fetch(`${baseUrl}/login/oauth/access_token`, {
+            method: 'POST',
+            headers: {
+              'Accept': 'application/json',
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              client_id: clientId,
+              client_secret: clientSecret,
+              code,
+              grant_type: 'authorization_code',
+              redirect_uri: redirectUri,
+            }),
+          });
+
+          const tokenData = await tokenResp.json();
+          if (!tokenResp.ok || tokenData.error) {
+            return res
+              .status(500)
+              .send(`OAuth token exchange failed: ${tokenData.error_description || tokenData.error || tokenResp.statusText}`);
+          }
+
+          const accessToken = tokenData.access_token;
+          if (!accessToken) {
+            return res.status(500).send('OAuth token exchange did not return an access_token.');
+          }
+
+          // Fetch user
+          const userResp = await fetch(`${baseUrl}/api/v1/user`, {
+            headers: {
+              'Accept': 'application/json',
+              'Authorization': `Bearer ${accessToken}`,
+              'User-Agent': 'pfseed-commenting-system',
+            },
+          });
+          const user = await userResp.json();
+          if (!userResp.ok) {
+            return res.status(500).send(`Failed to fetch Gitea user: ${user.message || userResp.statusText}`);
+          }
+
+          const login = encodeURIComponent(user.login || user.username || '');
+          const avatar = encodeURIComponent(user.avatar_url || '');
+          const token = encodeURIComponent(accessToken);
+
+          // Redirect back into the SPA; ProviderAuthContext will read these and store them.
+          return res.redirect(`/#/auth-callback?token=${token}&login=${login}&avatar=${avatar}`);
+        } catch (err) {
+          // eslint-disable-next-line no-console
+          console.error(err);
+          return res.status(500).send('Unhandled OAuth callback error. See dev server logs.');
+        }
+      });
+
+      // Gitea / Forgejo API proxy
+      devServer.app.post('/api/gitea-api', async (req, res) => {
+        try {
+          const { token, method, endpoint, data } = req.body || {};
+          if (!token) return res.status(401).json({ message: 'Missing token' });
+          if (!method || !endpoint) return res.status(400).json({ message: 'Missing method or endpoint' });
+
+          const baseUrl = (process.env.VITE_GITEA_BASE_URL || '').replace(/\/+$/, '');
+          if (!baseUrl) return res.status(500).json({ message: 'Missing VITE_GITEA_BASE_URL' });
+          const url = `${baseUrl}/api/v1${endpoint}`;
+
           const resp = await fetch(url, {
             method,
             headers: {
+              'Accept': 'application/json',
               'Authorization': `Bearer ${token}`,
               'User-Agent': 'pfseed-commenting-system',
               ...(data ? { 'Content-Type': 'application/json' } : {}),
@@ -258,11 +437,104 @@ module.exports = merge(common('development'), {
             }
           })();
 
+          // Forward pagination and rate-limit headers
+          ['link', 'x-total-count', 'retry-after'].forEach((name) => {
+            const value = resp.headers.get(name);
+            if (value !== null) res.set(name, value);
+          });
+
           return res.status(resp.status).json(maybeJson);
         } catch (err) {
           // eslint-disable-next-line no-console
           console.error(err);
-          return res.status(500).json({ message: 'Unhandled gitlab-api proxy error. See dev server logs.' });
+          return res.status(500).json({ message: 'Unhandled gitea-api proxy error. See dev server logs.' });
+        }
+      });
+
+      // The proxy signs requests with the server's Jira token, so it only forwards the calls the Jira adapter makes
+      const jiraApiAllowlist = [
+        ['GET', /^\/myself$/],
+        ['POST', /^\/search(\/jql)?$/],
+        ['POST', /^\/issue$/],
+        ['GET', /^\/issue\/[\w-]+\/comment(\?[\w=&]*)?$/],
+        ['POST', /^\/issue\/[\w-]+\/comment$/],
+        ['PUT', /^\/issue\/[\w-]+\/comment\/\d+$/],
+        ['DELETE', /^\/issue\/[\w-]+\/comment\/\d+$/],
+        ['GET', /^\/issue\/[\w-]+\/transitions$/],
+        ['POST', /^\/issue\/[\w-]+\/transitions$/],
+      ];
+      const isAllowedJiraRequest = (method, endpoint) =>
+        jiraApiAllowlist.some(([allowedMethod, path]) => allowedMethod === method && path.test(endpoint));
+
+      devServer.app.post('/api/jira-api', async (req, res) => {
+        try {
+          const { endpoint, data } = req.body || {};
+          const method = String((req.body && req.body.method) || '').toUpperCase();
+          if (!method || !endpoint) return res.status(400).json({ message: 'Missing method or endpoint' });
+          if (!isAllowedJiraRequest(method, String(endpoint))) {
+            return res.status(403).json({ message: `Jira request not allowed through the proxy: ${method} ${endpoint}` });
+          }
+
+          const baseUrl = (process.env.VITE_JIRA_BASE_URL || 'https://issues.redhat.com').replace(/\/+$/, '');
+          const email = (process.env.JIRA_EMAIL || '').trim();
+          const token = (process.env.JIRA_API_TOKEN || '').trim();
+
+          if (!token) {
+            return res.status(401).json({
+              message:
+                'Missing JIRA_API_TOKEN. For local dev, put it in .env.server (gitignored) and restart the dev server.',
+            });
+          }
+
+          const authHeader = email
+            ? `Basic ${Buffer.from(`${email}:${token}`).toString('base64')}` // Jira Cloud API token style
+            : `Bearer ${token}`; // Jira Server/DC PAT style
+
+          // REST API v2 accepts plain-text descriptions/comments on both Cloud and Server/DC
+          const url = `${baseUrl}/rest/api/2${endpoint}`;
+          const resp = await fetch(url, {
+            method,
+            headers: {
+              'Accept': 'application/json',
+              'Authorization': authHeader,
+              'User-Agent': 'pfseed-commenting-system',
+              ...(data ? { 'Content-Type': 'application/json' } : {}),
+            },
+            body: data ? JSON.stringify(data) : undefined,
+            redirect: 'manual',
+          });
+
+          const text = await resp.text();
+          const contentType = String(resp.headers.get('content-type') || '');
+
+          // SSO flows return an HTML login page instead of JSON; never dump that into the UI.
+          if (contentType.includes('text/html') || String(text || '').trim().startsWith('<')) {
+            return res.status(resp.ok ? 502 : resp.status).json({
+              message:
+                resp.status === 401 || resp.status === 403 || resp.status === 302
+                  ? 'Unauthorized to Jira. Your token/auth scheme may be incorrect for this Jira instance.'
+                  : `Jira request failed (${resp.status}).`,
+            });
+          }
+
+          const maybeJson = (() => {
+            try {
+              return text ? JSON.parse(text) : {};
+            } catch {
+              return { message: text };
+            }
+          })();
+
+          ['x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset', 'retry-after'].forEach((name) => {
+            const value = resp.headers.get(name);
+            if (value !== null) res.set(name, value);
+          });
+
+          return res.status(resp.status).json(maybeJson);
+        } catch (err) {
+          // eslint-disable-next-line no-console
+          console.error(err);
+          return res.status(500).json({ message: 'Unhandled jira-api proxy error. See dev server logs.' });
         }
       });
 